@@ -97,6 +97,28 @@ export class BunAdapter implements CdpDialect {
 		};
 	}
 
+	/**
+	 * JSC has no call breakpoints: break at the function's definition
+	 * instead, which resolves to the first statement of its body.
+	 */
+	async setFunctionBreakpoint(
+		_cdp: CdpClient,
+		params: { objectId: string; condition?: string },
+	): Promise<{
+		breakpointId: string;
+		location?: { scriptId: string; lineNumber: number; columnNumber?: number };
+	}> {
+		const jsc = this.ensureJsc();
+		const { details } = await jsc.send("Debugger.getFunctionDetails", {
+			functionId: params.objectId,
+		});
+		const r = await jsc.send("Debugger.setBreakpoint", {
+			location: details.location,
+			options: params.condition ? { condition: params.condition } : undefined,
+		});
+		return { breakpointId: r.breakpointId, location: r.actualLocation ?? details.location };
+	}
+
 	async getBreakableLocations(
 		_cdp: CdpClient,
 		scriptId: string,
@@ -0,0 +1,66 @@
+import { BRK_PAUSE_TIMEOUT_MS } from "../../constants.ts";
+import type { CdpClient } from "../client.ts";
+import type { CdpDialect } from "../dialect.ts";
+import type { CdpSession } from "../session.ts";
+import { NodeAdapter } from "./node-adapter.ts";
+
+/** Deno subcommands that accept --inspect / --inspect-brk. */
+const INSPECT_SUBCOMMANDS = new Set(["run", "test", "bench", "serve", "eval", "repl"]);
+
+/** Deno's own runtime modules (ext:core/..., ext:deno_web/...). */
+const INTERNAL_BLACKBOX_PATTERN = "^ext:";
+
+/**
+ * DenoAdapter handles Deno's V8 inspector. The protocol is plain CDP, so it
+ * reuses the Node.js breakpoint and property handling.
+ *
+ * Key divergences from Node.js:
+ * - Inspector flags go after the subcommand (`deno run --inspect-brk ...`)
+ *   and take a host:port address
+ * - --inspect-brk waits for Runtime.runIfWaitingForDebugger, then pauses
+ *   on the first statement of the main module by itself
+ * - Runtime internals are ext: modules; they are always blackboxed
+ * - TypeScript is transpiled by Deno, with inline source maps
+ */
+export class DenoAdapter extends NodeAdapter {
+	override readonly name: CdpDialect["name"] = "deno";
+	override readonly internalUrlPrefix: string = "ext:";
+
+	buildSpawnArgs(command: string[], options: { brk: boolean; port: number }): string[] {
+		// Deno prints the address it was given, so port 0 would yield an
+		// unusable inspector URL: pick a free port up front
+		const port = options.port || findFreePort();
+		const flag = `${options.brk ? "--inspect-brk" : "--inspect"}=127.0.0.1:${port}`;
+		const [bin = "deno", ...rest] = command;
+		const subcommand = rest[0];
+		if (subcommand && INSPECT_SUBCOMMANDS.has(subcommand)) {
+			return [bin, subcommand, flag, ...rest.slice(1)];
+		}
+		// `deno main.ts` is shorthand for `deno run main.ts`
+		return [bin, flag, ...rest];
+	}
+
+	override async waitForBrkPause(session: CdpSession): Promise<void> {
+		if (!session.isPaused() && session.cdp) {
+			const waiter = session.createPauseWaiter(BRK_PAUSE_TIMEOUT_MS);
+			await session.cdp.send("Runtime.runIfWaitingForDebugger");
+			await waiter;
+		}
+		await this.skipInternalPauses(session);
+	}
+
+	override async setBlackboxPatterns(cdp: CdpClient, patterns: string[]): Promise<void> {
+		await super.setBlackboxPatterns(cdp, [INTERNAL_BLACKBOX_PATTERN, ...patterns]);
+	}
+}
+
+function findFreePort(): number {
+	const listener = Bun.listen({
+		hostname: "127.0.0.1",
+		port: 0,
+		socket: { data() {} },
+	});
+	const port = listener.port;
+	listener.stop(true);
+	return port;
+}
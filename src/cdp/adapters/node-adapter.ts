@@ -5,8 +5,8 @@ import type { CdpDialect } from "../dialect.ts";
 import type { CdpSession, ScriptInfo } from "../session.ts";
 
 export class NodeAdapter implements CdpDialect {
-	readonly name = "node" as const;
-	readonly internalUrlPrefix = "node:";
+	readonly name: CdpDialect["name"] = "node";
+	readonly internalUrlPrefix: string = "node:";
 
 	async preEnable(_cdp: CdpClient): Promise<void> {
 		// Node.js doesn't need anything before enableDomains()
@@ -78,6 +78,26 @@ export class NodeAdapter implements CdpDialect {
 		};
 	}
 
+	async setFunctionBreakpoint(
+		cdp: CdpClient,
+		params: { objectId: string; condition?: string },
+	): Promise<{
+		breakpointId: string;
+		location?: { scriptId: string; lineNumber: number; columnNumber?: number };
+	}> {
+		const props = await cdp.send("Runtime.getProperties", {
+			objectId: params.objectId,
+			ownProperties: true,
+		});
+		const location = props.internalProperties?.find((p) => p.name === "[[FunctionLocation]]")?.value
+			?.value as Protocol.Debugger.Location | undefined;
+		const r = await cdp.send("Debugger.setBreakpointOnFunctionCall", {
+			objectId: params.objectId,
+			condition: params.condition,
+		});
+		return { breakpointId: r.breakpointId, location };
+	}
+
 	async getBreakableLocations(
 		cdp: CdpClient,
 		scriptId: string,
@@ -105,7 +125,7 @@ export class NodeAdapter implements CdpDialect {
 		await cdp.send("Debugger.setBlackboxPatterns", { patterns });
 	}
 
-	private async skipInternalPauses(session: CdpSession): Promise<void> {
+	protected async skipInternalPauses(session: CdpSession): Promise<void> {
 		let skips = 0;
 		while (
 			session.isPaused() &&
@@ -3,9 +3,15 @@ import type { CdpClient } from "./client.ts";
 import type { CdpSession, ScriptInfo } from "./session.ts";
 
 export interface CdpDialect {
-	readonly name: "node" | "bun" | "unknown";
+	readonly name: "node" | "bun" | "deno" | "unknown";
 	readonly internalUrlPrefix: string;
 
+	/**
+	 * Build the spawn command with the inspector flag. Without this hook the
+	 * flag is inserted right after the runtime binary.
+	 */
+	buildSpawnArgs?(command: string[], options: { brk: boolean; port: number }): string[];
+
 	/** Pre-enable hook: called after CDP connects, before enableDomains() */
 	preEnable(cdp: CdpClient): Promise<void>;
 
@@ -37,6 +43,18 @@ export interface CdpDialect {
 		url?: string;
 	}>;
 
+	/**
+	 * Break on calls to the function object `objectId`. Returns the breakpoint
+	 * and where the function is defined.
+	 */
+	setFunctionBreakpoint(
+		cdp: CdpClient,
+		params: { objectId: string; condition?: string },
+	): Promise<{
+		breakpointId: string;
+		location?: { scriptId: string; lineNumber: number; columnNumber?: number };
+	}>;
+
 	/** Get possible breakpoint locations in a script range */
 	getBreakableLocations(
 		cdp: CdpClient,
@@ -1,15 +1,30 @@
+import type { RefEntry } from "../refs/ref-table.ts";
+import type { FunctionBreakpointResult, WatchpointAccess } from "../session/session.ts";
 import { escapeRegex } from "../util/escape-regex.ts";
 import type { CdpSession } from "./session.ts";
+import { restoreWatchpoint } from "./session-watchpoints.ts";
 
 export async function setBreakpoint(
 	session: CdpSession,
 	file: string,
 	line: number,
-	options?: { condition?: string; hitCount?: number; urlRegex?: string; column?: number },
+	options?: {
+		condition?: string;
+		hitCount?: number;
+		urlRegex?: string;
+		column?: number;
+		capture?: boolean;
+		captureFrames?: number;
+		once?: boolean;
+		after?: string;
+	},
 ): Promise<{ ref: string; location: { url: string; line: number; column?: number } }> {
 	if (!session.cdp) {
 		throw new Error("No active debug session");
 	}
+	if (options?.after && !isBreakpointRef(session, options.after)) {
+		throw new Error(`Unknown trigger breakpoint: ${options.after}`);
+	}
 
 	const condition = session.buildBreakpointCondition(options?.condition, options?.hitCount);
 
@@ -90,8 +105,21 @@ export async function setBreakpoint(
 	if (options?.urlRegex) {
 		meta.urlRegex = options.urlRegex;
 	}
+	if (options?.capture) {
+		meta.capture = true;
+		if (options.captureFrames !== undefined) meta.captureFrames = options.captureFrames;
+	}
+
+	if (options?.once) {
+		meta.once = true;
+	}
 
 	const ref = session.refs.addBreakpoint(breakpointId, meta);
+	if (options?.after) {
+		// Resolve the location now, but stay disarmed until the trigger is hit
+		meta.after = options.after;
+		await disableEntry(session, { ref, type: "BP", remoteId: breakpointId, meta });
+	}
 
 	const location: { url: string; line: number; column?: number } = {
 		url: resolvedUrl,
@@ -104,6 +132,79 @@ export async function setBreakpoint(
 	return { ref, location };
 }
 
+/** Object group holding function breakpoint targets, so their handles outlive pauses. */
+const FUNCTION_BREAKPOINT_GROUP = "dbg-function-breakpoints";
+
+/**
+ * Break on calls to the function an expression evaluates to, e.g.
+ * `UserService.prototype.save` or `require('./db').query`. The expression is
+ * evaluated in the paused frame when paused, globally otherwise.
+ */
+export async function setFunctionBreakpoint(
+	session: CdpSession,
+	expression: string,
+	options?: { condition?: string; hitCount?: number },
+): Promise<FunctionBreakpointResult> {
+	const cdp = session.cdp;
+	if (!cdp) {
+		throw new Error("No active debug session");
+	}
+
+	const evalParams = {
+		expression,
+		objectGroup: FUNCTION_BREAKPOINT_GROUP,
+		includeCommandLineAPI: true,
+		silent: true,
+	};
+	const topFrame = session.pausedCallFrames[0];
+	const evaluated = topFrame
+		? await cdp.send("Debugger.evaluateOnCallFrame", {
+				...evalParams,
+				callFrameId: topFrame.callFrameId,
+			})
+		: await cdp.send("Runtime.evaluate", evalParams);
+	if (evaluated.exceptionDetails) {
+		const reason =
+			evaluated.exceptionDetails.exception?.description?.split("\n")[0] ??
+			evaluated.exceptionDetails.text;
+		throw new Error(`Cannot evaluate "${expression}": ${reason}`);
+	}
+	const objectId = evaluated.result.objectId;
+	if (evaluated.result.type !== "function" || !objectId) {
+		throw new Error(`"${expression}" is not a function`);
+	}
+
+	const condition = session.buildBreakpointCondition(options?.condition, options?.hitCount);
+	const r = await session.adapter.setFunctionBreakpoint(cdp, { objectId, condition });
+
+	let location: FunctionBreakpointResult["location"];
+	if (r.location) {
+		const line = r.location.lineNumber + 1;
+		const column = r.location.columnNumber ?? 0;
+		location = session.resolveOriginalLocation(r.location.scriptId, line, column) ?? {
+			url: session.scripts.get(r.location.scriptId)?.url ?? "",
+			line,
+			column: column + 1,
+		};
+	}
+
+	const meta: Record<string, unknown> = {
+		url: location?.url ?? expression,
+		line: location?.line ?? 0,
+		functionName: expression,
+		functionObjectId: objectId,
+	};
+	if (options?.condition) {
+		meta.condition = options.condition;
+	}
+	if (options?.hitCount) {
+		meta.hitCount = options.hitCount;
+	}
+
+	const ref = session.refs.addBreakpoint(r.breakpointId, meta);
+	return location ? { ref, location } : { ref };
+}
+
 export async function removeBreakpoint(session: CdpSession, ref: string): Promise<void> {
 	if (!session.cdp) {
 		throw new Error("No active debug session");
@@ -121,6 +222,7 @@ export async function removeBreakpoint(session: CdpSession, ref: string): Promis
 	await session.cdp.send("Debugger.removeBreakpoint", {
 		breakpointId: entry.remoteId,
 	});
+	await restoreWatchpoint(session, entry);
 
 	session.refs.remove(ref);
 }
@@ -138,8 +240,21 @@ export async function removeAllBreakpoints(session: CdpSession): Promise<void> {
 		await session.cdp.send("Debugger.removeBreakpoint", {
 			breakpointId: entry.remoteId,
 		});
+		await restoreWatchpoint(session, entry);
 		session.refs.remove(entry.ref);
 	}
+
+	// Disabled entries are no longer set in the runtime, but watchpoints still
+	// have their accessor installed
+	for (const [ref, entry] of session.disabledBreakpoints) {
+		await restoreWatchpoint(session, {
+			ref,
+			type: "BP",
+			remoteId: entry.breakpointId,
+			meta: entry.meta,
+		});
+		session.disabledBreakpoints.delete(ref);
+	}
 }
 
 export function listBreakpoints(session: CdpSession): Array<{
@@ -171,6 +286,14 @@ export function listBreakpoints(session: CdpSession): Array<{
 		disabled?: boolean;
 		originalUrl?: string;
 		originalLine?: number;
+		maxEmissions?: number;
+		capture?: boolean;
+		captureFrames?: number;
+		once?: boolean;
+		after?: string;
+		functionName?: string;
+		watchpoint?: string;
+		access?: WatchpointAccess;
 	}> = all.map((entry) => {
 		const meta = entry.meta ?? {};
 		const item: {
@@ -185,6 +308,14 @@ export function listBreakpoints(session: CdpSession): Array<{
 			disabled?: boolean;
 			originalUrl?: string;
 			originalLine?: number;
+			maxEmissions?: number;
+			capture?: boolean;
+			captureFrames?: number;
+			once?: boolean;
+			after?: string;
+			functionName?: string;
+			watchpoint?: string;
+			access?: WatchpointAccess;
 		} = {
 			ref: entry.ref,
 			type: entry.type as "BP" | "LP",
@@ -208,6 +339,26 @@ export function listBreakpoints(session: CdpSession): Array<{
 			item.originalUrl = meta.originalUrl as string;
 			item.originalLine = meta.originalLine as number;
 		}
+		if (meta.maxEmissions !== undefined) {
+			item.maxEmissions = meta.maxEmissions as number;
+		}
+		if (meta.capture) {
+			item.capture = true;
+			if (meta.captureFrames !== undefined) item.captureFrames = meta.captureFrames as number;
+		}
+		if (meta.once) {
+			item.once = true;
+		}
+		if (meta.after !== undefined) {
+			item.after = meta.after as string;
+		}
+		if (meta.functionName !== undefined) {
+			item.functionName = meta.functionName as string;
+		}
+		if (meta.watchpoint !== undefined) {
+			item.watchpoint = meta.watchpoint as string;
+			item.access = meta.access as WatchpointAccess;
+		}
 
 		return item;
 	});
@@ -225,6 +376,16 @@ export function listBreakpoints(session: CdpSession): Array<{
 			hitCount?: number;
 			template?: string;
 			disabled?: boolean;
+			originalUrl?: string;
+			originalLine?: number;
+			maxEmissions?: number;
+			capture?: boolean;
+			captureFrames?: number;
+			once?: boolean;
+			after?: string;
+			functionName?: string;
+			watchpoint?: string;
+			access?: WatchpointAccess;
 		} = {
 			ref,
 			type: (meta.type as "BP" | "LP") ?? "BP",
@@ -245,6 +406,30 @@ export function listBreakpoints(session: CdpSession): Array<{
 		if (meta.template !== undefined) {
 			item.template = meta.template as string;
 		}
+		if (meta.originalUrl !== undefined) {
+			item.originalUrl = meta.originalUrl as string;
+			item.originalLine = meta.originalLine as number;
+		}
+		if (meta.maxEmissions !== undefined) {
+			item.maxEmissions = meta.maxEmissions as number;
+		}
+		if (meta.capture) {
+			item.capture = true;
+			if (meta.captureFrames !== undefined) item.captureFrames = meta.captureFrames as number;
+		}
+		if (meta.once) {
+			item.once = true;
+		}
+		if (meta.after !== undefined) {
+			item.after = meta.after as string;
+		}
+		if (meta.functionName !== undefined) {
+			item.functionName = meta.functionName as string;
+		}
+		if (meta.watchpoint !== undefined) {
+			item.watchpoint = meta.watchpoint as string;
+			item.access = meta.access as WatchpointAccess;
+		}
 
 		results.push(item);
 	}
@@ -269,23 +454,15 @@ export async function toggleBreakpoint(
 		if (allActive.length > 0) {
 			// Disable all active breakpoints
 			for (const entry of allActive) {
-				await session.cdp.send("Debugger.removeBreakpoint", {
-					breakpointId: entry.remoteId,
-				});
-				const meta = { ...(entry.meta ?? {}), type: entry.type };
-				session.disabledBreakpoints.set(entry.ref, {
-					breakpointId: entry.remoteId,
-					meta,
-				});
-				session.refs.remove(entry.ref);
+				await disableEntry(session, entry);
 			}
 			return { ref: "all", state: "disabled" };
 		}
-		// Re-enable all disabled breakpoints
+		// Re-enable all disabled breakpoints, except those still waiting for their trigger
 		const disabledRefs = [...session.disabledBreakpoints.keys()];
 		for (const dRef of disabledRefs) {
 			const entry = session.disabledBreakpoints.get(dRef);
-			if (!entry) continue;
+			if (!entry || entry.meta.after) continue;
 			await reEnableBreakpoint(session, dRef, entry);
 		}
 		return { ref: "all", state: "enabled" };
@@ -295,16 +472,7 @@ export async function toggleBreakpoint(
 	// Check if it's currently active
 	const activeEntry = session.refs.resolve(ref);
 	if (activeEntry && (activeEntry.type === "BP" || activeEntry.type === "LP")) {
-		// Disable it
-		await session.cdp.send("Debugger.removeBreakpoint", {
-			breakpointId: activeEntry.remoteId,
-		});
-		const meta = { ...(activeEntry.meta ?? {}), type: activeEntry.type };
-		session.disabledBreakpoints.set(ref, {
-			breakpointId: activeEntry.remoteId,
-			meta,
-		});
-		session.refs.remove(ref);
+		await disableEntry(session, activeEntry);
 		return { ref, state: "disabled" };
 	}
 
@@ -318,6 +486,51 @@ export async function toggleBreakpoint(
 	throw new Error(`Unknown breakpoint ref: ${ref}`);
 }
 
+function isBreakpointRef(session: CdpSession, ref: string): boolean {
+	return (
+		session.refs.resolve(ref)?.type === "BP" ||
+		session.disabledBreakpoints.get(ref)?.meta.type === "BP"
+	);
+}
+
+async function disableEntry(session: CdpSession, entry: RefEntry): Promise<void> {
+	if (!session.cdp) return;
+	await session.cdp.send("Debugger.removeBreakpoint", {
+		breakpointId: entry.remoteId,
+	});
+	const meta = { ...(entry.meta ?? {}), type: entry.type };
+	session.disabledBreakpoints.set(entry.ref, {
+		breakpointId: entry.remoteId,
+		meta,
+	});
+	session.refs.remove(entry.ref);
+}
+
+/**
+ * Apply the side effects of a pause on the given breakpoints: one-shot
+ * breakpoints are removed and breakpoints waiting for them are armed.
+ */
+export async function applyBreakpointHits(session: CdpSession, refs: string[]): Promise<void> {
+	const cdp = session.cdp;
+	if (!cdp) return;
+	const updates: Promise<void>[] = [];
+	for (const ref of refs) {
+		const entry = session.refs.resolve(ref);
+		if (entry?.meta?.once) {
+			session.refs.remove(ref);
+			updates.push(
+				cdp.send("Debugger.removeBreakpoint", { breakpointId: entry.remoteId }).then(() => {}),
+			);
+		}
+		for (const [dRef, disabled] of session.disabledBreakpoints) {
+			if (disabled.meta.after === ref) {
+				updates.push(reEnableBreakpoint(session, dRef, disabled));
+			}
+		}
+	}
+	await Promise.all(updates);
+}
+
 async function reEnableBreakpoint(
 	session: CdpSession,
 	ref: string,
@@ -334,6 +547,18 @@ async function reEnableBreakpoint(
 
 	const builtCondition = session.buildBreakpointCondition(condition, hitCount);
 
+	if (meta.functionObjectId) {
+		const r = await session.adapter.setFunctionBreakpoint(session.cdp, {
+			objectId: meta.functionObjectId as string,
+			condition: builtCondition,
+		});
+		const newMeta = { ...meta };
+		delete newMeta.type;
+		session.refs.restore({ ref, type: "BP", remoteId: r.breakpointId, meta: newMeta });
+		session.disabledBreakpoints.delete(ref);
+		return;
+	}
+
 	// Find scriptId for Bun adapter which needs it
 	let scriptId: string | undefined;
 	if (url) {
@@ -355,15 +580,12 @@ async function reEnableBreakpoint(
 		scripts: session.scripts,
 	});
 
-	// Re-create the ref entry in the ref table
+	// Re-create the ref entry in the ref table, under the same ref
 	const type = (meta.type as string) === "LP" ? "LP" : "BP";
 	const newMeta = { ...meta };
 	delete newMeta.type; // type is stored in the ref entry, not meta
-	if (type === "BP") {
-		session.refs.addBreakpoint(r.breakpointId, newMeta);
-	} else {
-		session.refs.addLogpoint(r.breakpointId, newMeta);
-	}
+	delete newMeta.after; // an enabled breakpoint no longer waits for its trigger
+	session.refs.restore({ ref, type, remoteId: r.breakpointId, meta: newMeta });
 
 	session.disabledBreakpoints.delete(ref);
 }
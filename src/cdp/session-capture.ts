@@ -0,0 +1,119 @@
+import type Protocol from "devtools-protocol/types/protocol.js";
+import { CAPTURE_STACK_FRAMES_DEFAULT, MAX_CAPTURED_HITS } from "../constants.ts";
+import type { RefEntry } from "../refs/ref-table.ts";
+import type { BreakpointHitsResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+import { getStack, getVars } from "./session-inspection.ts";
+
+/**
+ * The capture breakpoints behind a pause, or null when the pause must be
+ * surfaced: nothing was hit, a regular breakpoint was hit too, or the pause
+ * ends a step.
+ */
+function captureEntries(
+	session: CdpSession,
+	event: Protocol.Debugger.PausedEvent,
+): RefEntry[] | null {
+	if (session.stepping || !event.hitBreakpoints?.length) return null;
+	const breakpoints = session.refs.list("BP");
+	const entries: RefEntry[] = [];
+	for (const id of event.hitBreakpoints) {
+		const entry = breakpoints.find((e) => e.remoteId === id);
+		if (!entry?.meta?.capture) return null;
+		entries.push(entry);
+	}
+	return entries;
+}
+
+export function isCapturePause(session: CdpSession, event: Protocol.Debugger.PausedEvent): boolean {
+	return captureEntries(session, event) !== null;
+}
+
+/**
+ * Record a snapshot for each capture breakpoint hit by this pause, then
+ * resume. Returns false (and records nothing) if the pause is not a
+ * capture-only pause.
+ */
+export function captureAndResume(
+	session: CdpSession,
+	event: Protocol.Debugger.PausedEvent,
+): boolean {
+	const entries = captureEntries(session, event);
+	if (!entries) return false;
+	recordHits(session, event, entries).catch((err) => {
+		session.daemonLogger.error(
+			"capture.failed",
+			`Failed to capture breakpoint hit: ${err instanceof Error ? err.message : String(err)}`,
+		);
+	});
+	return true;
+}
+
+async function recordHits(
+	session: CdpSession,
+	event: Protocol.Debugger.PausedEvent,
+	entries: RefEntry[],
+): Promise<void> {
+	const cdp = session.cdp;
+	if (!cdp) return;
+
+	// Inspection helpers need a paused session; nothing is notified, so
+	// waiters and event subscribers never see this pause
+	session.capturing = true;
+	session.state = "paused";
+	session.pausedCallFrames = event.callFrames;
+	try {
+		const frames = Math.max(
+			...entries.map((e) => (e.meta?.captureFrames as number) ?? CAPTURE_STACK_FRAMES_DEFAULT),
+		);
+		const vars = (await getVars(session)).map(({ name, type, value }) => ({ name, type, value }));
+		const stack = getStack(session)
+			.slice(0, frames)
+			.map(({ functionName, file, line, column }) => ({ functionName, file, line, column }));
+		const timestamp = Date.now();
+
+		for (const entry of entries) {
+			let history = session.capturedHits.get(entry.ref);
+			if (!history) {
+				history = { total: 0, hits: [] };
+				session.capturedHits.set(entry.ref, history);
+			}
+			history.total++;
+			history.hits.push({ hit: history.total, timestamp, vars, stack });
+			if (history.hits.length > MAX_CAPTURED_HITS) {
+				history.hits.splice(0, history.hits.length - MAX_CAPTURED_HITS);
+			}
+		}
+	} finally {
+		session.pausedCallFrames = [];
+		session.refs.clearVolatile();
+		session.state = "running";
+		session.capturing = false;
+		session.pendingCaptureResumes++;
+		// Resume even if the snapshot failed, so the debuggee never stays stuck
+		await cdp.send("Debugger.resume").catch((err) => {
+			session.pendingCaptureResumes--;
+			session.daemonLogger.error(
+				"capture.failed",
+				`Failed to resume after capture: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		});
+	}
+}
+
+export function getBreakpointHits(
+	session: CdpSession,
+	ref: string,
+	options: { last?: number } = {},
+): BreakpointHitsResult {
+	const entry = session.refs.resolve(ref);
+	const history = session.capturedHits.get(ref);
+	if (!history && !entry?.meta?.capture) {
+		throw new Error(`${ref} is not a capture breakpoint`);
+	}
+	let hits = history?.hits ?? [];
+	if (options.last !== undefined && options.last > 0) {
+		hits = hits.slice(-options.last);
+	}
+	return { ref, total: history?.total ?? 0, hits };
+}
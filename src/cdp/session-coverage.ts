@@ -0,0 +1,180 @@
+import { dirname, isAbsolute, resolve } from "node:path";
+import type { CoverageFileResult } from "../profiling/coverage.ts";
+import { computeLineCoverage, summarizeFileCoverage } from "../profiling/coverage.ts";
+import type { CoverageResult, SourceResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+
+function requireProfiler(session: CdpSession): NonNullable<CdpSession["cdp"]> {
+	if (!session.cdp) {
+		throw new Error("No active debug session");
+	}
+	if (!session.cdp.enabledDomains.has("Profiler")) {
+		throw new Error(`Coverage is not supported by the ${session.runtime} runtime`);
+	}
+	return session.cdp;
+}
+
+function sameSource(a: string, b: string): boolean {
+	return a === b || a.endsWith(b) || b.endsWith(a);
+}
+
+/**
+ * Pull the counters accumulated since the last take and add them to the
+ * session totals (takePreciseCoverage resets V8's counters).
+ */
+async function collectCoverage(session: CdpSession): Promise<void> {
+	const cdp = requireProfiler(session);
+	const { result } = await cdp.send("Profiler.takePreciseCoverage");
+	for (const script of result) {
+		if (!script.url || script.url.startsWith(session.adapter.internalUrlPrefix)) continue;
+
+		let source = session.coverageSources.get(script.scriptId);
+		if (source === undefined) {
+			try {
+				source = (await cdp.send("Debugger.getScriptSource", { scriptId: script.scriptId }))
+					.scriptSource;
+			} catch {
+				continue;
+			}
+			session.coverageSources.set(script.scriptId, source);
+		}
+
+		let totals = session.coverageCounts.get(script.scriptId);
+		if (!totals) {
+			totals = new Map();
+			session.coverageCounts.set(script.scriptId, totals);
+		}
+		for (const entry of computeLineCoverage(source, script.functions)) {
+			const existing = totals.get(entry.line);
+			if (existing) {
+				existing.count += entry.count;
+			} else {
+				totals.set(entry.line, entry);
+			}
+		}
+	}
+}
+
+/**
+ * Per-file 1-based line counts, mapped to original sources where a source
+ * map exists. When several generated lines map to one original line, the
+ * highest count wins.
+ */
+function coverageByFile(session: CdpSession): Map<string, Map<number, number>> {
+	const files = new Map<string, Map<number, number>>();
+	const add = (url: string, line: number, count: number) => {
+		let counts = files.get(url);
+		if (!counts) {
+			counts = new Map();
+			files.set(url, counts);
+		}
+		counts.set(line, Math.max(counts.get(line) ?? 0, count));
+	};
+
+	for (const [scriptId, totals] of session.coverageCounts) {
+		const url = session.scripts.get(scriptId)?.url;
+		if (!url) continue;
+		const mapped = session.sourceMapResolver.getInfo(scriptId) !== null;
+		const scriptDir = dirname(url.startsWith("file://") ? url.slice(7) : url);
+		for (const { line, column, count } of totals.values()) {
+			if (!mapped) {
+				add(url, line + 1, count);
+				continue;
+			}
+			// Generated-only lines (bundler glue) have no original position
+			const original = session.sourceMapResolver.toOriginal(scriptId, line + 1, column);
+			if (!original) continue;
+			const source =
+				isAbsolute(original.source) || original.source.includes("://")
+					? original.source
+					: resolve(scriptDir, original.source);
+			add(source, original.line, count);
+		}
+	}
+	return files;
+}
+
+function buildReport(
+	session: CdpSession,
+	options: { filter?: string; all?: boolean },
+): CoverageResult {
+	const files: CoverageFileResult[] = [];
+	for (const [url, counts] of coverageByFile(session)) {
+		if (!options.all && url.includes("/node_modules/")) continue;
+		if (options.filter && !url.includes(options.filter)) continue;
+		files.push(summarizeFileCoverage(url, counts));
+	}
+	files.sort((a, b) => a.url.localeCompare(b.url));
+	return { active: session.coverageActive, files };
+}
+
+export async function startCoverage(session: CdpSession): Promise<{ active: boolean }> {
+	const cdp = requireProfiler(session);
+	if (session.coverageActive) {
+		throw new Error("Coverage is already being collected");
+	}
+	await cdp.send("Profiler.startPreciseCoverage", { callCount: true, detailed: true });
+	session.coverageActive = true;
+	session.coverageCounts.clear();
+	session.coverageSources.clear();
+	return { active: true };
+}
+
+export async function takeCoverage(
+	session: CdpSession,
+	options: { filter?: string; all?: boolean } = {},
+): Promise<CoverageResult> {
+	requireProfiler(session);
+	if (!session.coverageActive) {
+		throw new Error("Coverage is not being collected");
+	}
+	await collectCoverage(session);
+	return buildReport(session, options);
+}
+
+export async function stopCoverage(
+	session: CdpSession,
+	options: { filter?: string; all?: boolean } = {},
+): Promise<CoverageResult> {
+	const cdp = requireProfiler(session);
+	if (!session.coverageActive) {
+		throw new Error("Coverage is not being collected");
+	}
+	await collectCoverage(session);
+	await cdp.send("Profiler.stopPreciseCoverage");
+	session.coverageActive = false;
+	// Totals are kept so `dbg source --coverage` still works after stopping
+	return buildReport(session, options);
+}
+
+/**
+ * Attach hit counts to the lines of a `dbg source` view of a script, either
+ * its generated code or one of its original sources.
+ */
+export async function annotateSourceCoverage(
+	session: CdpSession,
+	scriptId: string,
+	originalPath: string | null,
+	lines: SourceResult["lines"],
+): Promise<void> {
+	if (session.coverageActive) {
+		await collectCoverage(session);
+	} else if (session.coverageCounts.size === 0) {
+		throw new Error("No coverage data collected");
+	}
+	const counts = new Map<number, number>();
+	for (const { line, column, count } of session.coverageCounts.get(scriptId)?.values() ?? []) {
+		if (!originalPath) {
+			counts.set(line + 1, count);
+			continue;
+		}
+		const original = session.sourceMapResolver.toOriginal(scriptId, line + 1, column);
+		if (original && sameSource(original.source, originalPath)) {
+			counts.set(original.line, Math.max(counts.get(original.line) ?? 0, count));
+		}
+	}
+	for (const entry of lines) {
+		const hitCount = counts.get(entry.line);
+		if (hitCount !== undefined) entry.hitCount = hitCount;
+	}
+}
@@ -0,0 +1,182 @@
+import { DUMP_DEPTH_DEFAULT, DUMP_MAX_BYTES_DEFAULT } from "../constants.ts";
+import type { DumpResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+
+/**
+ * Runs in the debuggee with `this` bound to the dumped object and returns
+ * the result as a JSON string. Values JSON cannot represent are tagged with
+ * `$type`; a cycle becomes { $ref: path } pointing at the enclosing object.
+ * Once the output reaches maxBytes, each container stops at that point and
+ * ends with one { $type: "Truncated", remaining } marker (under the
+ * "$truncated" key for plain objects).
+ */
+const SERIALIZE = `function (maxDepth, maxBytes) {
+	const ancestors = new Map();
+	let bytes = 0;
+	let truncated = false;
+	const keyPath = (path, key) =>
+		/^[A-Za-z_$][\\w$]*$/.test(key) ? path + "." + key : path + "[" + JSON.stringify(key) + "]";
+
+	// Tagged values are counted at their JSON size, like everything else
+	function tagged(value) {
+		bytes += JSON.stringify(value).length;
+		return value;
+	}
+
+	function cut(remaining) {
+		truncated = true;
+		return tagged({ $type: "Truncated", remaining });
+	}
+
+	// Walk items from an iterable of length total until the budget runs out
+	function walkList(items, total, walkItem) {
+		const out = [];
+		let i = 0;
+		for (const item of items) {
+			if (bytes > maxBytes) {
+				out.push(cut(total - i));
+				break;
+			}
+			out.push(walkItem(item, i));
+			i++;
+		}
+		return out;
+	}
+
+	function walk(value, path, depth) {
+		if (bytes > maxBytes) {
+			truncated = true;
+			return tagged({ $type: "Truncated" });
+		}
+		switch (typeof value) {
+			case "string":
+				bytes += value.length + 2;
+				return value;
+			case "number":
+				bytes += 8;
+				return Number.isFinite(value) ? value : tagged({ $type: "Number", value: String(value) });
+			case "boolean":
+				bytes += 5;
+				return value;
+			case "bigint":
+				return tagged({ $type: "BigInt", value: value.toString() });
+			case "undefined":
+				return tagged({ $type: "undefined" });
+			case "symbol":
+				return tagged({ $type: "Symbol", value: value.toString() });
+			case "function":
+				return tagged({ $type: "Function", name: value.name });
+		}
+		if (value === null) {
+			bytes += 4;
+			return null;
+		}
+		if (ancestors.has(value)) return tagged({ $ref: ancestors.get(value) });
+		if (value instanceof Date) {
+			return tagged({
+				$type: "Date",
+				value: Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString(),
+			});
+		}
+		if (value instanceof RegExp) return tagged({ $type: "RegExp", value: String(value) });
+		if (depth >= maxDepth) {
+			truncated = true;
+			return tagged({ $type: "Truncated", className: value.constructor?.name ?? "Object" });
+		}
+
+		ancestors.set(value, path);
+		try {
+			if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+				const values = walkList(value, value.length, (v, i) => walk(v, path + "[" + i + "]", depth + 1));
+				return { $type: value.constructor.name, values };
+			}
+			if (value instanceof ArrayBuffer) {
+				const view = new Uint8Array(value);
+				const values = walkList(view, view.length, (v) => {
+					bytes += 4;
+					return v;
+				});
+				return { $type: "ArrayBuffer", values };
+			}
+			if (value instanceof Map) {
+				const entries = walkList(value, value.size, ([k, v], i) => [
+					walk(k, path + ".entries[" + i + "][0]", depth + 1),
+					walk(v, path + ".entries[" + i + "][1]", depth + 1),
+				]);
+				return { $type: "Map", entries };
+			}
+			if (value instanceof Set) {
+				const values = walkList(value, value.size, (v, i) => walk(v, path + ".values[" + i + "]", depth + 1));
+				return { $type: "Set", values };
+			}
+			if (value instanceof Error) {
+				return tagged({ $type: "Error", name: value.name, message: value.message, stack: value.stack });
+			}
+			if (Array.isArray(value)) {
+				return walkList(value, value.length, (v, i) => walk(v, path + "[" + i + "]", depth + 1));
+			}
+			const out = {};
+			const keys = Object.keys(value);
+			for (let i = 0; i < keys.length; i++) {
+				if (bytes > maxBytes) {
+					out.$truncated = cut(keys.length - i);
+					break;
+				}
+				const key = keys[i];
+				bytes += key.length + 4;
+				let v;
+				try {
+					v = value[key];
+				} catch (err) {
+					out[key] = tagged({ $type: "Thrown", value: String(err) });
+					continue;
+				}
+				out[key] = walk(v, keyPath(path, key), depth + 1);
+			}
+			return out;
+		} finally {
+			ancestors.delete(value);
+		}
+	}
+
+	const value = walk(this, "$", 0);
+	return JSON.stringify({ value, truncated });
+}`;
+
+/** Serialize the object behind a ref in the debuggee, in one round trip. */
+export async function dumpObject(
+	session: CdpSession,
+	ref: string,
+	options: { depth?: number; maxBytes?: number } = {},
+): Promise<DumpResult> {
+	if (!session.cdp) {
+		throw new Error("No active debug session");
+	}
+
+	const entry = session.refs.resolve(ref);
+	if (!entry) {
+		throw new Error(`Unknown ref: ${ref}`);
+	}
+	const objectId = entry.remoteId;
+	if (objectId.startsWith("primitive:") || objectId.startsWith("eval:")) {
+		throw new Error(`Ref ${ref} is a primitive; use dbg eval to read its value`);
+	}
+
+	const result = await session.cdp.send("Runtime.callFunctionOn", {
+		objectId,
+		functionDeclaration: SERIALIZE,
+		arguments: [
+			{ value: options.depth ?? DUMP_DEPTH_DEFAULT },
+			{ value: options.maxBytes ?? DUMP_MAX_BYTES_DEFAULT },
+		],
+		returnByValue: true,
+		silent: true,
+	});
+	if (result.exceptionDetails) {
+		const reason =
+			result.exceptionDetails.exception?.description?.split("\n")[0] ??
+			result.exceptionDetails.text;
+		throw new Error(`Cannot dump ${ref}: ${reason}`);
+	}
+	return JSON.parse(result.result.value as string) as DumpResult;
+}
@@ -36,8 +36,13 @@ export async function stepExecution(
 	} as const;
 
 	const waiter = session.createPauseWaiter();
-	await session.cdp.send(methodMap[mode]);
-	await waiter;
+	session.stepping = true;
+	try {
+		await session.cdp.send(methodMap[mode]);
+		await waiter;
+	} finally {
+		session.stepping = false;
+	}
 }
 
 export async function pauseExecution(session: CdpSession): Promise<void> {
@@ -120,8 +125,13 @@ export async function restartFrameExecution(
 	}
 
 	const waiter = session.createPauseWaiter();
-	await session.cdp.send("Debugger.restartFrame", { callFrameId, mode: "StepInto" });
-	await waiter;
+	session.stepping = true;
+	try {
+		await session.cdp.send("Debugger.restartFrame", { callFrameId, mode: "StepInto" });
+		await waiter;
+	} finally {
+		session.stepping = false;
+	}
 
 	return { status: "restarted" };
 }
@@ -0,0 +1,84 @@
+import { existsSync } from "node:fs";
+import { HEAP_TOP_DEFAULT } from "../constants.ts";
+import { getHeapSnapshotPath } from "../daemon/paths.ts";
+import type { HeapAnalysis, HeapSnapshotJson } from "../profiling/heap-snapshot.ts";
+import { analyzeHeapSnapshot, diffHeapAnalyses } from "../profiling/heap-snapshot.ts";
+import type { HeapDiffResult, HeapSnapshotResult, HeapSummaryResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+
+function requireHeapProfiler(session: CdpSession): NonNullable<CdpSession["cdp"]> {
+	if (!session.cdp) {
+		throw new Error("No active debug session");
+	}
+	if (!session.cdp.enabledDomains.has("HeapProfiler")) {
+		throw new Error(`Heap snapshots are not supported by the ${session.runtime} runtime`);
+	}
+	return session.cdp;
+}
+
+async function loadSnapshot(session: CdpSession, ref: string): Promise<HeapAnalysis> {
+	const entry = session.refs.resolve(ref);
+	if (!entry || entry.type !== "HS") {
+		throw new Error(`Unknown heap snapshot ref: ${ref}`);
+	}
+	const path = entry.remoteId;
+	if (!existsSync(path)) {
+		throw new Error(`Heap snapshot file for ${ref} no longer exists: ${path}`);
+	}
+	const json = (await Bun.file(path).json()) as HeapSnapshotJson;
+	return analyzeHeapSnapshot(json);
+}
+
+export async function takeHeapSnapshot(session: CdpSession): Promise<HeapSnapshotResult> {
+	const cdp = requireHeapProfiler(session);
+
+	const chunks: string[] = [];
+	const onChunk = (p: { chunk: string }) => {
+		chunks.push(p.chunk);
+	};
+	cdp.on("HeapProfiler.addHeapSnapshotChunk", onChunk);
+	try {
+		await cdp.send("HeapProfiler.takeHeapSnapshot", { reportProgress: false });
+	} finally {
+		cdp.off("HeapProfiler.addHeapSnapshotChunk", onChunk);
+	}
+
+	const content = chunks.join("");
+	const path = getHeapSnapshotPath(session.session, Date.now());
+	await Bun.write(path, content);
+
+	const analysis = analyzeHeapSnapshot(JSON.parse(content) as HeapSnapshotJson);
+	const ref = session.refs.addHeapSnapshot(path, { timestamp: Date.now() });
+	return { ref, path, nodeCount: analysis.nodeCount, totalSize: analysis.totalSize };
+}
+
+export async function getHeapSummary(
+	session: CdpSession,
+	ref: string,
+	options: { top?: number } = {},
+): Promise<HeapSummaryResult> {
+	const analysis = await loadSnapshot(session, ref);
+	return {
+		ref,
+		nodeCount: analysis.nodeCount,
+		totalSize: analysis.totalSize,
+		classes: analysis.classes.slice(0, options.top ?? HEAP_TOP_DEFAULT),
+	};
+}
+
+export async function diffHeapSnapshots(
+	session: CdpSession,
+	base: string,
+	compare: string,
+	options: { top?: number } = {},
+): Promise<HeapDiffResult> {
+	const before = await loadSnapshot(session, base);
+	const after = await loadSnapshot(session, compare);
+	return {
+		base,
+		compare,
+		sizeDelta: after.totalSize - before.totalSize,
+		nodeDelta: after.nodeCount - before.nodeCount,
+		classes: diffHeapAnalyses(before, after).slice(0, options.top ?? HEAP_TOP_DEFAULT),
+	};
+}
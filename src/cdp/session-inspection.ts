@@ -1,7 +1,9 @@
 import type Protocol from "devtools-protocol/types/protocol.js";
 import type { RemoteObject } from "../formatter/values.ts";
 import { formatValue } from "../formatter/values.ts";
+import type { SourceResult } from "../session/session.ts";
 import type { CdpSession } from "./session.ts";
+import { annotateSourceCoverage } from "./session-coverage.ts";
 
 export async function evalExpression(
 	session: CdpSession,
@@ -388,11 +390,14 @@ async function fetchPropsRecursive(
 
 export async function getSource(
 	session: CdpSession,
-	options: { file?: string; lines?: number; all?: boolean; generated?: boolean } = {},
-): Promise<{
-	url: string;
-	lines: Array<{ line: number; text: string; current?: boolean }>;
-}> {
+	options: {
+		file?: string;
+		lines?: number;
+		all?: boolean;
+		generated?: boolean;
+		coverage?: boolean;
+	} = {},
+): Promise<SourceResult> {
 	if (!session.cdp) {
 		throw new Error("No active debug session");
 	}
@@ -440,6 +445,7 @@ export async function getSource(
 	// Try to get original source from source map (unless --generated)
 	let scriptSource: string | null = null;
 	let useOriginalSource = false;
+	let originalPath: string | null = null;
 	let originalCurrentLine: number | undefined;
 
 	if (!options.generated) {
@@ -451,6 +457,7 @@ export async function getSource(
 			if (origSource) {
 				scriptSource = origSource;
 				useOriginalSource = true;
+				originalPath = options.file || session.sourceMapResolver.getScriptOriginalUrl(scriptId);
 				url = options.file ?? url;
 			}
 		}
@@ -465,6 +472,7 @@ export async function getSource(
 					if (origSource) {
 						scriptSource = origSource;
 						useOriginalSource = true;
+						originalPath = primarySource;
 						url = primarySource;
 						// Translate current line to original
 						if (currentLine !== undefined) {
@@ -506,9 +514,9 @@ export async function getSource(
 		endLine = Math.min(sourceLines.length - 1, linesContext * 2);
 	}
 
-	const lines: Array<{ line: number; text: string; current?: boolean }> = [];
+	const lines: SourceResult["lines"] = [];
 	for (let i = startLine; i <= endLine; i++) {
-		const entry: { line: number; text: string; current?: boolean } = {
+		const entry: SourceResult["lines"][number] = {
 			line: i + 1, // 1-based
 			text: sourceLines[i] ?? "",
 		};
@@ -518,6 +526,10 @@ export async function getSource(
 		lines.push(entry);
 	}
 
+	if (options.coverage) {
+		await annotateSourceCoverage(session, scriptId, originalPath, lines);
+	}
+
 	return { url, lines };
 }
 
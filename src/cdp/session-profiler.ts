@@ -0,0 +1,58 @@
+import { CPU_PROFILE_TOP_DEFAULT } from "../constants.ts";
+import { summarizeCpuProfile } from "../profiling/cpu-profile.ts";
+import type { CpuProfileResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+
+function requireProfiler(session: CdpSession): NonNullable<CdpSession["cdp"]> {
+	if (!session.cdp) {
+		throw new Error("No active debug session");
+	}
+	if (!session.cdp.enabledDomains.has("Profiler")) {
+		throw new Error(`CPU profiling is not supported by the ${session.runtime} runtime`);
+	}
+	return session.cdp;
+}
+
+export async function startCpuProfile(
+	session: CdpSession,
+	options: { interval?: number } = {},
+): Promise<{ interval?: number }> {
+	const cdp = requireProfiler(session);
+	if (session.cpuProfileActive) {
+		throw new Error("A CPU profile is already being recorded");
+	}
+	// The sampling interval can only be changed while no profile is running
+	if (options.interval !== undefined) {
+		await cdp.send("Profiler.setSamplingInterval", { interval: options.interval });
+	}
+	await cdp.send("Profiler.start");
+	session.cpuProfileActive = true;
+	return { interval: options.interval };
+}
+
+export async function stopCpuProfile(
+	session: CdpSession,
+	options: { top?: number; out?: string } = {},
+): Promise<CpuProfileResult> {
+	const cdp = requireProfiler(session);
+	if (!session.cpuProfileActive) {
+		throw new Error("No CPU profile is being recorded");
+	}
+	const { profile } = await cdp.send("Profiler.stop");
+	session.cpuProfileActive = false;
+
+	if (options.out) {
+		await Bun.write(options.out, JSON.stringify(profile));
+	}
+
+	const summary = summarizeCpuProfile(profile, (scriptId, line, column) =>
+		session.resolveOriginalLocation(scriptId, line, column),
+	);
+	const result: CpuProfileResult = {
+		duration: summary.duration,
+		sampleCount: summary.sampleCount,
+		functions: summary.functions.slice(0, options.top ?? CPU_PROFILE_TOP_DEFAULT),
+	};
+	if (options.out) result.path = options.out;
+	return result;
+}
@@ -255,6 +255,13 @@ export async function buildState(
 		}
 	}
 
+	// Watch expressions
+	if ((showAll || options.vars) && session.listWatches().length > 0) {
+		snapshot.watches = await session.evaluateWatches(options.frame);
+	}
+
+	session.applyStateDiff(snapshot, options);
+
 	// Breakpoint count
 	if (showAll || options.breakpoints) {
 		const bpEntries = session.refs.list("BP");
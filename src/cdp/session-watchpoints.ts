@@ -0,0 +1,140 @@
+import type { RefEntry } from "../refs/ref-table.ts";
+import type { WatchpointAccess, WatchpointResult } from "../session/session.ts";
+import type { CdpSession } from "./session.ts";
+import { evalExpression } from "./session-inspection.ts";
+
+/** Object group holding watchpoint accessors, so their handles outlive pauses. */
+const WATCHPOINT_GROUP = "dbg-watchpoints";
+
+/**
+ * Replaces `this[property]` with an accessor. The same `watchpoint` function
+ * is installed as getter and/or setter, so a single function-call breakpoint
+ * covers the watched accesses. This is the source shown when it pauses.
+ */
+const INSTALL_WATCHPOINT = `function (property, onRead, onWrite) {
+	const target = this;
+	const original = Object.getOwnPropertyDescriptor(target, property);
+	let value = target[property];
+	const read = original?.get ? () => original.get.call(target) : () => value;
+	const write = original?.set ? (v) => original.set.call(target, v) : (v) => { value = v; };
+	let restored = false;
+	// dbg watchpoint: the code accessing the property is the caller (@f1)
+	const watchpoint = function (newValue) {
+		if (arguments.length === 0) return restored ? target[property] : read();
+		if (restored) target[property] = newValue;
+		else write(newValue);
+	};
+	Object.defineProperty(target, property, {
+		configurable: true,
+		enumerable: original ? original.enumerable : true,
+		get: onRead ? watchpoint : read,
+		set: onWrite ? watchpoint : write,
+	});
+	watchpoint.restore = () => {
+		const descriptor = original && !("value" in original)
+			? original
+			: { value: read(), writable: true, enumerable: original ? original.enumerable : true, configurable: true };
+		Object.defineProperty(target, property, descriptor);
+		restored = true;
+	};
+	return watchpoint;
+}
+//# sourceURL=dbg-watchpoint.js
+`;
+
+/** Split `@v3.user.status` into the object expression and the property. */
+function parseTarget(target: string): { object: string; property: string } {
+	const dot = target.lastIndexOf(".");
+	const object = target.slice(0, dot);
+	const property = target.slice(dot + 1);
+	if (dot <= 0 || !/^[\w$]+$/.test(property)) {
+		throw new Error(`Cannot watch "${target}": expected an object property, e.g. @v3.status`);
+	}
+	return { object, property };
+}
+
+/**
+ * Pause when a property is read and/or written, by turning it into an
+ * accessor with a function breakpoint on it. The object part of the target
+ * is an @ref or an expression, evaluated in the paused frame when paused.
+ */
+export async function setWatchpoint(
+	session: CdpSession,
+	target: string,
+	options: { access?: WatchpointAccess } = {},
+): Promise<WatchpointResult> {
+	const cdp = session.cdp;
+	if (!cdp) {
+		throw new Error("No active debug session");
+	}
+	const access = options.access ?? "write";
+	const { object, property } = parseTarget(target);
+
+	let objectId: string | undefined;
+	if (session.sessionState === "paused") {
+		try {
+			objectId = (await evalExpression(session, object)).objectId;
+		} catch (err) {
+			throw new Error(
+				`Cannot evaluate "${object}": ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+	} else {
+		const evaluated = await cdp.send("Runtime.evaluate", {
+			expression: object,
+			includeCommandLineAPI: true,
+			silent: true,
+		});
+		if (evaluated.exceptionDetails) {
+			const reason =
+				evaluated.exceptionDetails.exception?.description?.split("\n")[0] ??
+				evaluated.exceptionDetails.text;
+			throw new Error(`Cannot evaluate "${object}": ${reason}`);
+		}
+		objectId = evaluated.result.objectId;
+	}
+	if (!objectId) {
+		throw new Error(`"${object}" is not an object`);
+	}
+
+	const installed = await cdp.send("Runtime.callFunctionOn", {
+		objectId,
+		functionDeclaration: INSTALL_WATCHPOINT,
+		arguments: [{ value: property }, { value: access !== "write" }, { value: access !== "read" }],
+		objectGroup: WATCHPOINT_GROUP,
+		silent: true,
+	});
+	const accessorId = installed.result.objectId;
+	if (installed.exceptionDetails || !accessorId) {
+		const reason =
+			installed.exceptionDetails?.exception?.description?.split("\n")[0] ??
+			installed.exceptionDetails?.text ??
+			"no accessor installed";
+		throw new Error(`Cannot watch "${target}": ${reason}`);
+	}
+
+	const r = await session.adapter.setFunctionBreakpoint(cdp, { objectId: accessorId });
+	const ref = session.refs.addBreakpoint(r.breakpointId, {
+		url: target,
+		line: 0,
+		watchpoint: target,
+		access,
+		functionObjectId: accessorId,
+	});
+	return { ref, target, access };
+}
+
+/** Put the watched property back as it was, keeping its current value. */
+export async function restoreWatchpoint(session: CdpSession, entry: RefEntry): Promise<void> {
+	const objectId = entry.meta?.functionObjectId as string | undefined;
+	if (!session.cdp || !entry.meta?.watchpoint || !objectId) return;
+	await session.cdp
+		.send("Runtime.callFunctionOn", {
+			objectId,
+			functionDeclaration: "function () { this.restore(); }",
+			silent: true,
+		})
+		.catch(() => {
+			// The object may have been collected or the context destroyed
+		});
+}
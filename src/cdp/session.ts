@@ -4,8 +4,24 @@ import { DaemonLogger } from "../daemon/logger.ts";
 import { ensureSocketDir, getDaemonLogPath, getLogPath } from "../daemon/paths.ts";
 import type { RemoteObject } from "../formatter/values.ts";
 import { formatValue } from "../formatter/values.ts";
+import type { LineCoverage } from "../profiling/coverage.ts";
 import { BaseSession } from "../session/base-session.ts";
-import type { SessionCapabilities } from "../session/session.ts";
+import type {
+	BreakpointHitsResult,
+	BreakpointListItem,
+	CapturedHit,
+	CoverageResult,
+	CpuProfileResult,
+	DumpResult,
+	FunctionBreakpointResult,
+	HeapDiffResult,
+	HeapSnapshotResult,
+	HeapSummaryResult,
+	SessionCapabilities,
+	SourceResult,
+	WatchpointAccess,
+	WatchpointResult,
+} from "../session/session.ts";
 import type {
 	AttachResult,
 	ConsoleMessage,
@@ -26,15 +42,28 @@ import {
 	removeBlackbox as removeBlackboxImpl,
 } from "./session-blackbox.ts";
 import {
+	applyBreakpointHits as applyBreakpointHitsImpl,
 	getBreakableLocations as getBreakableLocationsImpl,
 	listBreakpoints as listBreakpointsImpl,
 	removeAllBreakpoints as removeAllBreakpointsImpl,
 	removeBreakpoint as removeBreakpointImpl,
 	setBreakpoint as setBreakpointImpl,
 	setExceptionPause as setExceptionPauseImpl,
+	setFunctionBreakpoint as setFunctionBreakpointImpl,
 	setLogpoint as setLogpointImpl,
 	toggleBreakpoint as toggleBreakpointImpl,
 } from "./session-breakpoints.ts";
+import {
+	captureAndResume,
+	getBreakpointHits as getBreakpointHitsImpl,
+	isCapturePause,
+} from "./session-capture.ts";
+import {
+	startCoverage as startCoverageImpl,
+	stopCoverage as stopCoverageImpl,
+	takeCoverage as takeCoverageImpl,
+} from "./session-coverage.ts";
+import { dumpObject as dumpObjectImpl } from "./session-dump.ts";
 import {
 	continueExecution,
 	pauseExecution,
@@ -42,6 +71,11 @@ import {
 	runToLocation,
 	stepExecution,
 } from "./session-execution.ts";
+import {
+	diffHeapSnapshots as diffHeapSnapshotsImpl,
+	getHeapSummary as getHeapSummaryImpl,
+	takeHeapSnapshot as takeHeapSnapshotImpl,
+} from "./session-heap.ts";
 import {
 	evalExpression,
 	getProps as getPropsImpl,
@@ -56,7 +90,12 @@ import {
 	setReturnValue as setReturnValueImpl,
 	setVariable as setVariableImpl,
 } from "./session-mutation.ts";
+import {
+	startCpuProfile as startCpuProfileImpl,
+	stopCpuProfile as stopCpuProfileImpl,
+} from "./session-profiler.ts";
 import { buildState as buildStateImpl } from "./session-state.ts";
+import { setWatchpoint as setWatchpointImpl } from "./session-watchpoints.ts";
 
 export interface ScriptInfo {
 	scriptId: string;
@@ -65,6 +104,7 @@ export interface ScriptInfo {
 }
 
 // Node.js: "Debugger listening on ws://..."
+// Deno:    "Debugger listening on ws://127.0.0.1:PORT/ws/ID"
 // Bun:     "  ws://localhost:PORT/ID" (on its own indented line)
 import {
 	INSPECTOR_TIMEOUT_MS,
@@ -80,12 +120,25 @@ const ANSI_RE = new RegExp(`${ESC}\\[[0-9;]*m`, "g");
 export class CdpSession extends BaseSession {
 	cdp: CdpClient | null = null;
 	sourceMapResolver: SourceMapResolver = new SourceMapResolver();
-	childProcess: Subprocess<"ignore", "ignore", "pipe"> | null = null;
+	childProcess: Subprocess<"pipe", "pipe", "pipe"> | null = null;
 	pausedCallFrames: Protocol.Debugger.CallFrame[] = [];
 	scripts: Map<string, ScriptInfo> = new Map();
 	wsUrl: string | null = null;
 	onProcessExit: Set<() => void> = new Set();
 	blackboxPatterns: string[] = [];
+	cpuProfileActive = false;
+	coverageActive = false;
+	/** Accumulated coverage: scriptId → 0-based line → count */
+	coverageCounts: Map<string, Map<number, LineCoverage>> = new Map();
+	coverageSources: Map<string, string> = new Map();
+	/** Hit history of capture breakpoints, by BP ref */
+	capturedHits: Map<string, { total: number; hits: CapturedHit[] }> = new Map();
+	/** A capture breakpoint hit is being recorded */
+	capturing = false;
+	/** Resumes sent after captures, whose Debugger.resumed events are swallowed */
+	pendingCaptureResumes = 0;
+	/** A step is in flight, so a pause on a capture breakpoint ends it */
+	stepping = false;
 	disabledBreakpoints: Map<string, { breakpointId: string; meta: Record<string, unknown> }> =
 		new Map();
 	private _stateWaiters: Array<{
@@ -99,7 +152,7 @@ export class CdpSession extends BaseSession {
 	daemonLogger: DaemonLogger;
 
 	readonly capabilities: SessionCapabilities = {
-		functionBreakpoints: false,
+		functionBreakpoints: true,
 		logpoints: true,
 		hotpatch: true,
 		blackboxing: true,
@@ -113,6 +166,14 @@ export class CdpSession extends BaseSession {
 		symbolLoading: false,
 		breakpointToggle: true,
 		restart: true,
+		heapSnapshots: true,
+		cpuProfiling: true,
+		coverage: true,
+		breakpointCapture: true,
+		watchpoints: true,
+		threads: false,
+		disassembly: false,
+		memory: false,
 	};
 
 	constructor(session: string, options?: { daemonLogger?: DaemonLogger }) {
@@ -125,7 +186,7 @@ export class CdpSession extends BaseSession {
 	}
 
 	/** Detected runtime name — delegates to the adapter */
-	get runtime(): "node" | "bun" | "unknown" {
+	get runtime(): CdpDialect["name"] {
 		return this.adapter.name;
 	}
 
@@ -154,17 +215,21 @@ export class CdpSession extends BaseSession {
 		// but --inspect-brk works better for our pause strategy)
 		const inspectFlag = brk ? `--inspect-brk=${port}` : `--inspect=${port}`;
 
-		// Build the args: inject inspect flag after the runtime (first element)
+		// Build the args: inject inspect flag after the runtime (first element),
+		// unless the runtime expects it elsewhere (Deno: after the subcommand)
 		const runtimeBin = command[0] as string;
 		const rest = command.slice(1);
-		const spawnArgs = [runtimeBin, inspectFlag, ...rest];
+		const spawnArgs = this.adapter.buildSpawnArgs
+			? this.adapter.buildSpawnArgs(command, { brk, port })
+			: [runtimeBin, inspectFlag, ...rest];
 
 		const proc = Bun.spawn(spawnArgs, {
-			stdin: "ignore",
-			stdout: "ignore",
+			stdin: "pipe",
+			stdout: "pipe",
 			stderr: "pipe",
 		});
 		this.childProcess = proc;
+		this.debuggeeStdin = proc.stdin;
 
 		this.daemonLogger.info("child.spawn", `Spawned process pid=${proc.pid}`, {
 			pid: proc.pid,
@@ -174,6 +239,9 @@ export class CdpSession extends BaseSession {
 		// Monitor child process exit in the background
 		this.monitorProcessExit(proc);
 
+		// Capture stdout into the output buffer (stderr is captured by readInspectorUrl)
+		this.pumpOutput(proc.stdout.getReader(), "stdout");
+
 		// Read stderr to find the inspector URL
 		const wsUrl = await this.readInspectorUrl(proc.stderr);
 		this.wsUrl = wsUrl;
@@ -311,6 +379,14 @@ export class CdpSession extends BaseSession {
 
 		this.resetState();
 		this._notifyStateWaiters();
+		this.cpuProfileActive = false;
+		this.coverageActive = false;
+		this.coverageCounts.clear();
+		this.coverageSources.clear();
+		this.capturedHits.clear();
+		this.capturing = false;
+		this.pendingCaptureResumes = 0;
+		this.stepping = false;
 		this.wsUrl = null;
 		this.scripts.clear();
 		this.disabledBreakpoints.clear();
@@ -385,11 +461,37 @@ export class CdpSession extends BaseSession {
 	async setBreakpoint(
 		file: string,
 		line: number,
-		options?: { condition?: string; hitCount?: number; urlRegex?: string },
+		options?: {
+			condition?: string;
+			hitCount?: number;
+			urlRegex?: string;
+			capture?: boolean;
+			captureFrames?: number;
+			once?: boolean;
+			after?: string;
+		},
 	): Promise<{ ref: string; location: { url: string; line: number; column?: number } }> {
 		return setBreakpointImpl(this, file, line, options);
 	}
 
+	setFunctionBreakpoint(
+		expression: string,
+		options?: { condition?: string; hitCount?: number },
+	): Promise<FunctionBreakpointResult> {
+		return setFunctionBreakpointImpl(this, expression, options);
+	}
+
+	setWatchpoint(
+		target: string,
+		options?: { access?: WatchpointAccess },
+	): Promise<WatchpointResult> {
+		return setWatchpointImpl(this, target, options);
+	}
+
+	getBreakpointHits(ref: string, options: { last?: number } = {}): BreakpointHitsResult {
+		return getBreakpointHitsImpl(this, ref, options);
+	}
+
 	async removeBreakpoint(ref: string): Promise<void> {
 		return removeBreakpointImpl(this, ref);
 	}
@@ -398,20 +500,8 @@ export class CdpSession extends BaseSession {
 		return removeAllBreakpointsImpl(this);
 	}
 
-	listBreakpoints(): Array<{
-		ref: string;
-		type: "BP" | "LP";
-		url: string;
-		line: number;
-		column?: number;
-		condition?: string;
-		hitCount?: number;
-		template?: string;
-		disabled?: boolean;
-		originalUrl?: string;
-		originalLine?: number;
-	}> {
-		return listBreakpointsImpl(this);
+	listBreakpoints(): BreakpointListItem[] {
+		return this.withHitStats(listBreakpointsImpl(this));
 	}
 
 	async toggleBreakpoint(ref: string): Promise<{ ref: string; state: "enabled" | "disabled" }> {
@@ -436,7 +526,8 @@ export class CdpSession extends BaseSession {
 	}
 
 	async setExceptionPause(mode: "all" | "uncaught" | "caught" | "none"): Promise<void> {
-		return setExceptionPauseImpl(this, mode);
+		await setExceptionPauseImpl(this, mode);
+		this.exceptionPauseMode = mode;
 	}
 
 	// Inspection
@@ -483,12 +574,19 @@ export class CdpSession extends BaseSession {
 		return getPropsImpl(this, ref, options);
 	}
 
+	dumpObject(ref: string, options?: { depth?: number; maxBytes?: number }): Promise<DumpResult> {
+		return dumpObjectImpl(this, ref, options);
+	}
+
 	async getSource(
-		options: { file?: string; lines?: number; all?: boolean; generated?: boolean } = {},
-	): Promise<{
-		url: string;
-		lines: Array<{ line: number; text: string; current?: boolean }>;
-	}> {
+		options: {
+			file?: string;
+			lines?: number;
+			all?: boolean;
+			generated?: boolean;
+			coverage?: boolean;
+		} = {},
+	): Promise<SourceResult> {
 		return getSourceImpl(this, options);
 	}
 
@@ -573,6 +671,45 @@ export class CdpSession extends BaseSession {
 		return removeBlackboxImpl(this, patterns);
 	}
 
+	// Heap snapshots
+	async takeHeapSnapshot(): Promise<HeapSnapshotResult> {
+		return takeHeapSnapshotImpl(this);
+	}
+
+	async getHeapSummary(ref: string, options: { top?: number } = {}): Promise<HeapSummaryResult> {
+		return getHeapSummaryImpl(this, ref, options);
+	}
+
+	async diffHeapSnapshots(
+		base: string,
+		compare: string,
+		options: { top?: number } = {},
+	): Promise<HeapDiffResult> {
+		return diffHeapSnapshotsImpl(this, base, compare, options);
+	}
+
+	// CPU profiling
+	async startCpuProfile(options: { interval?: number } = {}): Promise<{ interval?: number }> {
+		return startCpuProfileImpl(this, options);
+	}
+
+	async stopCpuProfile(options: { top?: number; out?: string } = {}): Promise<CpuProfileResult> {
+		return stopCpuProfileImpl(this, options);
+	}
+
+	// Coverage
+	async startCoverage(): Promise<{ active: boolean }> {
+		return startCoverageImpl(this);
+	}
+
+	async takeCoverage(options: { filter?: string; all?: boolean } = {}): Promise<CoverageResult> {
+		return takeCoverageImpl(this, options);
+	}
+
+	async stopCoverage(options: { filter?: string; all?: boolean } = {}): Promise<CoverageResult> {
+		return stopCoverageImpl(this, options);
+	}
+
 	// ── Public helpers (used by extracted modules) ─────────────────────
 
 	processEvalResult(
@@ -668,7 +805,7 @@ export class CdpSession extends BaseSession {
 
 			// Use waitFor for the event subscription + timeout
 			this.cdp
-				?.waitFor("Debugger.paused", { timeoutMs })
+				?.waitFor("Debugger.paused", { timeoutMs, filter: (p) => !isCapturePause(this, p) })
 				.then(() => settle())
 				.catch(() => settle()); // timeout — don't reject, just settle
 
@@ -676,7 +813,7 @@ export class CdpSession extends BaseSession {
 			// (e.g., process exits and monitorProcessExit runs before
 			// onProcessExit is set, or CDP disconnects clearing listeners)
 			const pollTimer = setInterval(() => {
-				if (this.isPaused() || this.state === "idle" || !this.cdp) {
+				if ((this.isPaused() && !this.capturing) || this.state === "idle" || !this.cdp) {
 					settle();
 				}
 			}, 100);
@@ -740,10 +877,8 @@ export class CdpSession extends BaseSession {
 
 		await cdp.enableDomains();
 
-		// Re-apply blackbox patterns if any exist
-		if (this.blackboxPatterns.length > 0) {
-			await this.adapter.setBlackboxPatterns(cdp, this.blackboxPatterns);
-		}
+		// Re-apply blackbox patterns; adapters may add their own (Deno's ext: modules)
+		await this.adapter.setBlackboxPatterns(cdp, this.blackboxPatterns);
 
 		// Update state to running if not already paused
 		if (this.state === "idle") {
@@ -754,6 +889,26 @@ export class CdpSession extends BaseSession {
 
 	private setupCdpEventHandlers(cdp: CdpClient): void {
 		cdp.on("Debugger.paused", (p) => {
+			const hitRefs: string[] = [];
+			// JSC reports the breakpoint in data instead of hitBreakpoints
+			const jscBreakpointId = (p.data as { breakpointId?: string } | undefined)?.breakpointId;
+			const hitIds = p.hitBreakpoints ?? (jscBreakpointId ? [jscBreakpointId] : []);
+			for (const id of hitIds) {
+				const entry = this.refs.list("BP").find((e) => e.remoteId === id);
+				if (entry) hitRefs.push(entry.ref);
+			}
+			for (const ref of hitRefs) this.recordBreakpointHit(ref);
+			// Capture breakpoints record a snapshot and resume without surfacing the pause
+			const captured = captureAndResume(this, p);
+			if (hitRefs.length > 0) {
+				applyBreakpointHitsImpl(this, hitRefs).catch((err) => {
+					this.daemonLogger.error(
+						"breakpoint.hit",
+						`Failed to update breakpoints after hit: ${err instanceof Error ? err.message : String(err)}`,
+					);
+				});
+			}
+			if (captured) return;
 			this.state = "paused";
 			this._notifyStateWaiters();
 			const callFrames = p.callFrames;
@@ -763,22 +918,34 @@ export class CdpSession extends BaseSession {
 			const scriptId = location?.scriptId;
 			const url = scriptId ? this.scripts.get(scriptId)?.url : undefined;
 
+			const watchpointHit = hitRefs.some((ref) => this.refs.resolve(ref)?.meta?.watchpoint);
 			this.pauseInfo = {
-				reason: p.reason ?? "unknown",
+				reason: watchpointHit ? "watchpoint" : (p.reason ?? "unknown"),
 				scriptId,
 				url,
 				line: location?.lineNumber,
 				column: location?.columnNumber,
 				callFrameCount: callFrames?.length,
 			};
+			this.emitEvent({
+				type: "pause",
+				reason: this.pauseInfo.reason,
+				url,
+				line: location ? location.lineNumber + 1 : undefined,
+			});
 		});
 
 		cdp.on("Debugger.resumed", () => {
+			if (this.pendingCaptureResumes > 0) {
+				this.pendingCaptureResumes--;
+				return;
+			}
 			this.state = "running";
 			this._notifyStateWaiters();
 			this.pauseInfo = null;
 			this.pausedCallFrames = [];
 			this.refs.clearVolatile();
+			this.emitEvent({ type: "resume" });
 		});
 
 		cdp.on("Debugger.scriptParsed", (p) => {
@@ -800,18 +967,33 @@ export class CdpSession extends BaseSession {
 					});
 				}
 				this.scripts.set(scriptId, info);
+				if (info.url) this.emitEvent({ type: "scriptParsed", url: info.url, scriptId });
 			}
 		});
 
+		cdp.on("Debugger.breakpointResolved", (p) => {
+			const entry = [...this.refs.list("BP"), ...this.refs.list("LP")].find(
+				(e) => e.remoteId === p.breakpointId,
+			);
+			this.emitEvent({
+				type: "breakpointResolved",
+				url: this.scripts.get(p.location.scriptId)?.url ?? "",
+				line: p.location.lineNumber + 1,
+				ref: entry?.ref,
+			});
+		});
+
 		cdp.on("Runtime.executionContextDestroyed", () => {
 			// The main execution context was destroyed — the script's top-level
 			// code has finished. The process may still be alive (servers keep the
 			// event loop running, and --inspect keeps it alive too).
 			// Mark as "idle" so waiters resolve, but the CDP connection stays
 			// open — pause/breakpoints still work if the process is alive.
+			const wasIdle = this.state === "idle";
 			this.state = "idle";
 			this.pauseInfo = null;
 			this._notifyStateWaiters();
+			if (!wasIdle) this.emitEvent({ type: "exit" });
 		});
 
 		cdp.on("Runtime.consoleAPICalled", (p) => {
@@ -824,6 +1006,19 @@ export class CdpSession extends BaseSession {
 			const stackTrace = p.stackTrace;
 			const eventCallFrames = stackTrace?.callFrames;
 			const topFrame = eventCallFrames?.[0];
+			// Logpoints log from their condition, an anonymous script evaluated at the location
+			const callerFrame = eventCallFrames?.[1];
+			if (topFrame?.url === "" && callerFrame?.url) {
+				const entry = this.refs.list("LP").find((e) => {
+					const lpUrl = e.meta?.url as string | undefined;
+					return (
+						!!lpUrl &&
+						callerFrame.url.endsWith(lpUrl) &&
+						e.meta?.line === callerFrame.lineNumber + 1
+					);
+				});
+				if (entry) this.recordBreakpointHit(entry.ref);
+			}
 			const msg: ConsoleMessage = {
 				timestamp: Date.now(),
 				level: type,
@@ -864,7 +1059,7 @@ export class CdpSession extends BaseSession {
 		});
 	}
 
-	private monitorProcessExit(proc: Subprocess<"ignore", "ignore", "pipe">): void {
+	private monitorProcessExit(proc: Subprocess<"pipe", "pipe", "pipe">): void {
 		proc.exited
 			.then((exitCode) => {
 				this.daemonLogger.info("child.exit", `Process exited with code ${exitCode ?? "unknown"}`, {
@@ -873,13 +1068,16 @@ export class CdpSession extends BaseSession {
 				});
 				// Child process has exited
 				this.childProcess = null;
+				this.debuggeeStdin = null;
 				if (this.cdp) {
 					this.cdp.disconnect();
 					this.cdp = null;
 				}
+				const wasIdle = this.state === "idle";
 				this.state = "idle";
 				this.pauseInfo = null;
 				this._notifyStateWaiters();
+				if (!wasIdle) this.emitEvent({ type: "exit" });
 				for (const cb of this.onProcessExit) cb();
 				this.onProcessExit.clear();
 			})
@@ -889,9 +1087,11 @@ export class CdpSession extends BaseSession {
 				});
 				// Error waiting for exit, treat as exited
 				this.childProcess = null;
+				const wasIdle = this.state === "idle";
 				this.state = "idle";
 				this.pauseInfo = null;
 				this._notifyStateWaiters();
+				if (!wasIdle) this.emitEvent({ type: "exit" });
 			});
 	}
 
@@ -914,14 +1114,15 @@ export class CdpSession extends BaseSession {
 				}
 				const chunk = decoder.decode(value, { stream: true });
 				accumulated += chunk;
+				this.pushOutput("stderr", chunk);
 				this.daemonLogger.debug("child.stderr", chunk.trimEnd());
 
 				const match = INSPECTOR_URL_REGEX.exec(accumulated);
 				if (match?.[1]) {
 					clearTimeout(timeout);
-					// Continue draining stderr in the background so proc.exited
-					// can resolve (Bun requires all piped streams to be consumed).
-					this.drainReader(reader);
+					// Keep capturing stderr in the background; this also lets
+					// proc.exited resolve (Bun requires all piped streams to be consumed).
+					this.pumpOutput(reader, "stderr", decoder);
 					return match[1].replace(ANSI_RE, "");
 				}
 			}
@@ -970,18 +1171,4 @@ export class CdpSession extends BaseSession {
 
 		return wsUrl;
 	}
-
-	private drainReader(reader: { read(): Promise<{ done: boolean; value?: Uint8Array }> }): void {
-		const pump = (): void => {
-			reader
-				.read()
-				.then(({ done }) => {
-					if (!done) pump();
-				})
-				.catch(() => {
-					// Stream closed or errored — expected during process exit
-				});
-		};
-		pump();
-	}
 }
@@ -33,7 +33,16 @@ const BOOLEAN_FLAGS = new Set([
 	"cleanup",
 	"disable",
 	"generated",
+	"diff",
+	"read",
+	"write",
 	"version",
+	"eof",
+	"no-newline",
+	"coverage",
+	"capture",
+	"once",
+	"all-threads",
 ]);
 
 export function parseArgs(argv: string[]): ParsedArgs {
@@ -220,42 +229,89 @@ Session:
   status                           Session info
 
 Execution (returns state automatically):
-  continue                         Resume execution
-  step [over|into|out]             Step one statement
+  continue [--diff]                Resume execution
+  step [over|into|out] [--diff]    Step one statement
+    [--granularity instruction]    Step one machine instruction (DAP only)
+  step instruction                 Step into one machine instruction (DAP only)
   run-to <file>:<line>             Continue to location
   pause                            Interrupt running process
+  wait [--for <event>]             Block until pause (default), exit, exception or console:<regex>
+    [--timeout MS]
   restart-frame [@fN]              Re-execute frame from beginning
 
 Inspection:
   state [-v|-s|-b|-c]              Debug state snapshot
     [--depth N] [--lines N] [--frame @fN] [--all-scopes] [--compact] [--generated]
+    [--diff]                       Only locals/watches changed since the last pause
   vars [name...]                   Show local variables
     [--frame @fN] [--all-scopes] [--all]
   stack [--async-depth N]          Show call stack
-    [--generated] [--filter <keyword>]
+    [--generated] [--filter <keyword>] [--all-threads]
   eval <expression>                Evaluate expression
     [--frame @fN] [--silent] [--timeout MS] [--side-effect-free]
   props <@ref>                     Expand object properties
     [--own] [--depth N] [--private] [--internal]
+  dump <@ref> [--out file.json]    Serialize an object to JSON
+    [--depth N] [--max-bytes N]
+  watch <expression>               Re-evaluate on every pause (shown in state)
+  watch-ls                         List watches with current values
+  watch-rm <W#|all>                Remove watches
   source [--lines N]               Show source code
-    [--file <path>] [--all] [--generated]
+    [--file <path>] [--all] [--generated] [--coverage]
   search <query>                   Search loaded scripts
     [--regex] [--case-sensitive] [--file <id>]
   scripts [--filter <pattern>]     List loaded scripts
   modules [--filter <pattern>]     List loaded modules/libraries (DAP only)
+  threads                          List threads/goroutines (DAP only)
+  thread <id>                      Switch thread for stack/vars/eval/step (DAP only)
   console [--since N] [--level]    Console output
     [--clear]
   exceptions [--since N]           Captured exceptions
+  output [--since N]               Debuggee stdout/stderr
+    [--stream stdout|stderr] [-f|--follow] [--clear]
+  events [--filter <types>]        Stream session events as they happen
+  input <text>                     Write a line to debuggee stdin
+    [--file <path>] [--eof] [--no-newline]
+
+Memory:
+  heap snapshot                    Capture heap snapshot (returns HS#n)
+  heap summary <HS#>               Top constructors by retained size
+    [--top N]
+  heap diff <HS#> <HS#>            Objects that grew between snapshots
+    [--top N]
+  memory read <address|@ref>       Read debuggee memory (DAP only)
+    [--count N] [--format hex|ascii|u32]
+  memory write <address> <hex>     Write bytes to debuggee memory (DAP only)
+  registers [--frame @fN] [--all]  CPU registers of a frame (DAP only)
+
+Profiling:
+  profile start                    Start CPU profiling
+    [--interval US]
+  profile stop                     Stop and show hottest functions
+    [--top N] [--out file.cpuprofile]
+  coverage start                   Start collecting line coverage
+  coverage take|stop               Per-file coverage (stop ends collection)
+    [--filter <pattern>] [--all] [--uncovered]
 
 Breakpoints:
   break <file>:<line>              Set breakpoint
     [--condition <expr>] [--hit-count <n>] [--continue] [--pattern <regex>:<line>]
+    [--capture [--capture-frames <n>]] [--once] [--after <BP#>]
   break-rm <BP#|all>               Remove breakpoint
-  break-ls                         List breakpoints
-  break-toggle <BP#|all>           Enable/disable breakpoints
+  break-ls                         List breakpoints with hit counts
+  break-reset-counts [BP#|all]     Reset breakpoint hit counts
+  break-toggle <BP#|all|--all>     Enable/disable breakpoints
+  break-save [file]                Save breakpoints, logpoints, catch and blackbox
+  break-load [file]                Apply a saved file (default .dbg/breakpoints.json,
+                                   also applied on launch when present)
+  hits <BP#> [--last <n>]          Snapshots recorded by a capture breakpoint
+  break-fn <name|expr>             Break on function calls (symbol, or JS expression)
+  watchpoint <target> [--read|--write]
+                                   Break when a property is accessed (@v3.status)
+    [--condition <expr>]
   breakable <file>:<start>-<end>   List valid breakpoint locations
   logpoint <file>:<line> <tpl>     Set logpoint
-    [--condition <expr>]
+    [--condition <expr>] [--max-emissions N]
   catch [all|uncaught|caught|none] Pause on exceptions
 
 Mutation:
@@ -277,10 +333,13 @@ Debug Info (DAP only):
   path-map list                    Show current path remappings
   path-map clear                   Remove all path remappings
   symbols add <path>               Load debug symbols (dSYM)
+  disasm [--frame @fN]             Disassemble around the current instruction
+    [--count N] [--address 0x...]
 
 Setup:
-  install <adapter>                Download managed adapter binary
+  install <adapter>                Install managed adapter (lldb, dlv)
   install --list                   Show installed adapters
+  mcp                              Run as an MCP server over stdio
 
 Diagnostics:
   logs [-f|--follow]               Show CDP protocol log
@@ -310,36 +369,77 @@ REFS: Every output assigns @refs. Use them everywhere:
   @v1..@vN  variables    |  dbg props @v1, dbg set @v2 true
   @f0..@fN  stack frames |  dbg eval --frame @f1
   BP#1..N   breakpoints  |  dbg break-rm BP#1, dbg break-toggle BP#1
+  HS#1..N   heap snapshots | dbg heap summary HS#1, dbg heap diff HS#1 HS#2
 
 EXECUTION (all return state automatically):
   dbg continue              Resume to next breakpoint
   dbg step [over|into|out]  Step one statement
+  dbg step instruction      Step one machine instruction (DAP only; also step over --granularity instruction)
+  dbg step --diff           Only locals/watches changed since the last pause (also continue, state)
+                            ~ count: 3 → 4  |  + added: 1  |  - removed: "x"
   dbg run-to file:line      Continue to location
   dbg pause                 Interrupt running process
+  dbg wait [--for EVENT]    Block until pause (default), exit, exception or console:<regex>
   dbg restart-frame [@fN]   Re-run frame from beginning
 
 BREAKPOINTS:
   dbg break file:line [--condition expr] [--hit-count N] [--continue]
   dbg break --pattern "regex":line
+  dbg break-fn "UserService.prototype.save"  Break when a function is called
+  dbg watchpoint @v3.status [--read|--write]  Break when a property is written (default) or read
+  dbg break file:line --once          Remove after the first hit
+  dbg break file:line --after BP#1    Inactive until BP#1 is hit
   dbg break-rm <BP#|all>    Remove breakpoints
-  dbg break-ls              List breakpoints
-  dbg break-toggle <BP#|all>  Enable/disable breakpoints
+  dbg break-ls              List breakpoints (hits, last hit time)
+  dbg break-reset-counts [BP#|all]  Reset hit counts
+  dbg break-toggle <BP#|--all>  Enable/disable breakpoints (--all mutes/unmutes every one)
+  dbg break-save [file]     Save breakpoints to .dbg/breakpoints.json (auto-loaded on launch)
+  dbg break-load [file]     Re-apply a saved breakpoint file
+  dbg break file:line --capture [--capture-frames N]  Record locals + stack per hit, keep running
+  dbg hits BP#1 [--last N]  Show recorded hits of a capture breakpoint
   dbg breakable file:start-end  Valid breakpoint locations
-  dbg logpoint file:line "template \${var}" [--condition expr]
+  dbg logpoint file:line "template \${var}" [--condition expr] [--max-emissions N]
   dbg catch [all|uncaught|caught|none]
 
 INSPECTION:
   dbg state [-v|-s|-b|-c] [--depth N] [--lines N] [--frame @fN] [--all-scopes] [--compact] [--generated]
   dbg vars [name...] [--frame @fN] [--all-scopes] [--all]
-  dbg stack [--async-depth N] [--generated] [--filter <keyword>]
+  dbg stack [--async-depth N] [--generated] [--filter <keyword>] [--all-threads]
   dbg eval <expr> [--frame @fN] [--silent] [--timeout MS] [--side-effect-free]
   dbg props @ref [--own] [--depth N] [--private] [--internal]
+  dbg dump @ref [--out f.json] [--depth N] [--max-bytes N]  Full JSON (cycles → $ref, Map/Set/Date → $type)
+  dbg watch <expr>          Add a watch (W#n), shown under "Watches:" on every pause
+  dbg watch-ls | dbg watch-rm <W#|all>
   dbg modules [--filter <pattern>]        (DAP only: list loaded libraries with symbol status)
-  dbg source [--lines N] [--file path] [--all] [--generated]
+  dbg threads               (DAP only: * marks the current thread; goroutines for Go)
+  dbg thread <id>           (DAP only: stack, vars, eval and step then act on that thread)
+  dbg source [--lines N] [--file path] [--all] [--generated] [--coverage]
   dbg search "query" [--regex] [--case-sensitive] [--file id]
   dbg scripts [--filter pattern]
   dbg console [--since N] [--level type] [--clear]
   dbg exceptions [--since N]
+  dbg output [--since N] [--stream stdout|stderr] [-f|--follow] [--clear]
+  dbg events [--filter pause,console,...]  Stream events (pause, resume, scriptParsed,
+                                          breakpointResolved, console, exception, exit)
+  dbg input "text" [--no-newline] | dbg input --file <path> | dbg input --eof
+
+MEMORY:
+  dbg heap snapshot                       → HS#1 (saved to disk)
+  dbg heap summary HS#1 [--top N]         Top constructors by retained size
+  dbg heap diff HS#1 HS#2 [--top N]       Constructors that grew between snapshots
+  dbg memory read 0x7ffee4c8 [--count N] [--format hex|ascii|u32]  (DAP only; or @v1 for a variable's memory)
+  dbg memory write 0x7ffee4c8 2a000000    (DAP only: hex bytes, written as-is)
+  dbg registers [--frame @fN] [--all]     (DAP only: general purpose registers; --all adds every group)
+
+PROFILING:
+  dbg profile start [--interval US]       Start sampling (default interval: 1000us)
+  dbg profile stop [--top N] [--out file.cpuprofile]
+                                          Hottest functions by self time (source-mapped)
+  dbg coverage start                      Start at --brk to cover top-level code
+  dbg coverage take [--filter p] [--all] [--uncovered]
+                                          Per-file lines run / uncovered ranges (source-mapped)
+  dbg coverage stop                       Final report, then stop collecting
+  dbg source --coverage                   Annotate source with hit counts (0x = never ran)
 
 MUTATION:
   dbg set <@ref|name> <value>   Change variable
@@ -360,6 +460,11 @@ DEBUG INFO (DAP only):
   dbg path-map list             Show current remappings
   dbg path-map clear            Remove all remappings
   dbg symbols add <path>        Load debug symbols (dSYM)
+  dbg disasm [--frame @fN] [--count N] [--address 0x...]  Disassembly, → marks the current instruction
+
+MCP:
+  dbg mcp                       MCP server over stdio: every command as a typed tool
+                                (optional "session" argument per call)
 
 DIAGNOSTICS:
   dbg logs [-f|--follow]        Show CDP protocol log
@@ -1,18 +1,21 @@
 import { registerCommand } from "../cli/registry.ts";
 import { DaemonClient } from "../daemon/client.ts";
+import { shortPath } from "../formatter/path.ts";
+import type { FunctionBreakpointResult } from "../session/session.ts";
 
 registerCommand("break-fn", async (args) => {
 	const session = args.global.session;
 
 	if (!DaemonClient.isRunning(session)) {
 		console.error(`No active session "${session}"`);
-		console.error("  -> Try: dbg launch --brk --runtime lldb ./program");
+		console.error("  -> Try: dbg launch --brk node app.js");
 		return 1;
 	}
 
 	const name = args.subcommand;
 	if (!name) {
-		console.error("Usage: dbg break-fn <function-name>");
+		console.error("Usage: dbg break-fn <function-name|expression>");
+		console.error("  Example: dbg break-fn 'UserService.prototype.save'");
 		console.error("  Example: dbg break-fn __assert_rtn");
 		console.error("  Example: dbg break-fn 'yoga::Style::operator=='");
 		return 1;
@@ -29,10 +32,12 @@ registerCommand("break-fn", async (args) => {
 		return 1;
 	}
 
-	const data = response.data as { ref: string };
+	const data = response.data as FunctionBreakpointResult;
 
 	if (args.global.json) {
 		console.log(JSON.stringify(data, null, 2));
+	} else if (data.location) {
+		console.log(`${data.ref}  fn:${name} at ${shortPath(data.location.url)}:${data.location.line}`);
 	} else {
 		console.log(`${data.ref}  fn:${name}`);
 	}
@@ -0,0 +1,36 @@
+import { resolve } from "node:path";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatBreakpointFile } from "../formatter/breakpoint-file.ts";
+import type { BreakpointFileResult } from "../session/session.ts";
+
+registerCommand("break-load", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	// Without a file the daemon uses .dbg/breakpoints.json in the directory the session was launched from
+	const file = args.subcommand ?? args.positionals[0];
+	const client = new DaemonClient(session);
+	const response = await client.request("break-load", file ? { path: resolve(file) } : {});
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as BreakpointFileResult;
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else {
+		console.log(formatBreakpointFile(data, "Loaded"));
+	}
+
+	return 0;
+});
@@ -2,6 +2,7 @@ import { registerCommand } from "../cli/registry.ts";
 import { DaemonClient } from "../daemon/client.ts";
 import { colorize, shouldEnableColor } from "../formatter/color.ts";
 import { shortPath } from "../formatter/path.ts";
+import { formatTimestamp } from "../formatter/timestamp.ts";
 
 registerCommand("break-ls", async (args) => {
 	const session = args.global.session;
@@ -30,6 +31,14 @@ registerCommand("break-ls", async (args) => {
 		condition?: string;
 		hitCount?: number;
 		template?: string;
+		capture?: boolean;
+		once?: boolean;
+		after?: string;
+		functionName?: string;
+		watchpoint?: string;
+		access?: string;
+		hits?: number;
+		lastHit?: number;
 	}>;
 
 	if (args.global.json) {
@@ -42,6 +51,14 @@ registerCommand("break-ls", async (args) => {
 			for (const bp of data) {
 				const loc = `${shortPath(bp.url)}:${bp.line}`;
 				let line = `${cc(bp.ref, "magenta")} ${cc(loc, "cyan")}`;
+				if (bp.functionName) {
+					// DAP function breakpoints have no location until hit
+					line = `${cc(bp.ref, "magenta")} fn:${bp.functionName}`;
+					if (bp.line > 0) line += ` ${cc(loc, "cyan")}`;
+				}
+				if (bp.watchpoint) {
+					line = `${cc(bp.ref, "magenta")} watch:${bp.watchpoint} ${cc(`(${bp.access})`, "gray")}`;
+				}
 				if (bp.type === "LP" && bp.template) {
 					line += ` ${cc(`(log: ${bp.template})`, "green")}`;
 				}
@@ -51,6 +68,20 @@ registerCommand("break-ls", async (args) => {
 				if (bp.hitCount) {
 					line += ` ${cc(`[hit-count: ${bp.hitCount}]`, "gray")}`;
 				}
+				if (bp.capture) {
+					line += ` ${cc("[capture]", "gray")}`;
+				}
+				if (bp.once) {
+					line += ` ${cc("[once]", "gray")}`;
+				}
+				if (bp.after) {
+					line += ` ${cc(`[waiting for ${bp.after}]`, "yellow")}`;
+				}
+				if (bp.hits !== undefined) {
+					const noun = bp.type === "LP" ? "emitted" : "hits";
+					const last = bp.lastHit ? `, last ${formatTimestamp(bp.lastHit)}` : "";
+					line += ` ${cc(`[${noun}: ${bp.hits}${last}]`, "gray")}`;
+				}
 				console.log(line);
 			}
 		}
@@ -0,0 +1,34 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+
+registerCommand("break-reset-counts", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	// No ref (or "all") resets every counter
+	const ref = args.subcommand && args.subcommand !== "all" ? args.subcommand : undefined;
+
+	const client = new DaemonClient(session);
+	const response = await client.request("break-reset-counts", { ref });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	if (args.global.json) {
+		console.log(JSON.stringify({ ref: response.data }, null, 2));
+	} else if (ref) {
+		console.log(`${ref} hit count reset`);
+	} else {
+		console.log("All hit counts reset");
+	}
+
+	return 0;
+});
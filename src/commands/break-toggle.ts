@@ -10,10 +10,10 @@ registerCommand("break-toggle", async (args) => {
 		return 1;
 	}
 
-	const ref = args.subcommand;
+	const ref = args.flags.all === true ? "all" : args.subcommand;
 	if (!ref) {
 		console.error("No breakpoint ref specified");
-		console.error("  -> Try: dbg break-toggle BP#1");
+		console.error("  -> Try: dbg break-toggle BP#1, or dbg break-toggle --all");
 		return 1;
 	}
 
@@ -58,6 +58,15 @@ registerCommand("break", async (args) => {
 	const condition = typeof args.flags.condition === "string" ? args.flags.condition : undefined;
 	const hitCount = parseIntFlag(args.flags, "hit-count");
 	const logTemplate = typeof args.flags.log === "string" ? args.flags.log : undefined;
+	const once = args.flags.once === true;
+	const after = typeof args.flags.after === "string" ? args.flags.after : undefined;
+	const capture = args.flags.capture === true;
+	const captureFrames = parseIntFlag(args.flags, "capture-frames");
+	if (captureFrames !== undefined && (!capture || captureFrames <= 0)) {
+		console.error("--capture-frames requires --capture and a positive number");
+		console.error("  -> Try: dbg break src/app.ts:42 --capture --capture-frames 3");
+		return 1;
+	}
 
 	const client = new DaemonClient(session);
 	const cc = colorize(shouldEnableColor(args.global.color));
@@ -102,6 +111,12 @@ registerCommand("break", async (args) => {
 	if (patternFlag) {
 		breakArgs.urlRegex = file;
 	}
+	if (capture) {
+		breakArgs.capture = true;
+		breakArgs.captureFrames = captureFrames;
+	}
+	if (once) breakArgs.once = true;
+	if (after) breakArgs.after = after;
 
 	const response = await client.request("break", breakArgs);
 
@@ -127,6 +142,15 @@ registerCommand("break", async (args) => {
 		if (hitCount) {
 			msg += ` ${cc(`(hit-count: ${hitCount})`, "gray")}`;
 		}
+		if (capture) {
+			msg += ` ${cc("(capture)", "gray")}`;
+		}
+		if (once) {
+			msg += ` ${cc("(once)", "gray")}`;
+		}
+		if (after) {
+			msg += ` ${cc(`(waiting for ${after})`, "gray")}`;
+		}
 		console.log(msg);
 	}
 
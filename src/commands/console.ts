@@ -47,7 +47,8 @@ registerCommand("console", async (args) => {
 
 	for (const msg of messages) {
 		const ts = formatTimestamp(msg.timestamp);
-		console.log(`[${ts}] [${msg.level}] ${msg.text}`);
+		const logpoint = msg.logpoint ? `${msg.logpoint} ` : "";
+		console.log(`[${ts}] [${msg.level}] ${logpoint}${msg.text}`);
 	}
 
 	return 0;
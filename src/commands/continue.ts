@@ -14,7 +14,9 @@ registerCommand("continue", async (args) => {
 	}
 
 	const client = new DaemonClient(session);
-	const response = await client.request("continue");
+	const continueArgs: Record<string, unknown> = {};
+	if (args.flags.diff === true) continueArgs.diff = true;
+	const response = await client.request("continue", continueArgs);
 
 	if (!response.ok) {
 		console.error(`${response.error}`);
@@ -0,0 +1,60 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatCoverage } from "../formatter/coverage.ts";
+import type { CoverageResult } from "../session/session.ts";
+
+registerCommand("coverage", async (args) => {
+	const session = args.global.session;
+	const action = args.subcommand;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+
+	if (action === "start") {
+		const response = await client.request("coverage-start");
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		if (args.global.json) {
+			console.log(JSON.stringify(response.data, null, 2));
+			return 0;
+		}
+		console.log("Coverage collection started");
+		return 0;
+	}
+
+	if (action === "take" || action === "stop") {
+		const reportArgs: Record<string, unknown> = {};
+		if (typeof args.flags.filter === "string") reportArgs.filter = args.flags.filter;
+		if (args.flags.all === true) reportArgs.all = true;
+
+		const response = await client.request(`coverage-${action}`, reportArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as CoverageResult;
+		if (args.flags.uncovered === true) {
+			data.files = data.files.filter((f) => f.uncovered.length > 0);
+		}
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		console.log(formatCoverage(data.files));
+		if (!data.active) console.log("Coverage collection stopped");
+		return 0;
+	}
+
+	console.error(action ? `Unknown coverage action: "${action}"` : "No coverage action specified");
+	console.error("  -> Try: dbg coverage start | dbg coverage take | dbg coverage stop");
+	return 1;
+});
@@ -0,0 +1,42 @@
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { shouldEnableColor } from "../formatter/color.ts";
+import { formatDisassembly, type Instruction } from "../formatter/disasm.ts";
+
+registerCommand("disasm", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const disasmArgs: Record<string, unknown> = {};
+	if (typeof args.flags.frame === "string") disasmArgs.frame = args.flags.frame;
+	if (typeof args.flags.address === "string") disasmArgs.address = args.flags.address;
+	const count = parseIntFlag(args.flags, "count");
+	if (count !== undefined) disasmArgs.count = count;
+
+	const client = new DaemonClient(session);
+	const response = await client.request("disasm", disasmArgs);
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as Instruction[];
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else if (data.length === 0) {
+		console.log("No instructions");
+	} else {
+		console.log(formatDisassembly(data, { color: shouldEnableColor(args.global.color) }));
+	}
+
+	return 0;
+});
@@ -0,0 +1,64 @@
+import { resolve } from "node:path";
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatBytes } from "../formatter/heap.ts";
+
+registerCommand("dump", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const ref = args.subcommand;
+	if (!ref) {
+		console.error("No ref specified");
+		console.error("  -> Try: dbg dump @v1 --out payload.json");
+		return 1;
+	}
+
+	const dumpArgs: Record<string, unknown> = { ref };
+	// The daemon writes the file, so resolve it against the caller's directory
+	if (typeof args.flags.out === "string") dumpArgs.path = resolve(args.flags.out);
+	const depth = parseIntFlag(args.flags, "depth");
+	if (depth !== undefined) dumpArgs.depth = depth;
+	const maxBytes = parseIntFlag(args.flags, "max-bytes");
+	if (maxBytes !== undefined) dumpArgs.maxBytes = maxBytes;
+
+	const client = new DaemonClient(session);
+	const response = await client.request("dump", dumpArgs);
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as {
+		ref: string;
+		value?: unknown;
+		path?: string;
+		bytes?: number;
+		truncated: boolean;
+	};
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+		return 0;
+	}
+
+	if (data.path) {
+		console.log(`${data.ref} written to ${data.path} (${formatBytes(data.bytes ?? 0)})`);
+	} else {
+		// Only the value goes to stdout, so it can be redirected as-is
+		console.log(JSON.stringify(data.value, null, 2));
+	}
+	if (data.truncated) {
+		console.error("Truncated: some values exceeded --depth or --max-bytes");
+	}
+
+	return 0;
+});
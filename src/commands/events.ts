@@ -0,0 +1,69 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { shortPath } from "../formatter/path.ts";
+import { formatTimestamp } from "../formatter/timestamp.ts";
+import { SESSION_EVENT_TYPES } from "../protocol/messages.ts";
+import type { SessionEvent } from "../session/types.ts";
+
+function describeEvent(event: SessionEvent): string {
+	switch (event.type) {
+		case "pause": {
+			const where = event.url ? ` ${shortPath(event.url)}:${event.line}` : "";
+			return `${event.reason}${where}`;
+		}
+		case "scriptParsed":
+			return shortPath(event.url);
+		case "breakpointResolved": {
+			const ref = event.ref ? `${event.ref} ` : "";
+			return `${ref}${shortPath(event.url)}:${event.line}`;
+		}
+		case "console":
+			return `[${event.message.level}] ${event.message.text}`;
+		case "exception":
+			return event.exception.description ?? event.exception.text;
+		default:
+			return "";
+	}
+}
+
+registerCommand("events", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch node app.js");
+		return 1;
+	}
+
+	const subscribeArgs: Record<string, unknown> = {};
+	if (typeof args.flags.filter === "string") {
+		const events = args.flags.filter.split(",").map((e) => e.trim());
+		const unknown = events.filter((e) => !(SESSION_EVENT_TYPES as readonly string[]).includes(e));
+		if (unknown.length > 0) {
+			console.error(`Unknown event type: ${unknown.join(", ")}`);
+			console.error(`  -> Event types: ${SESSION_EVENT_TYPES.join(", ")}`);
+			return 1;
+		}
+		subscribeArgs.events = events;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.subscribe(subscribeArgs, (event) => {
+		// One JSON object per line so the stream can be piped into other tools
+		if (args.global.json) {
+			console.log(JSON.stringify(event));
+			return;
+		}
+		const { timestamp, ...rest } = event as SessionEvent & { timestamp: number };
+		const detail = describeEvent(rest as SessionEvent);
+		console.log(`[${formatTimestamp(timestamp)}] ${rest.type}${detail ? ` ${detail}` : ""}`);
+	});
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	return 0;
+});
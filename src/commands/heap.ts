@@ -0,0 +1,101 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatBytes, formatHeapDiff, formatHeapSummary } from "../formatter/heap.ts";
+import type { HeapDiffResult, HeapSnapshotResult, HeapSummaryResult } from "../session/session.ts";
+
+registerCommand("heap", async (args) => {
+	const session = args.global.session;
+	const action = args.subcommand;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const top = typeof args.flags.top === "string" ? parseInt(args.flags.top, 10) : undefined;
+	if (top !== undefined && (Number.isNaN(top) || top <= 0)) {
+		console.error(`Invalid --top value: "${args.flags.top}"`);
+		console.error("  -> Try: dbg heap summary HS#1 --top 10");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+
+	if (action === "snapshot") {
+		const response = await client.request("heap-snapshot");
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as HeapSnapshotResult;
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		console.log(
+			`${data.ref} ${data.nodeCount} objects, ${formatBytes(data.totalSize)} (saved to ${data.path})`,
+		);
+		return 0;
+	}
+
+	if (action === "summary") {
+		const ref = args.positionals[0];
+		if (!ref) {
+			console.error("No snapshot specified");
+			console.error("  -> Try: dbg heap summary HS#1 [--top N]");
+			return 1;
+		}
+		const summaryArgs: Record<string, unknown> = { ref };
+		if (top !== undefined) summaryArgs.top = top;
+		const response = await client.request("heap-summary", summaryArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as HeapSummaryResult;
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		console.log(`${data.ref}: ${data.nodeCount} objects, ${formatBytes(data.totalSize)}`);
+		console.log(formatHeapSummary(data.classes));
+		return 0;
+	}
+
+	if (action === "diff") {
+		const base = args.positionals[0];
+		const compare = args.positionals[1];
+		if (!base || !compare) {
+			console.error("Two snapshots are required");
+			console.error("  -> Try: dbg heap diff HS#1 HS#2 [--top N]");
+			return 1;
+		}
+		const diffArgs: Record<string, unknown> = { base, compare };
+		if (top !== undefined) diffArgs.top = top;
+		const response = await client.request("heap-diff", diffArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as HeapDiffResult;
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		const sign = data.sizeDelta > 0 ? "+" : "";
+		const nodeSign = data.nodeDelta > 0 ? "+" : "";
+		console.log(
+			`${data.base} -> ${data.compare}: ${nodeSign}${data.nodeDelta} objects, ${sign}${formatBytes(data.sizeDelta)}`,
+		);
+		console.log(formatHeapDiff(data.classes));
+		return 0;
+	}
+
+	console.error(action ? `Unknown heap action: "${action}"` : "No heap action specified");
+	console.error("  -> Try: dbg heap snapshot | dbg heap summary HS#1 | dbg heap diff HS#1 HS#2");
+	return 1;
+});
@@ -0,0 +1,47 @@
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatBreakpointHits } from "../formatter/hits.ts";
+import type { BreakpointHitsResult } from "../session/session.ts";
+
+registerCommand("hits", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch node app.js");
+		return 1;
+	}
+
+	const ref = args.subcommand;
+	if (!ref) {
+		console.error("No breakpoint ref specified");
+		console.error("  -> Try: dbg hits BP#1 --last 5");
+		return 1;
+	}
+
+	const last = parseIntFlag(args.flags, "last");
+	if (last !== undefined && last <= 0) {
+		console.error("--last must be a positive number");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.request("hits", { ref, last });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as BreakpointHitsResult;
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else {
+		console.log(formatBreakpointHits(data));
+	}
+
+	return 0;
+});
@@ -0,0 +1,60 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+
+registerCommand("input", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const words = [...(args.subcommand ? [args.subcommand] : []), ...args.positionals];
+	const file = typeof args.flags.file === "string" ? args.flags.file : undefined;
+	const eof = args.flags.eof === true;
+
+	let text = "";
+	if (file) {
+		try {
+			text = await Bun.file(file).text();
+		} catch {
+			console.error(`Cannot read file: ${file}`);
+			return 1;
+		}
+	} else if (words.length > 0) {
+		// Text is sent as a line unless --no-newline is given
+		text = words.join(" ");
+		if (args.flags["no-newline"] !== true) text += "\n";
+	} else if (!eof) {
+		console.error("No input specified");
+		console.error('  -> Try: dbg input "hello" | dbg input --file input.txt | dbg input --eof');
+		return 1;
+	}
+
+	const inputArgs: Record<string, unknown> = { text };
+	if (eof) inputArgs.eof = true;
+
+	const client = new DaemonClient(session);
+	const response = await client.request("input", inputArgs);
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as { bytes: number; eof: boolean };
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+		return 0;
+	}
+
+	const parts: string[] = [];
+	if (data.bytes > 0 || !data.eof) parts.push(`Sent ${data.bytes} bytes to stdin`);
+	if (data.eof) parts.push("stdin closed");
+	console.log(parts.join(", "));
+
+	return 0;
+});
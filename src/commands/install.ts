@@ -4,6 +4,7 @@ import { registerCommand } from "../cli/registry.ts";
 import { getManagedAdaptersDir } from "../dap/session.ts";
 
 const LLVM_VERSION = "19.1.7";
+const DELVE_PACKAGE = "github.com/go-delve/delve/cmd/dlv@latest";
 
 function getPlatformArch(): { os: string; arch: string } {
 	const os = process.platform; // "darwin", "linux", "win32"
@@ -33,6 +34,39 @@ function getLlvmDownloadUrl(version: string, os: string, arch: string): string |
 	return null;
 }
 
+/** Delve has no release binaries: build it with the Go toolchain into the adapters directory. */
+function installDelve(): number {
+	const adaptersDir = getManagedAdaptersDir();
+	const targetPath = join(adaptersDir, "dlv");
+
+	if (existsSync(targetPath)) {
+		console.log(`dlv already installed at ${targetPath}`);
+		console.log(`  To reinstall, remove it first: rm ${targetPath}`);
+		return 0;
+	}
+
+	if (Bun.spawnSync(["which", "go"]).exitCode !== 0) {
+		console.error("Go toolchain not found (needed to build dlv)");
+		console.error("  -> Install Go from https://go.dev/dl/ and retry");
+		return 1;
+	}
+
+	mkdirSync(adaptersDir, { recursive: true });
+	console.log(`Building ${DELVE_PACKAGE}...`);
+	const result = Bun.spawnSync(["go", "install", DELVE_PACKAGE], {
+		env: { ...process.env, GOBIN: adaptersDir },
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	if (result.exitCode !== 0 || !existsSync(targetPath)) {
+		console.error(`go install failed: ${result.stderr.toString().trim()}`);
+		return 1;
+	}
+
+	console.log(`Installed dlv to ${targetPath}`);
+	return 0;
+}
+
 registerCommand("install", async (args) => {
 	const adapter = args.subcommand;
 
@@ -56,14 +90,18 @@ registerCommand("install", async (args) => {
 
 	if (!adapter) {
 		console.error("Usage: dbg install <adapter>");
-		console.error("  Supported adapters: lldb");
+		console.error("  Supported adapters: lldb, dlv");
 		console.error("  Options: --list (show installed adapters)");
 		return 1;
 	}
 
+	if (adapter === "dlv") {
+		return installDelve();
+	}
+
 	if (adapter !== "lldb") {
 		console.error(`Unknown adapter: ${adapter}`);
-		console.error("  Supported adapters: lldb");
+		console.error("  Supported adapters: lldb, dlv");
 		return 1;
 	}
 
@@ -2,7 +2,9 @@ import { parseIntFlag } from "../cli/parse-flag.ts";
 import { registerCommand } from "../cli/registry.ts";
 import { DaemonClient } from "../daemon/client.ts";
 import { ensureDaemon } from "../daemon/spawn.ts";
+import { formatBreakpointFile } from "../formatter/breakpoint-file.ts";
 import { shortPath } from "../formatter/path.ts";
+import type { BreakpointFileResult } from "../session/session.ts";
 
 registerCommand("launch", async (args) => {
 	const session = args.global.session;
@@ -43,6 +45,7 @@ registerCommand("launch", async (args) => {
 		wsUrl: string;
 		paused: boolean;
 		pauseInfo?: { reason: string; url?: string; line?: number; column?: number };
+		restored?: BreakpointFileResult;
 	};
 
 	if (args.global.json) {
@@ -58,6 +61,9 @@ registerCommand("launch", async (args) => {
 		} else {
 			console.log("Running");
 		}
+		if (data.restored) {
+			console.log(formatBreakpointFile(data.restored, "Restored"));
+		}
 	}
 
 	return 0;
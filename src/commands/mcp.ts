@@ -0,0 +1,10 @@
+import { registerCommand } from "../cli/registry.ts";
+import { McpServer } from "../mcp/server.ts";
+
+registerCommand("mcp", async (args) => {
+	const pkg = require("../../package.json");
+	// stdout carries the protocol; anything human-readable must go to stderr
+	const server = new McpServer({ session: args.global.session, version: pkg.version });
+	await server.serve();
+	return 0;
+});
@@ -0,0 +1,87 @@
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatMemory, type MemoryFormat } from "../formatter/memory.ts";
+import type { MemoryReadResult } from "../session/session.ts";
+
+const FORMATS = new Set<string>(["hex", "ascii", "u32"]);
+
+registerCommand("memory", async (args) => {
+	const session = args.global.session;
+	const action = args.subcommand;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+
+	if (action === "read") {
+		const target = args.positionals[0];
+		if (!target) {
+			console.error("No address specified");
+			console.error("  -> Try: dbg memory read 0x7ffee4c8 [--count N] | dbg memory read @v1");
+			return 1;
+		}
+		const format = typeof args.flags.format === "string" ? args.flags.format : "hex";
+		if (!FORMATS.has(format)) {
+			console.error(`Invalid --format value: "${format}"`);
+			console.error("  -> Try: dbg memory read @v1 --format hex|ascii|u32");
+			return 1;
+		}
+		const readArgs: Record<string, unknown> = { target };
+		const count = parseIntFlag(args.flags, "count");
+		if (count !== undefined) readArgs.count = count;
+
+		const response = await client.request("memory-read", readArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as MemoryReadResult;
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		const bytes = Buffer.from(data.data, "hex");
+		if (bytes.length > 0) {
+			console.log(formatMemory(data.address, bytes, format as MemoryFormat));
+		}
+		if (data.unreadableBytes) {
+			console.log(`(${data.unreadableBytes} bytes unreadable)`);
+		} else if (bytes.length === 0) {
+			console.log("No bytes read");
+		}
+		return 0;
+	}
+
+	if (action === "write") {
+		const address = args.positionals[0];
+		const hex = args.positionals.slice(1).join("");
+		if (!address || !hex) {
+			console.error("An address and hex bytes are required");
+			console.error("  -> Try: dbg memory write 0x7ffee4c8 2a000000");
+			return 1;
+		}
+		const response = await client.request("memory-write", { address, data: hex });
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as { address: string; bytesWritten: number };
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+		} else {
+			console.log(`Wrote ${data.bytesWritten} bytes at ${data.address}`);
+		}
+		return 0;
+	}
+
+	console.error(action ? `Unknown memory action: "${action}"` : "No memory action specified");
+	console.error("  -> Try: dbg memory read <address|@ref> | dbg memory write <address> <hex>");
+	return 1;
+});
@@ -0,0 +1,90 @@
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { OUTPUT_FOLLOW_POLL_MS } from "../constants.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatTimestamp } from "../formatter/timestamp.ts";
+import type { OutputEntry } from "../session/types.ts";
+
+function printEntries(entries: OutputEntry[], json: boolean): void {
+	for (const entry of entries) {
+		if (json) {
+			console.log(JSON.stringify(entry));
+		} else {
+			console.log(`[${formatTimestamp(entry.timestamp)}] [${entry.stream}] ${entry.text}`);
+		}
+	}
+}
+
+registerCommand("output", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+
+	const outputArgs: Record<string, unknown> = {};
+	const stream = args.flags.stream;
+	if (stream !== undefined) {
+		if (stream !== "stdout" && stream !== "stderr") {
+			console.error(`Invalid --stream value: "${stream}"`);
+			console.error("  -> Use: --stream stdout or --stream stderr");
+			return 1;
+		}
+		outputArgs.stream = stream;
+	}
+	const since = parseIntFlag(args.flags, "since");
+	if (since !== undefined) outputArgs.since = since;
+	if (args.flags.clear === true) {
+		outputArgs.clear = true;
+	}
+
+	const follow = args.flags.follow === true;
+	const response = await client.request("output", outputArgs);
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const entries = response.data as OutputEntry[];
+
+	if (!follow) {
+		if (args.global.json) {
+			console.log(JSON.stringify(entries, null, 2));
+			return 0;
+		}
+		if (entries.length === 0) {
+			console.log("(no output)");
+			return 0;
+		}
+		printEntries(entries, false);
+		return 0;
+	}
+
+	// Follow mode: print what we have, then poll for entries past the last seq
+	printEntries(entries, args.global.json);
+	let lastSeq = entries.at(-1)?.seq ?? 0;
+	let stopped = false;
+	process.on("SIGINT", () => {
+		stopped = true;
+	});
+
+	while (!stopped) {
+		await Bun.sleep(OUTPUT_FOLLOW_POLL_MS);
+		if (!DaemonClient.isRunning(session)) break;
+		const next = await client
+			.request("output", { stream: outputArgs.stream, after: lastSeq })
+			.catch(() => null);
+		if (!next?.ok) break;
+		const newEntries = next.data as OutputEntry[];
+		printEntries(newEntries, args.global.json);
+		lastSeq = newEntries.at(-1)?.seq ?? lastSeq;
+	}
+
+	return 0;
+});
@@ -4,8 +4,10 @@ import type { SourceLine } from "../formatter/source.ts";
 import { formatSource } from "../formatter/source.ts";
 import type { StackFrame } from "../formatter/stack.ts";
 import { formatStack } from "../formatter/stack.ts";
+import { formatStateDiff } from "../formatter/state-diff.ts";
 import type { Variable } from "../formatter/variables.ts";
 import { formatVariables } from "../formatter/variables.ts";
+import { formatWatches } from "../formatter/watches.ts";
 import type { StateSnapshot } from "../session/types.ts";
 
 export interface PrintStateOptions {
@@ -84,6 +86,20 @@ export function printState(data: StateSnapshot, opts?: PrintStateOptions): void
 		}
 	}
 
+	// Changes since the previous pause (--diff)
+	if (data.diff) {
+		console.log("");
+		console.log(cc("Changes:", "bold"));
+		console.log(data.diff.length > 0 ? formatStateDiff(data.diff, { color }) : "  (none)");
+	}
+
+	// Watches section
+	if (data.watches && data.watches.length > 0) {
+		console.log("");
+		console.log(cc("Watches:", "bold"));
+		console.log(formatWatches(data.watches, { color }));
+	}
+
 	// Stack section
 	if (data.stack) {
 		console.log("");
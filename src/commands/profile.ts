@@ -0,0 +1,83 @@
+import { resolve } from "node:path";
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatCpuProfile } from "../formatter/profile.ts";
+import type { CpuProfileResult } from "../session/session.ts";
+
+function parsePositiveInt(value: unknown): number | undefined | null {
+	if (typeof value !== "string") return undefined;
+	const n = parseInt(value, 10);
+	return Number.isNaN(n) || n <= 0 ? null : n;
+}
+
+registerCommand("profile", async (args) => {
+	const session = args.global.session;
+	const action = args.subcommand;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+
+	if (action === "start") {
+		const interval = parsePositiveInt(args.flags.interval);
+		if (interval === null) {
+			console.error(`Invalid --interval value: "${args.flags.interval}"`);
+			console.error("  -> Try: dbg profile start --interval 100");
+			return 1;
+		}
+		const startArgs: Record<string, unknown> = {};
+		if (interval !== undefined) startArgs.interval = interval;
+		const response = await client.request("profile-start", startArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		if (args.global.json) {
+			console.log(JSON.stringify(response.data, null, 2));
+			return 0;
+		}
+		console.log(
+			interval !== undefined
+				? `CPU profiling started (sampling every ${interval}us)`
+				: "CPU profiling started",
+		);
+		return 0;
+	}
+
+	if (action === "stop") {
+		const top = parsePositiveInt(args.flags.top);
+		if (top === null) {
+			console.error(`Invalid --top value: "${args.flags.top}"`);
+			console.error("  -> Try: dbg profile stop --top 10");
+			return 1;
+		}
+		const stopArgs: Record<string, unknown> = {};
+		if (top !== undefined) stopArgs.top = top;
+		// The daemon may run in a different directory, so send an absolute path
+		if (typeof args.flags.out === "string") stopArgs.out = resolve(args.flags.out);
+		const response = await client.request("profile-stop", stopArgs);
+		if (!response.ok) {
+			console.error(`${response.error}`);
+			if (response.suggestion) console.error(`  ${response.suggestion}`);
+			return 1;
+		}
+		const data = response.data as CpuProfileResult;
+		if (args.global.json) {
+			console.log(JSON.stringify(data, null, 2));
+			return 0;
+		}
+		console.log(`Profile: ${data.duration.toFixed(1)}ms, ${data.sampleCount} samples`);
+		console.log(formatCpuProfile(data.functions));
+		if (data.path) console.log(`Full profile saved to ${data.path}`);
+		return 0;
+	}
+
+	console.error(action ? `Unknown profile action: "${action}"` : "No profile action specified");
+	console.error("  -> Try: dbg profile start | dbg profile stop [--top N] [--out file.cpuprofile]");
+	return 1;
+});
@@ -0,0 +1,39 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { formatRegisters, type RegisterGroup } from "../formatter/registers.ts";
+
+registerCommand("registers", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const registersArgs: Record<string, unknown> = {};
+	if (typeof args.flags.frame === "string") registersArgs.frame = args.flags.frame;
+
+	const client = new DaemonClient(session);
+	const response = await client.request("registers", registersArgs);
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as RegisterGroup[];
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else if (data.length === 0) {
+		console.log("No registers");
+	} else {
+		// The first group holds the general purpose registers; the rest are opt-in
+		const groups = args.flags.all === true ? data : data.slice(0, 1);
+		console.log(formatRegisters(groups));
+	}
+
+	return 0;
+});
@@ -30,6 +30,9 @@ registerCommand("source", async (args) => {
 	if (args.flags.generated === true) {
 		sourceArgs.generated = true;
 	}
+	if (args.flags.coverage === true) {
+		sourceArgs.coverage = true;
+	}
 
 	const response = await client.request("source", sourceArgs);
 
@@ -41,7 +44,7 @@ registerCommand("source", async (args) => {
 
 	const data = response.data as {
 		url: string;
-		lines: Array<{ line: number; text: string; current?: boolean }>;
+		lines: Array<{ line: number; text: string; current?: boolean; hitCount?: number }>;
 	};
 
 	if (args.global.json) {
@@ -55,6 +58,7 @@ registerCommand("source", async (args) => {
 		lineNumber: l.line,
 		content: l.text,
 		isCurrent: l.current,
+		hitCount: l.hitCount,
 	}));
 	console.log(formatSource(sourceLines, { color, language: detectLanguage(data.url) }));
 
@@ -3,6 +3,7 @@ import { registerCommand } from "../cli/registry.ts";
 import { DaemonClient } from "../daemon/client.ts";
 import type { StackFrame } from "../formatter/stack.ts";
 import { formatStack } from "../formatter/stack.ts";
+import { formatThreadStacks, type ThreadStack } from "../formatter/threads.ts";
 
 registerCommand("stack", async (args) => {
 	const session = args.global.session;
@@ -25,6 +26,9 @@ registerCommand("stack", async (args) => {
 	if (typeof args.flags.filter === "string") {
 		stackArgs.filter = args.flags.filter;
 	}
+	if (args.flags["all-threads"] === true) {
+		stackArgs.allThreads = true;
+	}
 
 	const response = await client.request("stack", stackArgs);
 
@@ -34,6 +38,18 @@ registerCommand("stack", async (args) => {
 		return 1;
 	}
 
+	if (stackArgs.allThreads) {
+		const stacks = response.data as ThreadStack[];
+		if (args.global.json) {
+			console.log(JSON.stringify(stacks, null, 2));
+		} else if (stacks.length === 0) {
+			console.log("No paused threads");
+		} else {
+			console.log(formatThreadStacks(stacks));
+		}
+		return 0;
+	}
+
 	const data = response.data as Array<{
 		ref: string;
 		functionName: string;
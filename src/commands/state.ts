@@ -32,6 +32,7 @@ registerCommand("state", async (args) => {
 		stateArgs.frame = args.flags.frame;
 	}
 	if (args.flags.generated === true) stateArgs.generated = true;
+	if (args.flags.diff === true) stateArgs.diff = true;
 
 	const response = await client.request("state", stateArgs);
 
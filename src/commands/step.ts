@@ -13,12 +13,28 @@ registerCommand("step", async (args) => {
 		return 1;
 	}
 
-	// The subcommand is the step mode: over, into, or out (default: over)
+	// The subcommand is the step mode: over, into, or out (default: over).
+	// "instruction" is shorthand for into --granularity instruction.
 	const validModes = new Set(["over", "into", "out"]);
-	const mode = args.subcommand && validModes.has(args.subcommand) ? args.subcommand : "over";
+	const instruction = args.subcommand === "instruction";
+	const mode = instruction
+		? "into"
+		: args.subcommand && validModes.has(args.subcommand)
+			? args.subcommand
+			: "over";
 
 	const client = new DaemonClient(session);
-	const response = await client.request("step", { mode });
+	const stepArgs: Record<string, unknown> = { mode };
+	const granularity = instruction ? "instruction" : args.flags.granularity;
+	if (granularity === "instruction" || granularity === "line") {
+		stepArgs.granularity = granularity;
+	} else if (granularity !== undefined) {
+		console.error(`Invalid granularity: ${granularity}`);
+		console.error("  -> Try: dbg step over --granularity instruction");
+		return 1;
+	}
+	if (args.flags.diff === true) stepArgs.diff = true;
+	const response = await client.request("step", stepArgs);
 
 	if (!response.ok) {
 		console.error(`${response.error}`);
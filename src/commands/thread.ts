@@ -0,0 +1,44 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { shortPath } from "../formatter/path.ts";
+import type { Thread } from "../formatter/threads.ts";
+
+registerCommand("thread", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const id = Number(args.subcommand);
+	if (!args.subcommand || !Number.isInteger(id)) {
+		console.error("No thread id specified");
+		console.error("  -> Try: dbg threads   (to list thread ids)");
+		console.error("  -> Try: dbg thread 2");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.request("thread", { id });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as Thread;
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+		return 0;
+	}
+
+	const location = data.frame
+		? ` at ${data.frame.functionName} (${shortPath(data.frame.file)}:${data.frame.line})`
+		: "";
+	console.log(`Thread ${data.id} ${data.name} selected${location}`);
+	return 0;
+});
@@ -0,0 +1,71 @@
+import { parseIntFlag } from "../cli/parse-flag.ts";
+import { registerCommand } from "../cli/registry.ts";
+import { REQUEST_TIMEOUT_MS, WAIT_TIMEOUT_MS } from "../constants.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { shouldEnableColor } from "../formatter/color.ts";
+import { formatTimestamp } from "../formatter/timestamp.ts";
+import type { ConsoleMessage, ExceptionEntry, StateSnapshot } from "../session/types.ts";
+import { printState } from "./print-state.ts";
+
+const TARGETS = new Set(["pause", "exit", "console", "exception"]);
+
+registerCommand("wait", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	// --for console:<regex> waits for a console message matching the regex
+	const spec = typeof args.flags.for === "string" ? args.flags.for : "pause";
+	const colonIdx = spec.indexOf(":");
+	const target = colonIdx === -1 ? spec : spec.slice(0, colonIdx);
+	const pattern = colonIdx === -1 ? undefined : spec.slice(colonIdx + 1);
+	if (!TARGETS.has(target) || (pattern !== undefined && target !== "console")) {
+		console.error(`Invalid --for value: "${spec}"`);
+		console.error("  -> Try: dbg wait --for pause|exit|exception|console:<regex>");
+		return 1;
+	}
+
+	const timeout = parseIntFlag(args.flags, "timeout") ?? WAIT_TIMEOUT_MS;
+	if (timeout <= 0) {
+		console.error("--timeout must be a positive number of milliseconds");
+		return 1;
+	}
+
+	const waitArgs: Record<string, unknown> = { for: target, timeout };
+	if (pattern) waitArgs.pattern = pattern;
+
+	// The daemon enforces the wait timeout; leave it room to answer first
+	const client = new DaemonClient(session);
+	const response = await client.request("wait", waitArgs, {
+		timeoutMs: timeout + REQUEST_TIMEOUT_MS,
+	});
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	if (args.global.json) {
+		console.log(JSON.stringify(response.data, null, 2));
+		return 0;
+	}
+
+	if (target === "console") {
+		const msg = response.data as ConsoleMessage;
+		console.log(`[${formatTimestamp(msg.timestamp)}] [${msg.level}] ${msg.text}`);
+	} else if (target === "exception") {
+		const entry = response.data as ExceptionEntry;
+		console.log(`[${formatTimestamp(entry.timestamp)}] ${entry.text}`);
+		if (entry.description) console.log(`  ${entry.description}`);
+		if (entry.stackTrace) console.log(entry.stackTrace);
+	} else {
+		printState(response.data as StateSnapshot, { color: shouldEnableColor(args.global.color) });
+	}
+
+	return 0;
+});
@@ -0,0 +1,35 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { shouldEnableColor } from "../formatter/color.ts";
+import { formatWatches, type Watch } from "../formatter/watches.ts";
+
+registerCommand("watch-ls", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.request("watch-ls");
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as Watch[];
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else if (data.length === 0) {
+		console.log("No watch expressions set");
+	} else {
+		console.log(formatWatches(data, { color: shouldEnableColor(args.global.color) }));
+	}
+
+	return 0;
+});
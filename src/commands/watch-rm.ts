@@ -0,0 +1,37 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+
+registerCommand("watch-rm", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const id = args.subcommand;
+	if (!id) {
+		console.error("No watch specified");
+		console.error("  -> Try: dbg watch-rm W#1");
+		console.error("  -> Try: dbg watch-rm all");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.request("watch-rm", { id });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	if (args.global.json) {
+		console.log(JSON.stringify({ removed: id }, null, 2));
+	} else {
+		console.log(id === "all" ? "All watches removed" : `${id} removed`);
+	}
+
+	return 0;
+});
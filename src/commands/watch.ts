@@ -0,0 +1,46 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import type { WatchEntry } from "../session/session.ts";
+
+registerCommand("watch", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	// Build expression from subcommand + positionals
+	const parts: string[] = [];
+	if (args.subcommand) {
+		parts.push(args.subcommand);
+	}
+	parts.push(...args.positionals);
+	const expression = parts.join(" ");
+
+	if (!expression) {
+		console.error("No expression specified");
+		console.error("  -> Try: dbg watch user.name");
+		return 1;
+	}
+
+	const client = new DaemonClient(session);
+	const response = await client.request("watch", { expression });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as WatchEntry;
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else {
+		console.log(`${data.id} watching ${data.expression}`);
+	}
+
+	return 0;
+});
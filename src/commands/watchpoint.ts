@@ -0,0 +1,46 @@
+import { registerCommand } from "../cli/registry.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import type { WatchpointAccess, WatchpointResult } from "../session/session.ts";
+
+registerCommand("watchpoint", async (args) => {
+	const session = args.global.session;
+
+	if (!DaemonClient.isRunning(session)) {
+		console.error(`No active session "${session}"`);
+		console.error("  -> Try: dbg launch --brk node app.js");
+		return 1;
+	}
+
+	const target = args.subcommand;
+	if (!target) {
+		console.error("Usage: dbg watchpoint <@ref.property|expression.property> [--read|--write]");
+		console.error("  Example: dbg watchpoint @v3.status");
+		console.error("  Example: dbg watchpoint config.mode --read --write");
+		return 1;
+	}
+
+	// --write is the default; both flags watch reads and writes
+	const read = args.flags.read === true;
+	const write = args.flags.write === true || !read;
+	const access: WatchpointAccess = read && write ? "readWrite" : read ? "read" : "write";
+
+	const client = new DaemonClient(session);
+	const response = await client.request("watchpoint", { target, access });
+
+	if (!response.ok) {
+		console.error(`${response.error}`);
+		if (response.suggestion) console.error(`  ${response.suggestion}`);
+		return 1;
+	}
+
+	const data = response.data as WatchpointResult;
+
+	if (args.global.json) {
+		console.log(JSON.stringify(data, null, 2));
+	} else {
+		const description = data.description ? ` ${data.description}` : "";
+		console.log(`${data.ref}  watch:${data.target} (${data.access})${description}`);
+	}
+
+	return 0;
+});
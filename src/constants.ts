@@ -28,6 +28,9 @@ export const STATE_WAIT_TIMEOUT_MS = 5_000;
 /** Default timeout for createPauseWaiter (waiting for Debugger.paused event). */
 export const PAUSE_WAITER_TIMEOUT_MS = 30_000;
 
+/** Default time `dbg wait` blocks before giving up. */
+export const WAIT_TIMEOUT_MS = 30_000;
+
 /** Max console/exception messages to retain in memory per session. */
 export const MAX_BUFFERED_MESSAGES = 1_000;
 
@@ -35,11 +38,41 @@ export const MAX_BUFFERED_MESSAGES = 1_000;
  * Batch dropping avoids O(n) shift on every message. */
 export const BUFFER_TRIM_BATCH = 100;
 
+/** Interval between daemon polls in `dbg output --follow`. */
+export const OUTPUT_FOLLOW_POLL_MS = 250;
+
+/** Default number of rows shown by `dbg heap summary` / `dbg heap diff`. */
+export const HEAP_TOP_DEFAULT = 20;
+
+/** Default number of functions shown by `dbg profile stop`. */
+export const CPU_PROFILE_TOP_DEFAULT = 15;
+
+/** Default number of stack frames recorded per hit by `dbg break --capture`. */
+export const CAPTURE_STACK_FRAMES_DEFAULT = 5;
+
+/** Max captured hits retained per capture breakpoint; older hits are dropped. */
+export const MAX_CAPTURED_HITS = 1_000;
+
+/** Default nesting depth serialized by `dbg dump`. */
+export const DUMP_DEPTH_DEFAULT = 20;
+
+/** Default approximate size limit of a `dbg dump`; larger values are cut off. */
+export const DUMP_MAX_BYTES_DEFAULT = 10 * 1024 * 1024;
+
+/** Default number of instructions shown by `dbg disasm`. */
+export const DISASM_COUNT_DEFAULT = 16;
+
+/** Default number of bytes read by `dbg memory read`. */
+export const MEMORY_READ_COUNT_DEFAULT = 64;
+
 /** Max line width for source code display before horizontal trimming. */
 export const MAX_SOURCE_LINE_WIDTH = 120;
 
 /** Time to wait for the DAP "initialized" event during launch/attach. */
 export const INITIALIZED_TIMEOUT_MS = 10_000;
 
+/** Time to wait for a TCP debug adapter (dlv dap) to print its listen address. */
+export const ADAPTER_LISTEN_TIMEOUT_MS = 10_000;
+
 /** Max request payload size (bytes) accepted by the daemon IPC server. */
 export const MAX_REQUEST_SIZE = 1_048_576; // 1MB
@@ -12,8 +12,13 @@ export class DaemonClient {
 		this.socketPath = getSocketPath(session);
 	}
 
-	async request(cmd: string, args: Record<string, unknown> = {}): Promise<DaemonResponse> {
+	async request(
+		cmd: string,
+		args: Record<string, unknown> = {},
+		options: { timeoutMs?: number } = {},
+	): Promise<DaemonResponse> {
 		const message = `${JSON.stringify({ cmd, args })}\n`;
+		const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
 		const sessionName = this.session;
 		const socketPath = this.socketPath;
 
@@ -24,9 +29,9 @@ export class DaemonClient {
 			const timer = setTimeout(() => {
 				if (!settled) {
 					settled = true;
-					reject(new Error(`Request timed out after ${REQUEST_TIMEOUT_MS}ms`));
+					reject(new Error(`Request timed out after ${timeoutMs}ms`));
 				}
-			}, REQUEST_TIMEOUT_MS);
+			}, timeoutMs);
 
 			Bun.connect<undefined>({
 				unix: socketPath,
@@ -106,6 +111,99 @@ export class DaemonClient {
 		});
 	}
 
+	/**
+	 * Subscribe to session events. `onEvent` is called for each pushed event
+	 * until the daemon closes the stream or `signal` aborts. Resolves with the
+	 * daemon's refusal if it rejects the subscription, otherwise `{ ok: true }`
+	 * once the stream ends.
+	 */
+	async subscribe(
+		args: Record<string, unknown>,
+		onEvent: (event: Record<string, unknown>) => void,
+		options: { signal?: AbortSignal } = {},
+	): Promise<DaemonResponse> {
+		const message = `${JSON.stringify({ cmd: "subscribe", args })}\n`;
+		const sessionName = this.session;
+
+		return new Promise<DaemonResponse>((resolve, reject) => {
+			let buffer = "";
+			let acknowledged = false;
+			let settled = false;
+			const settle = (result: DaemonResponse | Error) => {
+				if (settled) return;
+				settled = true;
+				if (result instanceof Error) reject(result);
+				else resolve(result);
+			};
+
+			Bun.connect<undefined>({
+				unix: this.socketPath,
+				socket: {
+					open(socket) {
+						if (options.signal?.aborted) {
+							socket.end();
+							return;
+						}
+						options.signal?.addEventListener("abort", () => socket.end(), { once: true });
+						socket.write(message);
+					},
+					data(socket, data) {
+						buffer += data.toString();
+						let newlineIdx = buffer.indexOf("\n");
+						while (newlineIdx !== -1) {
+							const line = buffer.slice(0, newlineIdx);
+							buffer = buffer.slice(newlineIdx + 1);
+							newlineIdx = buffer.indexOf("\n");
+							let json: unknown;
+							try {
+								json = JSON.parse(line);
+							} catch {
+								settle(new Error("Invalid JSON event from daemon"));
+								socket.end();
+								return;
+							}
+							if (acknowledged) {
+								onEvent(json as Record<string, unknown>);
+								continue;
+							}
+							const parsed = DaemonResponseSchema.safeParse(json);
+							if (!parsed.success) {
+								settle(new Error("Invalid response from daemon"));
+								socket.end();
+								return;
+							}
+							if (!parsed.data.ok) {
+								settle(parsed.data);
+								socket.end();
+								return;
+							}
+							acknowledged = true;
+						}
+					},
+					close() {
+						settle(
+							acknowledged || options.signal?.aborted
+								? { ok: true }
+								: new Error("Connection closed without response"),
+						);
+					},
+					error(_socket, error) {
+						settle(error);
+					},
+					connectError(_socket, error) {
+						settle(new Error(`Daemon not running for session "${sessionName}": ${error.message}`));
+					},
+				},
+			}).catch((err) => {
+				settle(
+					new Error(
+						`Cannot connect to daemon for session "${sessionName}": ${err instanceof Error ? err.message : String(err)}`,
+					),
+				);
+			});
+		});
+	}
+
 	/**
 	 * Check if a daemon is running for the given session.
 	 * Uses PID liveness check (Docker-style): reads the lock file PID
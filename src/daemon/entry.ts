@@ -1,9 +1,17 @@
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { WAIT_TIMEOUT_MS } from "../constants.ts";
 import {
 	type DaemonRequest,
 	type DaemonResponse,
 	type ErrorResponse,
 	isError,
 } from "../protocol/messages.ts";
+import {
+	DEFAULT_BREAKPOINT_FILE,
+	loadBreakpoints,
+	saveBreakpoints,
+} from "../session/breakpoint-file.ts";
 import { createSession } from "../session/factory.ts";
 import type { PendingConfig, Session } from "../session/session.ts";
 import { suggestEvalFix } from "./eval-suggestions.ts";
@@ -77,6 +85,23 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			activeSession.applyPendingConfig(pendingConfig);
 			resetConfig();
 			const result = await activeSession.launch(command, { brk, port });
+			// Restore the project's saved breakpoints, if any
+			const breakpointFile = resolve(DEFAULT_BREAKPOINT_FILE);
+			if (existsSync(breakpointFile)) {
+				// The debuggee is already running: a bad file must not fail the launch
+				try {
+					result.restored = await loadBreakpoints(activeSession, breakpointFile, process.cwd());
+				} catch (err) {
+					result.restored = {
+						path: breakpointFile,
+						breakpoints: 0,
+						logpoints: 0,
+						functions: 0,
+						blackbox: 0,
+						errors: [err instanceof Error ? err.message : String(err)],
+					};
+				}
+			}
 			return { ok: true, data: result };
 		}
 
@@ -107,16 +132,22 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			const session = requireSession();
 			if (isError(session)) return session;
 			await session.continue();
-			const stateAfter = await session.buildState();
+			const stateAfter = await session.buildState({ diff: req.args.diff });
 			return { ok: true, data: stateAfter };
 		}
 
 		case "step": {
 			const session = requireSession();
 			if (isError(session)) return session;
-			const { mode = "over" } = req.args;
-			await session.step(mode);
-			const stateAfter = await session.buildState();
+			const { mode = "over", granularity, diff } = req.args;
+			if (granularity === "instruction" && !session.capabilities.disassembly) {
+				return {
+					ok: false,
+					error: "Instruction stepping is only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			await session.step(mode, { granularity });
+			const stateAfter = await session.buildState({ diff });
 			return { ok: true, data: stateAfter };
 		}
 
@@ -128,6 +159,51 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: stateAfter };
 		}
 
+		case "wait": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			const { for: target = "pause", pattern, timeout = WAIT_TIMEOUT_MS } = req.args;
+			let regex: RegExp | undefined;
+			if (pattern !== undefined) {
+				try {
+					regex = new RegExp(pattern);
+				} catch {
+					return { ok: false, error: `Invalid pattern: ${pattern}` };
+				}
+			}
+
+			// Already there: report the current state rather than waiting for the next one
+			const current = session.getStatus().state;
+			if (
+				(target === "pause" && current === "paused") ||
+				(target === "exit" && current === "idle")
+			) {
+				return { ok: true, data: await session.buildState() };
+			}
+
+			const event = await session.waitForEvent((e) => {
+				if (e.type === "console") {
+					return target === "console" && (!regex || regex.test(e.message.text));
+				}
+				return e.type === target;
+			}, timeout);
+			if (!event) {
+				const what = target === "console" && pattern ? `console:${pattern}` : target;
+				return {
+					ok: false,
+					error: `Timed out after ${timeout}ms waiting for ${what}`,
+					suggestion: "Increase --timeout, or check the session with: dbg status",
+				};
+			}
+			if (event.type === "console") return { ok: true, data: event.message };
+			if (event.type === "exception") return { ok: true, data: event.exception };
+			return { ok: true, data: await session.buildState() };
+		}
+
+		case "subscribe":
+			// Streamed by the onSubscribe handler; the server never routes it here
+			return { ok: false, error: "subscribe must be sent on its own connection" };
+
 		case "run-to": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -140,12 +216,34 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 		case "break": {
 			const session = requireSession();
 			if (isError(session)) return session;
-			const { file, line, condition, hitCount, urlRegex, column } = req.args;
+			const {
+				file,
+				line,
+				condition,
+				hitCount,
+				urlRegex,
+				column,
+				capture,
+				captureFrames,
+				once,
+				after,
+			} = req.args;
+			if (capture && !session.capabilities.breakpointCapture) {
+				return {
+					ok: false,
+					error: "Capture breakpoints are not supported by this runtime",
+					suggestion: "Use a logpoint to record values without pausing",
+				};
+			}
 			const bpResult = await session.setBreakpoint(file, line, {
 				condition,
 				hitCount,
 				urlRegex,
 				column,
+				capture,
+				captureFrames,
+				once,
+				after,
 			});
 			return { ok: true, data: bpResult };
 		}
@@ -156,8 +254,8 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			if (!session.capabilities.functionBreakpoints || !session.setFunctionBreakpoint) {
 				return {
 					ok: false,
-					error: "Function breakpoints are only supported with DAP runtimes (e.g. --runtime lldb)",
-					suggestion: "Use 'break <file>:<line>' for CDP sessions",
+					error: "Function breakpoints are not supported by this runtime",
+					suggestion: "Use 'break <file>:<line>' instead",
 				};
 			}
 			const { name, condition } = req.args;
@@ -165,6 +263,20 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: bpResult };
 		}
 
+		case "watchpoint": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.watchpoints || !session.setWatchpoint) {
+				return {
+					ok: false,
+					error: "Watchpoints are not supported by this runtime",
+					suggestion: "Use 'break <file>:<line>' on the code that writes the value instead",
+				};
+			}
+			const { target, access } = req.args;
+			return { ok: true, data: await session.setWatchpoint(target, { access }) };
+		}
+
 		case "break-rm": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -183,6 +295,46 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: session.listBreakpoints() };
 		}
 
+		case "break-reset-counts": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			session.resetBreakpointHits(req.args.ref);
+			return { ok: true, data: req.args.ref ?? "all" };
+		}
+
+		case "break-save": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			const path = resolve(req.args.path ?? DEFAULT_BREAKPOINT_FILE);
+			return { ok: true, data: saveBreakpoints(session, path, process.cwd()) };
+		}
+
+		case "break-load": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			const path = resolve(req.args.path ?? DEFAULT_BREAKPOINT_FILE);
+			if (!existsSync(path)) {
+				return {
+					ok: false,
+					error: `Breakpoint file not found: ${path}`,
+					suggestion: "Save the current breakpoints first with: dbg break-save",
+				};
+			}
+			return { ok: true, data: await loadBreakpoints(session, path, process.cwd()) };
+		}
+
+		case "hits": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.getBreakpointHits) {
+				return {
+					ok: false,
+					error: "Capture breakpoints are not supported by this runtime",
+				};
+			}
+			return { ok: true, data: session.getBreakpointHits(req.args.ref, { last: req.args.last }) };
+		}
+
 		case "logpoint": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -205,6 +357,9 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 		case "source": {
 			const session = requireSession();
 			if (isError(session)) return session;
+			if (req.args.coverage && !session.capabilities.coverage) {
+				return { ok: false, error: "Coverage is only available in CDP mode (node)" };
+			}
 			const sourceResult = await session.getSource(req.args);
 			return { ok: true, data: sourceResult };
 		}
@@ -220,6 +375,15 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 		case "stack": {
 			const session = requireSession();
 			if (isError(session)) return session;
+			if (req.args.allThreads) {
+				if (!session.capabilities.threads || !session.getAllThreadStacks) {
+					return {
+						ok: false,
+						error: "--all-threads is only available in DAP mode (e.g. --runtime lldb)",
+					};
+				}
+				return { ok: true, data: await session.getAllThreadStacks() };
+			}
 			const stackResult = session.getStack(req.args);
 			return { ok: true, data: stackResult };
 		}
@@ -246,6 +410,28 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: exceptionsResult };
 		}
 
+		case "output": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			const outputResult = session.getOutput(req.args);
+			return { ok: true, data: outputResult };
+		}
+
+		case "input": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			try {
+				const inputResult = await session.sendInput(req.args.text ?? "", { eof: req.args.eof });
+				return { ok: true, data: inputResult };
+			} catch (err) {
+				return {
+					ok: false,
+					error: err instanceof Error ? err.message : String(err),
+					suggestion: "stdin is only piped for launched sessions, and stays closed after --eof",
+				};
+			}
+		}
+
 		case "eval": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -274,6 +460,47 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: propsResult };
 		}
 
+		case "dump": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			const { ref, path, ...dumpOptions } = req.args;
+			const dump = await session.dumpObject(ref, dumpOptions);
+			if (!path) {
+				return { ok: true, data: { ref, ...dump } };
+			}
+			const json = `${JSON.stringify(dump.value, null, 2)}\n`;
+			mkdirSync(dirname(path), { recursive: true });
+			writeFileSync(path, json);
+			return {
+				ok: true,
+				data: { ref, path, bytes: Buffer.byteLength(json), truncated: dump.truncated },
+			};
+		}
+
+		case "watch": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			return { ok: true, data: session.addWatch(req.args.expression) };
+		}
+
+		case "watch-ls": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			// Values are only available while paused
+			const data =
+				session.getStatus().state === "paused"
+					? await session.evaluateWatches()
+					: session.listWatches();
+			return { ok: true, data };
+		}
+
+		case "watch-rm": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			session.removeWatch(req.args.id);
+			return { ok: true, data: req.args.id };
+		}
+
 		case "blackbox": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -387,6 +614,173 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 			return { ok: true, data: modulesResult };
 		}
 
+		case "threads": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.threads || !session.listThreads) {
+				return {
+					ok: false,
+					error: "Threads are only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			return { ok: true, data: await session.listThreads() };
+		}
+
+		case "thread": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.threads || !session.selectThread) {
+				return {
+					ok: false,
+					error: "Threads are only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			return { ok: true, data: await session.selectThread(req.args.id) };
+		}
+
+		case "disasm": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.disassembly || !session.disassemble) {
+				return {
+					ok: false,
+					error: "Disassembly is only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			return { ok: true, data: await session.disassemble(req.args) };
+		}
+
+		case "memory-read": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.memory || !session.readMemory) {
+				return {
+					ok: false,
+					error: "Memory access is only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			const { target, count } = req.args;
+			return { ok: true, data: await session.readMemory(target, { count }) };
+		}
+
+		case "memory-write": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.memory || !session.writeMemory) {
+				return {
+					ok: false,
+					error: "Memory access is only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			return { ok: true, data: await session.writeMemory(req.args.address, req.args.data) };
+		}
+
+		case "registers": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.memory || !session.getRegisters) {
+				return {
+					ok: false,
+					error: "Registers are only available in DAP mode (e.g. --runtime lldb)",
+				};
+			}
+			return { ok: true, data: await session.getRegisters(req.args) };
+		}
+
+		case "heap-snapshot": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.heapSnapshots || !session.takeHeapSnapshot) {
+				return {
+					ok: false,
+					error: "Heap snapshots are only available in CDP mode (node)",
+					suggestion: "Launch the target with: dbg launch --brk node app.js",
+				};
+			}
+			const snapshotResult = await session.takeHeapSnapshot();
+			return { ok: true, data: snapshotResult };
+		}
+
+		case "heap-summary": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.heapSnapshots || !session.getHeapSummary) {
+				return { ok: false, error: "Heap snapshots are only available in CDP mode (node)" };
+			}
+			const { ref, ...summaryOptions } = req.args;
+			const summaryResult = await session.getHeapSummary(ref, summaryOptions);
+			return { ok: true, data: summaryResult };
+		}
+
+		case "heap-diff": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.heapSnapshots || !session.diffHeapSnapshots) {
+				return { ok: false, error: "Heap snapshots are only available in CDP mode (node)" };
+			}
+			const { base, compare, ...diffOptions } = req.args;
+			const diffResult = await session.diffHeapSnapshots(base, compare, diffOptions);
+			return { ok: true, data: diffResult };
+		}
+
+		case "profile-start": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.cpuProfiling || !session.startCpuProfile) {
+				return {
+					ok: false,
+					error: "CPU profiling is only available in CDP mode (node)",
+					suggestion: "Launch the target with: dbg launch --brk node app.js",
+				};
+			}
+			const startResult = await session.startCpuProfile(req.args);
+			return { ok: true, data: startResult };
+		}
+
+		case "profile-stop": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.cpuProfiling || !session.stopCpuProfile) {
+				return { ok: false, error: "CPU profiling is only available in CDP mode (node)" };
+			}
+			const profileResult = await session.stopCpuProfile(req.args);
+			return { ok: true, data: profileResult };
+		}
+
+		case "coverage-start": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.coverage || !session.startCoverage) {
+				return {
+					ok: false,
+					error: "Coverage is only available in CDP mode (node)",
+					suggestion: "Launch the target with: dbg launch --brk node app.js",
+				};
+			}
+			const coverageStartResult = await session.startCoverage();
+			return { ok: true, data: coverageStartResult };
+		}
+
+		case "coverage-take": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.coverage || !session.takeCoverage) {
+				return { ok: false, error: "Coverage is only available in CDP mode (node)" };
+			}
+			const coverageResult = await session.takeCoverage(req.args);
+			return { ok: true, data: coverageResult };
+		}
+
+		case "coverage-stop": {
+			const session = requireSession();
+			if (isError(session)) return session;
+			if (!session.capabilities.coverage || !session.stopCoverage) {
+				return { ok: false, error: "Coverage is only available in CDP mode (node)" };
+			}
+			const coverageResult = await session.stopCoverage(req.args);
+			return { ok: true, data: coverageResult };
+		}
+
 		case "path-map-add": {
 			const session = requireSession();
 			if (isError(session)) return session;
@@ -445,4 +839,14 @@ server.onRequest(async (req: DaemonRequest): Promise<DaemonResponse> => {
 	}
 });
 
+server.onSubscribe((req, send) => {
+	const session = requireSession();
+	if (isError(session)) return session;
+	const { events } = req.args;
+	return session.onEvent((event) => {
+		if (events && !events.includes(event.type)) return;
+		send({ timestamp: Date.now(), ...event });
+	});
+});
+
 await server.start();
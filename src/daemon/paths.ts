@@ -26,6 +26,10 @@ export function getDaemonLogPath(session: string): string {
 	return join(getSocketDir(), `${session}.daemon.log`);
 }
 
+export function getHeapSnapshotPath(session: string, id: number): string {
+	return join(getSocketDir(), `${session}-${id}.heapsnapshot`);
+}
+
 export function ensureSocketDir(): void {
 	const dir = getSocketDir();
 	if (!existsSync(dir)) {
@@ -4,17 +4,26 @@ import {
 	type DaemonRequest,
 	DaemonRequestSchema,
 	type DaemonResponse,
+	type ErrorResponse,
 } from "../protocol/messages.ts";
 import type { DaemonLogger } from "./logger.ts";
 import { ensureSocketDir, getLockPath, getSocketPath } from "./paths.ts";
 
 type RequestHandler = (req: DaemonRequest) => Promise<DaemonResponse>;
+type SubscribeRequest = Extract<DaemonRequest, { cmd: "subscribe" }>;
+/** Starts pushing events through `send`; returns the unsubscribe function, or an error. */
+type SubscribeHandler = (
+	req: SubscribeRequest,
+	send: (event: unknown) => void,
+) => (() => void) | ErrorResponse;
 
 export class DaemonServer {
 	private session: string;
 	private idleTimeout: number;
 	private idleTimer: ReturnType<typeof setTimeout> | null = null;
 	private handler: RequestHandler | null = null;
+	private subscribeHandler: SubscribeHandler | null = null;
+	private subscriberCount = 0;
 	private listener: ReturnType<typeof Bun.listen> | null = null;
 	private socketPath: string;
 	private lockPath: string;
@@ -32,6 +41,14 @@ export class DaemonServer {
 		this.handler = handler;
 	}
 
+	/**
+	 * Handle `subscribe` requests. The connection stays open and each event is
+	 * written as one JSON line after an initial `{ ok: true }` acknowledgement.
+	 */
+	onSubscribe(handler: SubscribeHandler): void {
+		this.subscribeHandler = handler;
+	}
+
 	async start(): Promise<void> {
 		ensureSocketDir();
 
@@ -61,11 +78,12 @@ export class DaemonServer {
 			buffer: string;
 			pendingWrite: Buffer | null;
 			pendingOffset: number;
+			unsubscribe: (() => void) | null;
 		}>({
 			unix: this.socketPath,
 			socket: {
 				open(socket) {
-					socket.data = { buffer: "", pendingWrite: null, pendingOffset: 0 };
+					socket.data = { buffer: "", pendingWrite: null, pendingOffset: 0, unsubscribe: null };
 					server.resetIdleTimer();
 				},
 				data(socket, data) {
@@ -93,7 +111,9 @@ export class DaemonServer {
 					// Continue writing any pending data
 					server.flushPending(socket);
 				},
-				close() {},
+				close(socket) {
+					server.endSubscription(socket);
+				},
 				error(_socket, error) {
 					server.logger?.error("socket.error", error.message);
 					console.error(`[daemon] socket error: ${error.message}`);
@@ -121,10 +141,10 @@ export class DaemonServer {
 			data.pendingOffset += written;
 		}
 
-		// All data flushed
+		// All data flushed; subscriptions keep the connection open
 		data.pendingWrite = null;
 		data.pendingOffset = 0;
-		socket.end();
+		if (!socket.data.unsubscribe) socket.end();
 	}
 
 	// biome-ignore lint/suspicious/noExplicitAny: Bun socket type
@@ -172,6 +192,11 @@ export class DaemonServer {
 		}
 		const request: DaemonRequest = parsed.data;
 
+		if (request.cmd === "subscribe") {
+			this.startSubscription(socket, request);
+			return;
+		}
+
 		if (!this.handler) {
 			this.sendResponse(socket, {
 				ok: false,
@@ -192,11 +217,63 @@ export class DaemonServer {
 			});
 	}
 
+	// biome-ignore lint/suspicious/noExplicitAny: Bun socket type
+	private startSubscription(socket: any, request: SubscribeRequest): void {
+		if (!this.subscribeHandler) {
+			this.sendResponse(socket, { ok: false, error: "Subscriptions are not supported" });
+			return;
+		}
+		const result = this.subscribeHandler(request, (event) => this.writeLine(socket, event));
+		if (typeof result !== "function") {
+			this.sendResponse(socket, result);
+			return;
+		}
+		socket.data.unsubscribe = result;
+		this.subscriberCount++;
+		// A subscriber counts as activity for as long as it is connected
+		this.resetIdleTimer();
+		this.writeLine(socket, { ok: true });
+	}
+
+	// biome-ignore lint/suspicious/noExplicitAny: Bun socket type
+	private endSubscription(socket: any): void {
+		const unsubscribe = socket.data.unsubscribe as (() => void) | null;
+		if (!unsubscribe) return;
+		socket.data.unsubscribe = null;
+		unsubscribe();
+		this.subscriberCount--;
+		this.resetIdleTimer();
+	}
+
+	/** Write one JSON line without ending the connection, queueing behind any pending data. */
+	// biome-ignore lint/suspicious/noExplicitAny: Bun socket type
+	private writeLine(socket: any, value: unknown): void {
+		const payload = Buffer.from(`${JSON.stringify(value)}\n`);
+		const data = socket.data as { pendingWrite: Buffer | null; pendingOffset: number };
+		if (data.pendingWrite) {
+			const queued = data.pendingWrite.subarray(data.pendingOffset);
+			// A reader this far behind is not keeping up; drop it rather than buffer without bound
+			if (queued.length > MAX_REQUEST_SIZE) {
+				this.endSubscription(socket);
+				socket.end();
+				return;
+			}
+			data.pendingWrite = Buffer.concat([queued, payload]);
+			data.pendingOffset = 0;
+			return;
+		}
+		const written = socket.write(payload);
+		if (written < payload.length) {
+			data.pendingWrite = payload;
+			data.pendingOffset = Math.max(written, 0);
+		}
+	}
+
 	resetIdleTimer(): void {
 		if (this.idleTimer) {
 			clearTimeout(this.idleTimer);
 		}
-		if (this.idleTimeout > 0) {
+		if (this.idleTimeout > 0 && this.subscriberCount === 0) {
 			this.idleTimer = setTimeout(() => {
 				this.logger?.info(
 					"daemon.idle",
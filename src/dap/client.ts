@@ -1,11 +1,15 @@
 import type { DebugProtocol } from "@vscode/debugprotocol";
-import type { Subprocess } from "bun";
+import type { Socket, Subprocess } from "bun";
 
-import { REQUEST_TIMEOUT_MS } from "../constants.ts";
+import { ADAPTER_LISTEN_TIMEOUT_MS, REQUEST_TIMEOUT_MS } from "../constants.ts";
 
 // biome-ignore lint/suspicious/noExplicitAny: Required for handler map that stores both typed and untyped handlers
 type AnyHandler = (...args: any[]) => void;
 
+type ReverseRequestHandler = (
+	args: unknown,
+) => Promise<Record<string, unknown> | undefined> | Record<string, unknown> | undefined;
+
 interface PendingRequest {
 	resolve: (result: DebugProtocol.Response) => void;
 	reject: (error: Error) => void;
@@ -15,21 +19,30 @@ interface PendingRequest {
 /**
  * DAP (Debug Adapter Protocol) client that communicates with a debug adapter
  * via stdin/stdout using the DAP wire format (Content-Length headers + JSON).
- * Mirrors CdpClient's pattern for consistency.
+ * Adapters that only serve DAP over TCP (e.g. `dlv dap`) are reached with
+ * `spawnTcp`. Mirrors CdpClient's pattern for consistency.
  */
 export class DapClient {
 	private proc: Subprocess<"pipe", "pipe", "pipe">;
+	private socket: Socket<undefined> | null = null;
+	/** Bytes the socket has not accepted yet; flushed on drain */
+	private outgoing: Buffer | null = null;
 	private nextSeq = 1;
 	private pending = new Map<number, PendingRequest>();
 	private listeners = new Map<string, Set<AnyHandler>>();
+	private reverseHandlers = new Map<string, ReverseRequestHandler>();
 	private isConnected = false;
 	private buffer = "";
 
-	private constructor(proc: Subprocess<"pipe", "pipe", "pipe">) {
+	private constructor(proc: Subprocess<"pipe", "pipe", "pipe">, transport: "stdio" | "tcp") {
 		this.proc = proc;
 		this.isConnected = true;
-		this.readLoop();
-		this.drainStderr();
+		if (transport === "stdio") {
+			this.readLoop();
+		} else {
+			this.drain(proc.stdout);
+		}
+		this.drain(proc.stderr);
 	}
 
 	/**
@@ -46,7 +59,57 @@ export class DapClient {
 			stdout: "pipe",
 			stderr: "pipe",
 		});
-		return new DapClient(proc);
+		return new DapClient(proc, "stdio");
+	}
+
+	/**
+	 * Spawn a debug adapter that listens on TCP, wait for it to print its
+	 * address (`... listening at: 127.0.0.1:PORT`) and connect to it.
+	 * @param command - The command + args to spawn, with the adapter told to listen on port 0
+	 */
+	static async spawnTcp(command: string[]): Promise<DapClient> {
+		const [cmd, ...args] = command;
+		if (!cmd) {
+			throw new Error("DapClient.spawnTcp: command array must not be empty");
+		}
+		const proc = Bun.spawn([cmd, ...args], {
+			stdin: "pipe",
+			stdout: "pipe",
+			stderr: "pipe",
+		});
+
+		const address = await readListenAddress(proc);
+		if (!address) {
+			proc.kill();
+			throw new Error(
+				`Debug adapter "${cmd}" did not report a listen address within ${ADAPTER_LISTEN_TIMEOUT_MS}ms`,
+			);
+		}
+
+		let client: DapClient | null = null;
+		const decoder = new TextDecoder();
+		let socket: Socket<undefined>;
+		try {
+			socket = await Bun.connect({
+				hostname: address.host,
+				port: address.port,
+				socket: {
+					data: (_socket, data) => client?.receive(decoder.decode(data, { stream: true })),
+					drain: () => client?.flush(),
+					close: () => client?.handleClose(),
+					error: () => client?.handleClose(),
+				},
+			});
+		} catch (err) {
+			proc.kill();
+			const reason = err instanceof Error ? err.message : String(err);
+			throw new Error(
+				`Could not connect to debug adapter "${cmd}" at ${address.host}:${address.port}: ${reason}`,
+			);
+		}
+		client = new DapClient(proc, "tcp");
+		client.socket = socket;
+		return client;
 	}
 
 	/**
@@ -103,6 +166,15 @@ export class DapClient {
 		}
 	}
 
+	/**
+	 * Handle a reverse request sent by the adapter (e.g. "runInTerminal").
+	 * The handler's return value becomes the response body; a thrown error
+	 * is reported back as a failed response.
+	 */
+	onRequest(command: string, handler: ReverseRequestHandler): void {
+		this.reverseHandlers.set(command, handler);
+	}
+
 	/**
 	 * Disconnect from the debug adapter, killing the subprocess.
 	 */
@@ -120,7 +192,13 @@ export class DapClient {
 		}
 
 		this.listeners.clear();
+		this.reverseHandlers.clear();
 
+		try {
+			this.socket?.end();
+		} catch {
+			// socket may already be closed
+		}
 		try {
 			this.proc.stdin.end();
 		} catch {
@@ -147,12 +225,40 @@ export class DapClient {
 		const json = JSON.stringify(msg);
 		const header = `Content-Length: ${Buffer.byteLength(json, "utf-8")}\r\n\r\n`;
 		try {
-			this.proc.stdin.write(header + json);
+			if (this.socket) {
+				const data = Buffer.from(header + json, "utf-8");
+				this.outgoing = this.outgoing ? Buffer.concat([this.outgoing, data]) : data;
+				this.flush();
+			} else {
+				this.proc.stdin.write(header + json);
+			}
 		} catch {
 			this.isConnected = false;
 		}
 	}
 
+	/** Write as much of the queued socket data as the socket accepts. */
+	private flush(): void {
+		if (!this.socket || !this.outgoing) return;
+		const written = this.socket.write(this.outgoing);
+		this.outgoing = written < this.outgoing.length ? this.outgoing.subarray(written) : null;
+	}
+
+	private receive(chunk: string): void {
+		this.buffer += chunk;
+		this.processBuffer();
+	}
+
+	private handleClose(): void {
+		this.isConnected = false;
+		const error = new Error("DAP adapter process terminated");
+		for (const [id, pending] of this.pending) {
+			clearTimeout(pending.timer);
+			pending.reject(error);
+			this.pending.delete(id);
+		}
+	}
+
 	private async readLoop(): Promise<void> {
 		const reader = this.proc.stdout.getReader();
 		const decoder = new TextDecoder();
@@ -160,20 +266,12 @@ export class DapClient {
 			while (this.isConnected) {
 				const { done, value } = await reader.read();
 				if (done) break;
-				this.buffer += decoder.decode(value, { stream: true });
-				this.processBuffer();
+				this.receive(decoder.decode(value, { stream: true }));
 			}
 		} catch {
 			// Stream closed or errored
 		} finally {
-			this.isConnected = false;
-			// Reject all pending requests
-			const error = new Error("DAP adapter process terminated");
-			for (const [id, pending] of this.pending) {
-				clearTimeout(pending.timer);
-				pending.reject(error);
-				this.pending.delete(id);
-			}
+			this.handleClose();
 		}
 	}
 
@@ -227,6 +325,8 @@ export class DapClient {
 			} else {
 				pending.resolve(response);
 			}
+		} else if (parsed.type === "request") {
+			this.handleReverseRequest(parsed as DebugProtocol.Request);
 		} else if (parsed.type === "event") {
 			const event = parsed as DebugProtocol.Event;
 			const handlers = this.listeners.get(event.event);
@@ -238,8 +338,32 @@ export class DapClient {
 		}
 	}
 
-	private async drainStderr(): Promise<void> {
-		const reader = this.proc.stderr.getReader();
+	private async handleReverseRequest(request: DebugProtocol.Request): Promise<void> {
+		const response: DebugProtocol.Response = {
+			seq: 0, // assigned when written
+			type: "response",
+			request_seq: request.seq,
+			command: request.command,
+			success: true,
+		};
+		const handler = this.reverseHandlers.get(request.command);
+		try {
+			if (!handler) {
+				throw new Error(`Unsupported reverse request: ${request.command}`);
+			}
+			const body = await handler(request.arguments);
+			if (body !== undefined) response.body = body;
+		} catch (err) {
+			response.success = false;
+			response.message = err instanceof Error ? err.message : String(err);
+		}
+		if (!this.isConnected) return;
+		response.seq = this.nextSeq++;
+		this.writeMessage(response);
+	}
+
+	private async drain(stream: ReadableStream<Uint8Array>): Promise<void> {
+		const reader = stream.getReader();
 		try {
 			while (true) {
 				const { done } = await reader.read();
@@ -250,3 +374,37 @@ export class DapClient {
 		}
 	}
 }
+
+/**
+ * Read the adapter's stdout until it announces where it listens, e.g.
+ * "DAP server listening at: 127.0.0.1:38155". The reader lock is released
+ * so the rest of the stream can be drained.
+ */
+async function readListenAddress(
+	proc: Subprocess<"pipe", "pipe", "pipe">,
+): Promise<{ host: string; port: number } | null> {
+	const reader = proc.stdout.getReader();
+	const decoder = new TextDecoder();
+	let accumulated = "";
+	const timeout = setTimeout(() => {
+		reader.cancel().catch(() => {
+			// Cancellation errors are expected on timeout
+		});
+	}, ADAPTER_LISTEN_TIMEOUT_MS);
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) return null;
+			accumulated += decoder.decode(value, { stream: true });
+			const match = /listening at:?\s*\[?([\w.:-]+?)\]?:(\d+)/i.exec(accumulated);
+			if (match?.[1] && match[2]) {
+				return { host: match[1], port: parseInt(match[2], 10) };
+			}
+		}
+	} catch {
+		return null;
+	} finally {
+		clearTimeout(timeout);
+		reader.releaseLock();
+	}
+}
@@ -0,0 +1,100 @@
+import { DUMP_DEPTH_DEFAULT, DUMP_MAX_BYTES_DEFAULT } from "../constants.ts";
+import type { DumpResult } from "../session/session.ts";
+
+export interface DapVariable {
+	name: string;
+	value: string;
+	variablesReference: number;
+}
+
+/** Synthetic children debugpy adds to containers; they are not part of the value. */
+const GROUP_NAMES = new Set([
+	"special variables",
+	"function variables",
+	"class variables",
+	"protected variables",
+	"len()",
+]);
+
+/**
+ * Best-effort conversion of a DAP display string to JSON: numbers, booleans,
+ * null-likes and quoted strings are parsed, anything else is kept verbatim.
+ */
+export function parseDapValue(value: string): unknown {
+	if (/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value)) {
+		const n = Number(value);
+		// Integers beyond 2^53 would silently lose digits
+		if (Number.isSafeInteger(n) || !/^-?\d+$/.test(value)) return n;
+		return value;
+	}
+	if (value === "true" || value === "True") return true;
+	if (value === "false" || value === "False") return false;
+	if (value === "null" || value === "None" || value === "nil") return null;
+	if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+		try {
+			return JSON.parse(value);
+		} catch {
+			return value.slice(1, -1);
+		}
+	}
+	if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+		return value.slice(1, -1);
+	}
+	return value;
+}
+
+/**
+ * Serialize a variable tree by walking `variables` requests. Children named
+ * [0], [1], ... become arrays. DAP has no object identity, so cycles (e.g.
+ * linked lists) are bounded by the depth limit only. Past maxBytes, each
+ * container ends with one { $type: "Truncated", remaining } marker, under
+ * the "$truncated" key for objects.
+ */
+export async function dumpVariables(
+	fetchVariables: (variablesReference: number) => Promise<DapVariable[]>,
+	variablesReference: number,
+	options: { depth?: number; maxBytes?: number } = {},
+): Promise<DumpResult> {
+	const maxDepth = options.depth ?? DUMP_DEPTH_DEFAULT;
+	const maxBytes = options.maxBytes ?? DUMP_MAX_BYTES_DEFAULT;
+	let bytes = 0;
+	let truncated = false;
+
+	const walk = async (reference: number, depth: number): Promise<unknown> => {
+		const variables = (await fetchVariables(reference)).filter((v) => !GROUP_NAMES.has(v.name));
+		const isArray =
+			variables.length > 0 && variables.every((v, i) => v.name === `[${i}]` || v.name === `${i}`);
+		const items: unknown[] = [];
+		const out: Record<string, unknown> = {};
+
+		for (const [i, v] of variables.entries()) {
+			if (bytes > maxBytes) {
+				truncated = true;
+				const marker = { $type: "Truncated", remaining: variables.length - i };
+				if (isArray) items.push(marker);
+				else out.$truncated = marker;
+				break;
+			}
+			bytes += v.name.length + 4;
+			let value: unknown;
+			if (v.variablesReference > 0) {
+				if (depth + 1 >= maxDepth) {
+					truncated = true;
+					bytes += v.value.length + 32;
+					value = { $type: "Truncated", summary: v.value };
+				} else {
+					value = await walk(v.variablesReference, depth + 1);
+				}
+			} else {
+				bytes += v.value.length;
+				value = parseDapValue(v.value);
+			}
+			if (isArray) items.push(value);
+			else out[v.name] = value;
+		}
+		return isArray ? items : out;
+	};
+
+	const value = await walk(variablesReference, 0);
+	return { value, truncated };
+}
@@ -0,0 +1,39 @@
+/**
+ * Compact Delve's value strings into the same shape dbg uses for JS values
+ * (`Array(3) [...]`, `Map(2) {...}`):
+ *
+ * - `[]int len: 3, cap: 10, [1,2,3]`      → `[]int(3) [1,2,3]`
+ * - `map[string]int ["a": 1, "b": 2, ]`   → `map[string]int {"a": 1, "b": 2}`
+ * - `interface {}(string) "hi"`           → `"hi"` (type: string)
+ * - `error(*errors.errorString) *{s: "x"}` → `*errors.errorString {s: "x"}`
+ * - `*main.User nil`                      → `nil`
+ *
+ * Anything else is returned unchanged.
+ */
+export function formatGoValue(value: string, type?: string): { value: string; type?: string } {
+	const slice = /^(\[\]\S+) len: (\d+), cap: \d+, ([\s\S]*)$/.exec(value);
+	if (slice) {
+		return { value: `${slice[1]}(${slice[2]}) ${slice[3]}`, type };
+	}
+
+	const map = /^(map\[\S+\]\S+) \[([\s\S]*?)(?:, )?\]$/.exec(value);
+	if (map) {
+		return { value: `${map[1]} {${map[2]}}`, type };
+	}
+
+	const iface = /^(interface \{\}|any|error|[\w./]+)\(([^()]+)\) ([\s\S]+)$/.exec(value);
+	if (iface?.[2] && iface[3]) {
+		const dynamicType = iface[2];
+		const inner = formatGoValue(iface[3], dynamicType).value;
+		// Delve shows a struct behind a pointer as *{...}
+		const struct = inner.startsWith("*{") ? inner.slice(1) : inner;
+		const display = struct.startsWith("{") ? `${dynamicType} ${struct}` : inner;
+		return { value: display, type: dynamicType };
+	}
+
+	if (/^\*\S+ nil$/.test(value)) {
+		return { value: "nil", type };
+	}
+
+	return { value, type };
+}
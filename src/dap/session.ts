@@ -1,11 +1,33 @@
-import { existsSync } from "node:fs";
+import { existsSync, statSync } from "node:fs";
 import { join } from "node:path";
 import type { DebugProtocol } from "@vscode/debugprotocol";
-import { INITIALIZED_TIMEOUT_MS } from "../constants.ts";
+import type { Subprocess } from "bun";
+import {
+	DISASM_COUNT_DEFAULT,
+	INITIALIZED_TIMEOUT_MS,
+	MEMORY_READ_COUNT_DEFAULT,
+} from "../constants.ts";
 import { BaseSession } from "../session/base-session.ts";
-import type { PendingConfig, SessionCapabilities, SourceMapAccess } from "../session/session.ts";
+import type {
+	BreakpointListItem,
+	DisassembledInstruction,
+	DumpResult,
+	MemoryReadResult,
+	PendingConfig,
+	RegisterGroup,
+	SessionCapabilities,
+	SourceMapAccess,
+	StepGranularity,
+	ThreadFrame,
+	ThreadInfo,
+	ThreadStack,
+	WatchpointAccess,
+	WatchpointResult,
+} from "../session/session.ts";
 import type { LaunchResult, SessionStatus, StateOptions, StateSnapshot } from "../session/types.ts";
 import { DapClient } from "./client.ts";
+import { type DapVariable, dumpVariables } from "./dump.ts";
+import { formatGoValue } from "./go-values.ts";
 
 /** Directory where managed adapter binaries are stored. */
 export function getManagedAdaptersDir(): string {
@@ -41,6 +63,13 @@ function resolveAdapterCommand(runtime: string): string[] {
 		}
 		case "codelldb":
 			return ["codelldb", "--port", "0"];
+		case "go":
+		case "dlv": {
+			// Delve only serves DAP over TCP; port 0 lets it pick a free one
+			const managedPath = join(getManagedAdaptersDir(), "dlv");
+			const dlv = existsSync(managedPath) ? managedPath : "dlv";
+			return [dlv, "dap", "--listen=127.0.0.1:0"];
+		}
 		case "python":
 		case "debugpy": {
 			// debugpy adapter runs as a Python module
@@ -55,6 +84,78 @@ function resolveAdapterCommand(runtime: string): string[] {
 	}
 }
 
+function isGoSource(program: string): boolean {
+	if (program.endsWith(".go")) return true;
+	try {
+		return statSync(program).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+/** Logpoint output as sent by the adapter in a console output event: "LP#3: <message>" */
+const LOGPOINT_OUTPUT_RE = /^(LP#\d+): ([\s\S]*)$/;
+
+/**
+ * Translate a `${expr}` template to the `{expr}` syntax of DAP logMessage.
+ * Adapters read every brace as an expression delimiter and have no common
+ * escape, so literal braces and braces inside expressions are rejected.
+ */
+export function toDapLogMessage(template: string): string {
+	let message = "";
+	let i = 0;
+	while (i < template.length) {
+		if (template.startsWith("${", i)) {
+			// Match the closing brace, counting nested ones: ${ {a: 1}.a }
+			let depth = 1;
+			let end = i + 2;
+			for (; end < template.length && depth > 0; end++) {
+				if (template[end] === "{") depth++;
+				else if (template[end] === "}") depth--;
+			}
+			if (depth > 0) {
+				throw new Error(`Unterminated \${ in logpoint template: ${template}`);
+			}
+			const expression = template.slice(i + 2, end - 1);
+			if (/[{}]/.test(expression)) {
+				throw new Error(
+					`Logpoint expressions cannot contain braces in DAP mode: \${${expression}}`,
+				);
+			}
+			message += `{${expression}}`;
+			i = end;
+			continue;
+		}
+		const char = template[i] as string;
+		if (char === "{" || char === "}") {
+			throw new Error(
+				`Logpoint templates cannot contain a literal "${char}" in DAP mode; the adapter would read it as an expression`,
+			);
+		}
+		message += char;
+		i++;
+	}
+	return message;
+}
+
+/** Ref metadata carrying a variable's memory reference, when the adapter reports one. */
+function memoryMeta(memoryReference: string | undefined): Record<string, unknown> | undefined {
+	return memoryReference ? { memoryReference } : undefined;
+}
+
+/** Numeric value of a DAP address or memory reference ("0x1f40" or "8000"). */
+function parseAddress(address: string): bigint | undefined {
+	try {
+		return BigInt(address);
+	} catch {
+		return undefined;
+	}
+}
+
+function isExhausted(entry: DapBreakpointEntry): boolean {
+	return entry.maxEmissions !== undefined && (entry.emissions ?? 0) >= entry.maxEmissions;
+}
+
 interface DapBreakpointEntry {
 	ref: string;
 	dapId?: number;
@@ -63,15 +164,45 @@ interface DapBreakpointEntry {
 	condition?: string;
 	hitCondition?: string;
 	verified: boolean;
+	/** Disabled entries keep their ref and settings but are not sent to the adapter */
+	enabled: boolean;
 	actualLine?: number;
+	/** Removed after its first hit */
+	once?: boolean;
+	/** Not sent to the adapter until this breakpoint ref is hit */
+	after?: string;
+	/** Logpoints (LP#): the user's `${expr}` template; logged instead of pausing */
+	template?: string;
+	maxEmissions?: number;
+	emissions?: number;
 }
 
 interface DapFunctionBreakpointEntry {
 	ref: string;
+	dapId?: number;
 	name: string;
 	condition?: string;
 	hitCondition?: string;
 	verified: boolean;
+	enabled: boolean;
+}
+
+interface DapDataBreakpointEntry {
+	ref: string;
+	dapId?: number;
+	/** Opaque id from dataBreakpointInfo */
+	dataId: string;
+	target: string;
+	access: WatchpointAccess;
+	verified: boolean;
+	enabled: boolean;
+}
+
+interface DapLaunchOptions {
+	brk?: boolean;
+	port?: number;
+	program?: string;
+	args?: string[];
 }
 
 interface DapStackFrame {
@@ -80,6 +211,7 @@ interface DapStackFrame {
 	file?: string;
 	line: number;
 	column: number;
+	instructionPointerReference?: string;
 }
 
 /**
@@ -90,27 +222,37 @@ interface DapStackFrame {
 export class DapSession extends BaseSession {
 	private dap: DapClient | null = null;
 	private _runtime: string;
-	private _threadId = 1; // Most adapters use thread 1; updated on "stopped" event
+	private _threadId = 1; // Most adapters use thread 1; updated on "stopped" event and by selectThread
+	/** Threads the last "stopped" event stopped; "all" when allThreadsStopped */
+	private stoppedThreads: Set<number> | "all" = new Set();
 	private _stackFrames: DapStackFrame[] = [];
 	private adapterCapabilities: DebugProtocol.Capabilities = {};
+	// Debuggee spawned on the adapter's behalf via the runInTerminal reverse request
+	private debuggeeProcess: Subprocess<"pipe", "pipe", "pipe"> | null = null;
 
 	// Breakpoints: DAP requires sending ALL breakpoints per file at once
 	private breakpoints = new Map<string, DapBreakpointEntry[]>();
 	private allBreakpoints: DapBreakpointEntry[] = [];
 	private functionBreakpoints: DapFunctionBreakpointEntry[] = [];
+	private dataBreakpoints: DapDataBreakpointEntry[] = [];
 
 	// Stored config (applied on launch/restart, and immediately if connected+paused)
 	private _remaps: [string, string][] = [];
 	private _symbolPaths: string[] = [];
+	// Last launch, replayed by restart
+	private launchCommand: string[] | null = null;
+	private launchOptions: DapLaunchOptions = {};
 
 	// Promise that resolves when the adapter stops (for step/continue/pause)
 	private stoppedWaiter: { resolve: () => void; reject: (e: Error) => void } | null = null;
 	// Deduplicates concurrent fetchStackTrace calls
 	private _stackFetchPromise: Promise<void> | null = null;
+	// Set when a breakpoint stop did not say which breakpoint hit; resolved from the top frame
+	private unattributedBreakpointStop = false;
 
 	readonly capabilities: SessionCapabilities = {
 		functionBreakpoints: true,
-		logpoints: false,
+		logpoints: true,
 		hotpatch: false,
 		blackboxing: false,
 		modules: true,
@@ -121,8 +263,16 @@ export class DapSession extends BaseSession {
 		setReturnValue: false,
 		pathMapping: true,
 		symbolLoading: true,
-		breakpointToggle: false,
-		restart: false,
+		breakpointToggle: true,
+		restart: true,
+		heapSnapshots: false,
+		cpuProfiling: false,
+		coverage: false,
+		breakpointCapture: false,
+		watchpoints: true,
+		threads: true,
+		disassembly: true,
+		memory: true,
 	};
 
 	constructor(session: string, runtime: string) {
@@ -141,51 +291,30 @@ export class DapSession extends BaseSession {
 
 	// ── Lifecycle ─────────────────────────────────────────────────────
 
-	async launch(
-		command: string[],
-		options: { brk?: boolean; port?: number; program?: string; args?: string[] } = {},
-	): Promise<LaunchResult> {
+	async launch(command: string[], options: DapLaunchOptions = {}): Promise<LaunchResult> {
 		if (this.state !== "idle") {
 			throw new Error("Session already has an active debug target");
 		}
+		this.launchCommand = command;
+		this.launchOptions = options;
 
-		const adapterCmd = resolveAdapterCommand(this._runtime);
-		this.dap = DapClient.spawn(adapterCmd);
+		this.dap = await this.spawnAdapter();
 
 		this.setupEventHandlers();
 		await this.initializeAdapter();
 
-		// Build launch arguments. The exact schema depends on the adapter.
-		const program = options.program ?? command[0];
-		const programArgs = options.args ?? command.slice(1);
-		const launchArgs: Record<string, unknown> = {
-			program,
-			args: programArgs,
-			stopOnEntry: options.brk ?? true,
-			cwd: process.cwd(),
-		};
-
-		// Apply stored source-map remappings
-		if (this._remaps.length > 0) {
-			launchArgs.sourceMap = this._remaps.map(([from, to]) => [from, to]);
-		}
-
-		// Apply stored symbol paths as pre-run commands
-		if (this._symbolPaths.length > 0) {
-			launchArgs.preRunCommands = this._symbolPaths.map((p) => `add-dsym ${p}`);
-		}
-
-		// Runtime-specific launch arguments
-		if (this._runtime === "python" || this._runtime === "debugpy") {
-			launchArgs.console = "internalConsole";
-			launchArgs.justMyCode = false;
-		}
+		const launchArgs = this.buildLaunchArgs(command, options);
 
 		// DAP spec: some adapters (e.g. debugpy) defer the launch response until
 		// after configurationDone. Send launch without awaiting, wait for the
 		// "initialized" event, then send configurationDone, then await launch.
 		const launchPromise = this.dap.send("launch", launchArgs);
 		await this.waitForInitialized();
+		const entryBreakpoint = this.isGo() && options.brk !== false;
+		await this.replayBreakpoints({ functionBreakpoints: !entryBreakpoint });
+		if (entryBreakpoint) {
+			await this.dap.send("setFunctionBreakpoints", { breakpoints: [{ name: "main.main" }] });
+		}
 		await this.dap.send("configurationDone");
 		await launchPromise;
 
@@ -193,6 +322,10 @@ export class DapSession extends BaseSession {
 		if (options.brk !== false) {
 			await this.waitForStop(5_000);
 		}
+		if (entryBreakpoint) {
+			// Replace the temporary main.main breakpoint with the user's set
+			await this.syncFunctionBreakpoints();
+		}
 
 		const result: LaunchResult = {
 			pid: this.dap.pid,
@@ -212,17 +345,23 @@ export class DapSession extends BaseSession {
 			throw new Error("Session already has an active debug target");
 		}
 
-		const adapterCmd = resolveAdapterCommand(this._runtime);
-		this.dap = DapClient.spawn(adapterCmd);
-
-		this.setupEventHandlers();
-		await this.initializeAdapter();
-
 		// Parse target: could be a PID or a process name
 		const pid = parseInt(target, 10);
-		const attachArgs: Record<string, unknown> = Number.isNaN(pid)
+		let attachArgs: Record<string, unknown> = Number.isNaN(pid)
 			? { program: target, waitFor: true }
 			: { pid };
+		if (this.isGo()) {
+			if (Number.isNaN(pid)) {
+				throw new Error(`Invalid attach target: "${target}". Delve attaches by process id.`);
+			}
+			attachArgs = { mode: "local", processId: pid };
+		}
+
+		this.launchCommand = null;
+		this.dap = await this.spawnAdapter();
+
+		this.setupEventHandlers();
+		await this.initializeAdapter();
 
 		const attachPromise = this.dap.send("attach", attachArgs);
 		await this.waitForInitialized();
@@ -255,21 +394,14 @@ export class DapSession extends BaseSession {
 	}
 
 	async stop(): Promise<void> {
-		if (this.dap) {
-			try {
-				await this.dap.send("disconnect", { terminateDebuggee: true });
-			} catch {
-				// Adapter may already be dead
-			}
-			this.dap.disconnect();
-			this.dap = null;
-		}
-
+		await this.disconnectAdapter();
 		this.resetState();
 		this._stackFrames = [];
+		this.stoppedThreads = new Set();
 		this.breakpoints.clear();
 		this.allBreakpoints = [];
 		this.functionBreakpoints = [];
+		this.dataBreakpoints = [];
 	}
 
 	// ── Execution control ─────────────────────────────────────────────
@@ -281,6 +413,7 @@ export class DapSession extends BaseSession {
 		this.state = "running";
 		this.pauseInfo = null;
 		this._stackFrames = [];
+		this.stoppedThreads = new Set();
 		this.refs.clearVolatile();
 
 		const waiter = this.createStoppedWaiter(30_000);
@@ -289,17 +422,27 @@ export class DapSession extends BaseSession {
 		if (this.isPaused()) await this.fetchStackTrace();
 	}
 
-	async step(mode: "over" | "into" | "out"): Promise<void> {
+	async step(
+		mode: "over" | "into" | "out",
+		options: { granularity?: StepGranularity } = {},
+	): Promise<void> {
 		this.requireConnected();
 		this.requirePaused();
+		const granularity = options.granularity ?? "line";
+		if (granularity === "instruction" && !this.adapterCapabilities.supportsSteppingGranularity) {
+			throw new Error(`The ${this._runtime} adapter does not support instruction stepping`);
+		}
 
 		this.state = "running";
 		this.pauseInfo = null;
+		this.stoppedThreads = new Set();
 		this.refs.clearVolatile();
 
 		const waiter = this.createStoppedWaiter(30_000);
 		const command = mode === "into" ? "stepIn" : mode === "out" ? "stepOut" : "next";
-		await this.getDap().send(command, { threadId: this._threadId });
+		const args: Record<string, unknown> = { threadId: this._threadId };
+		if (granularity === "instruction") args.granularity = "instruction";
+		await this.getDap().send(command, args);
 		await waiter;
 		if (this.isPaused()) await this.fetchStackTrace();
 	}
@@ -321,10 +464,26 @@ export class DapSession extends BaseSession {
 	async setBreakpoint(
 		file: string,
 		line: number,
-		options?: { condition?: string; hitCount?: number; urlRegex?: string; column?: number },
+		options?: {
+			condition?: string;
+			hitCount?: number;
+			urlRegex?: string;
+			column?: number;
+			once?: boolean;
+			after?: string;
+		},
 	): Promise<{ ref: string; location: { url: string; line: number; column?: number } }> {
 		this.requireConnected();
 
+		const after = options?.after;
+		if (
+			after &&
+			!this.allBreakpoints.some((bp) => bp.ref === after) &&
+			!this.functionBreakpoints.some((bp) => bp.ref === after)
+		) {
+			throw new Error(`Unknown trigger breakpoint: ${after}`);
+		}
+
 		const entry: DapBreakpointEntry = {
 			ref: "", // will be set by RefTable
 			file,
@@ -332,16 +491,12 @@ export class DapSession extends BaseSession {
 			condition: options?.condition,
 			hitCondition: options?.hitCount ? String(options.hitCount) : undefined,
 			verified: false,
+			enabled: true,
+			once: options?.once || undefined,
+			after,
 		};
 
-		// Add to per-file tracking
-		let fileBreakpoints = this.breakpoints.get(file);
-		if (!fileBreakpoints) {
-			fileBreakpoints = [];
-			this.breakpoints.set(file, fileBreakpoints);
-		}
-		fileBreakpoints.push(entry);
-		this.allBreakpoints.push(entry);
+		this.trackFileBreakpoint(entry);
 
 		// Register ref
 		const ref = this.refs.addBreakpoint(`dap-bp:${file}:${line}`, {
@@ -364,6 +519,12 @@ export class DapSession extends BaseSession {
 
 		const entry = this.allBreakpoints.find((bp) => bp.ref === ref);
 		if (!entry) {
+			if (this.functionBreakpoints.some((bp) => bp.ref === ref)) {
+				return this.removeFunctionBreakpoint(ref);
+			}
+			if (this.dataBreakpoints.some((bp) => bp.ref === ref)) {
+				return this.removeDataBreakpoint(ref);
+			}
 			throw new Error(`Unknown breakpoint ref: ${ref}`);
 		}
 
@@ -396,9 +557,11 @@ export class DapSession extends BaseSession {
 		this.breakpoints.clear();
 		this.allBreakpoints = [];
 		this.functionBreakpoints = [];
+		const hadDataBreakpoints = this.dataBreakpoints.length > 0;
+		this.dataBreakpoints = [];
 
-		// Remove all BP refs
-		for (const entry of this.refs.list("BP")) {
+		// Remove all BP and LP refs
+		for (const entry of [...this.refs.list("BP"), ...this.refs.list("LP")]) {
 			this.refs.remove(entry.ref);
 		}
 
@@ -412,21 +575,24 @@ export class DapSession extends BaseSession {
 
 		// Clear function breakpoints
 		await this.getDap().send("setFunctionBreakpoints", { breakpoints: [] });
+		if (hadDataBreakpoints) {
+			await this.getDap().send("setDataBreakpoints", { breakpoints: [] });
+		}
 	}
 
-	listBreakpoints(): Array<{
-		ref: string;
-		type: "BP" | "LP";
-		url: string;
-		line: number;
-		condition?: string;
-	}> {
+	listBreakpoints(): BreakpointListItem[] {
 		const fileBps = this.allBreakpoints.map((bp) => ({
 			ref: bp.ref,
-			type: "BP" as const,
+			type: bp.template !== undefined ? ("LP" as const) : ("BP" as const),
 			url: bp.file,
 			line: bp.actualLine ?? bp.line,
 			condition: bp.condition,
+			hitCount: bp.hitCondition ? Number(bp.hitCondition) : undefined,
+			once: bp.once,
+			after: bp.after,
+			disabled: !bp.enabled || bp.after ? true : undefined,
+			template: bp.template,
+			maxEmissions: bp.maxEmissions,
 		}));
 		const fnBps = this.functionBreakpoints.map((bp) => ({
 			ref: bp.ref,
@@ -434,8 +600,20 @@ export class DapSession extends BaseSession {
 			url: bp.name,
 			line: 0,
 			condition: bp.condition,
+			hitCount: bp.hitCondition ? Number(bp.hitCondition) : undefined,
+			functionName: bp.name,
+			disabled: bp.enabled ? undefined : true,
 		}));
-		return [...fileBps, ...fnBps];
+		const dataBps = this.dataBreakpoints.map((bp) => ({
+			ref: bp.ref,
+			type: "BP" as const,
+			url: bp.target,
+			line: 0,
+			watchpoint: bp.target,
+			access: bp.access,
+			disabled: bp.enabled ? undefined : true,
+		}));
+		return this.withHitStats([...fileBps, ...fnBps, ...dataBps]);
 	}
 
 	/**
@@ -454,6 +632,7 @@ export class DapSession extends BaseSession {
 			condition: options?.condition,
 			hitCondition: options?.hitCount ? String(options.hitCount) : undefined,
 			verified: false,
+			enabled: true,
 		};
 
 		this.functionBreakpoints.push(entry);
@@ -482,7 +661,8 @@ export class DapSession extends BaseSession {
 	}
 
 	private async syncFunctionBreakpoints(): Promise<void> {
-		const dapBps = this.functionBreakpoints.map((bp) => ({
+		const entries = this.functionBreakpoints.filter((bp) => bp.enabled);
+		const dapBps = entries.map((bp) => ({
 			name: bp.name,
 			condition: bp.condition,
 			hitCondition: bp.hitCondition,
@@ -496,13 +676,203 @@ export class DapSession extends BaseSession {
 			| { breakpoints?: Array<{ id?: number; verified?: boolean }> }
 			| undefined;
 		const resultBps = body?.breakpoints ?? [];
-		for (let i = 0; i < this.functionBreakpoints.length; i++) {
-			const entry = this.functionBreakpoints[i];
+		for (let i = 0; i < entries.length; i++) {
+			const entry = entries[i];
+			const result = resultBps[i];
+			if (entry && result) {
+				entry.dapId = result.id;
+				entry.verified = result.verified ?? false;
+			}
+		}
+	}
+
+	/**
+	 * Watch a variable or member for reads and/or writes with data breakpoints.
+	 * `@v3.status` watches a child of a variable ref; anything else is passed to
+	 * the adapter as a name in the top frame (lldb-dap also accepts expressions).
+	 */
+	async setWatchpoint(
+		target: string,
+		options: { access?: WatchpointAccess } = {},
+	): Promise<WatchpointResult> {
+		this.requireConnected();
+
+		if (!this.adapterCapabilities.supportsDataBreakpoints) {
+			throw new Error(
+				"This debug adapter does not support data breakpoints.\n  -> Use a breakpoint on the code that writes the value instead.",
+			);
+		}
+		const access = options.access ?? "write";
+
+		const infoArgs: { name: string; variablesReference?: number; frameId?: number } = {
+			name: target,
+		};
+		const refMatch = /^(@v\d+)\.(.+)$/.exec(target);
+		if (refMatch?.[1] && refMatch[2]) {
+			const variablesReference = parseInt(this.refs.resolveId(refMatch[1]) ?? "", 10);
+			if (Number.isNaN(variablesReference) || variablesReference <= 0) {
+				throw new Error(`Cannot watch "${target}": ${refMatch[1]} has no members`);
+			}
+			infoArgs.variablesReference = variablesReference;
+			infoArgs.name = refMatch[2];
+		} else if (this.isPaused()) {
+			await this.ensureStack();
+			infoArgs.frameId = this.resolveFrameId();
+		}
+
+		const response = await this.getDap().send("dataBreakpointInfo", infoArgs);
+		const info = response.body as DebugProtocol.DataBreakpointInfoResponse["body"];
+		if (!info.dataId) {
+			throw new Error(`Cannot watch "${target}": ${info.description}`);
+		}
+		if (info.accessTypes && !info.accessTypes.includes(access)) {
+			throw new Error(
+				`Cannot watch "${target}" for ${access} access (supported: ${info.accessTypes.join(", ")})`,
+			);
+		}
+
+		const ref = this.refs.addBreakpoint(`dap-data:${info.dataId}`, { file: target, line: 0 });
+		this.dataBreakpoints.push({
+			ref,
+			dataId: info.dataId,
+			target,
+			access,
+			verified: false,
+			enabled: true,
+		});
+		let result: { verified?: boolean; message?: string } | undefined;
+		try {
+			result = (await this.syncDataBreakpoints()).at(-1);
+		} catch (err) {
+			this.dataBreakpoints.pop();
+			this.refs.remove(ref);
+			throw err;
+		}
+		// Hardware watchpoints are a scarce resource; the adapter may refuse one
+		if (result && result.verified === false) {
+			await this.removeDataBreakpoint(ref);
+			throw new Error(
+				`Cannot watch "${target}": ${result.message ?? "rejected by the debug adapter"}`,
+			);
+		}
+		return { ref, target, access, description: info.description };
+	}
+
+	private async removeDataBreakpoint(ref: string): Promise<void> {
+		const idx = this.dataBreakpoints.findIndex((bp) => bp.ref === ref);
+		if (idx === -1) {
+			throw new Error(`Unknown watchpoint ref: ${ref}`);
+		}
+
+		this.dataBreakpoints.splice(idx, 1);
+		this.refs.remove(ref);
+		await this.syncDataBreakpoints();
+	}
+
+	/** setDataBreakpoints replaces the full set, like setFunctionBreakpoints. */
+	private async syncDataBreakpoints(): Promise<Array<{ verified?: boolean; message?: string }>> {
+		const entries = this.dataBreakpoints.filter((bp) => bp.enabled);
+		const response = await this.getDap().send("setDataBreakpoints", {
+			breakpoints: entries.map((bp) => ({
+				dataId: bp.dataId,
+				accessType: bp.access,
+			})),
+		});
+
+		const body = response.body as
+			| { breakpoints?: Array<{ id?: number; verified?: boolean; message?: string }> }
+			| undefined;
+		const resultBps = body?.breakpoints ?? [];
+		for (let i = 0; i < entries.length; i++) {
+			const entry = entries[i];
 			const result = resultBps[i];
 			if (entry && result) {
+				entry.dapId = result.id;
 				entry.verified = result.verified ?? false;
 			}
 		}
+		return resultBps;
+	}
+
+	/**
+	 * Set a logpoint via SourceBreakpoint.logMessage. The adapter prints the
+	 * message as an "output" event, prefixed with the LP ref so it can be
+	 * told apart from program output.
+	 */
+	async setLogpoint(
+		file: string,
+		line: number,
+		template: string,
+		options?: { condition?: string; maxEmissions?: number },
+	): Promise<{ ref: string; location: { url: string; line: number; column?: number } }> {
+		this.requireConnected();
+
+		if (!this.adapterCapabilities.supportsLogPoints) {
+			throw new Error(
+				"This debug adapter does not support logpoints.\n  -> Use a breakpoint and eval instead.",
+			);
+		}
+		// Reject untranslatable templates before the logpoint is tracked
+		toDapLogMessage(template);
+
+		const entry: DapBreakpointEntry = {
+			ref: "",
+			file,
+			line,
+			condition: options?.condition,
+			verified: false,
+			enabled: true,
+			template,
+			maxEmissions: options?.maxEmissions,
+			emissions: 0,
+		};
+		this.trackFileBreakpoint(entry);
+		entry.ref = this.refs.addLogpoint(`dap-lp:${file}:${line}`, { file, line, template });
+
+		await this.syncFileBreakpoints(file);
+
+		return {
+			ref: entry.ref,
+			location: { url: file, line: entry.actualLine ?? line },
+		};
+	}
+
+	/**
+	 * Enable or disable a breakpoint, logpoint or watchpoint, keeping its ref
+	 * and settings. "all" disables everything if anything is active, and
+	 * otherwise enables everything.
+	 */
+	async toggleBreakpoint(ref: string): Promise<{ ref: string; state: "enabled" | "disabled" }> {
+		this.requireConnected();
+
+		if (ref === "all") {
+			const entries = [
+				...this.allBreakpoints,
+				...this.functionBreakpoints,
+				...this.dataBreakpoints,
+			];
+			const enable = !entries.some((bp) => bp.enabled && !("after" in bp && bp.after));
+			for (const bp of entries) bp.enabled = enable;
+			for (const file of this.breakpoints.keys()) {
+				await this.syncFileBreakpoints(file);
+			}
+			if (this.functionBreakpoints.length > 0) await this.syncFunctionBreakpoints();
+			if (this.dataBreakpoints.length > 0) await this.syncDataBreakpoints();
+			return { ref: "all", state: enable ? "enabled" : "disabled" };
+		}
+
+		const fileEntry = this.allBreakpoints.find((bp) => bp.ref === ref);
+		const fnEntry = this.functionBreakpoints.find((bp) => bp.ref === ref);
+		const dataEntry = this.dataBreakpoints.find((bp) => bp.ref === ref);
+		const entry = fileEntry ?? fnEntry ?? dataEntry;
+		if (!entry) {
+			throw new Error(`Unknown breakpoint ref: ${ref}`);
+		}
+		entry.enabled = !entry.enabled;
+		if (fileEntry) await this.syncFileBreakpoints(fileEntry.file);
+		else if (fnEntry) await this.syncFunctionBreakpoints();
+		else await this.syncDataBreakpoints();
+		return { ref, state: entry.enabled ? "enabled" : "disabled" };
 	}
 
 	// ── Inspection ────────────────────────────────────────────────────
@@ -527,16 +897,18 @@ export class DapSession extends BaseSession {
 			result: string;
 			type?: string;
 			variablesReference: number;
+			memoryReference?: string;
 		};
 
 		const remoteId =
 			body.variablesReference > 0 ? String(body.variablesReference) : `eval:${Date.now()}`;
-		const ref = this.refs.addVar(remoteId, expression);
+		const ref = this.refs.addVar(remoteId, expression, memoryMeta(body.memoryReference));
+		const display = this.displayValue(body.result, body.type);
 
 		return {
 			ref,
-			type: body.type ?? "unknown",
-			value: body.result,
+			type: display.type ?? "unknown",
+			value: display.value,
 			objectId: body.variablesReference > 0 ? String(body.variablesReference) : undefined,
 		};
 	}
@@ -577,6 +949,7 @@ export class DapSession extends BaseSession {
 						value: string;
 						type?: string;
 						variablesReference: number;
+						memoryReference?: string;
 					}>;
 				}
 			).variables;
@@ -586,12 +959,13 @@ export class DapSession extends BaseSession {
 
 				const remoteId =
 					v.variablesReference > 0 ? String(v.variablesReference) : `var:${v.name}:${Date.now()}`;
-				const ref = this.refs.addVar(remoteId, v.name);
+				const ref = this.refs.addVar(remoteId, v.name, memoryMeta(v.memoryReference));
+				const display = this.displayValue(v.value, v.type);
 				result.push({
 					ref,
 					name: v.name,
-					type: v.type ?? "unknown",
-					value: v.value,
+					type: display.type ?? "unknown",
+					value: display.value,
 				});
 			}
 		}
@@ -599,6 +973,28 @@ export class DapSession extends BaseSession {
 		return result;
 	}
 
+	async dumpObject(
+		ref: string,
+		options: { depth?: number; maxBytes?: number } = {},
+	): Promise<DumpResult> {
+		this.requireConnected();
+
+		const remoteId = this.refs.resolveId(ref);
+		if (!remoteId) {
+			throw new Error(`Unknown ref: ${ref}`);
+		}
+		const variablesReference = parseInt(remoteId, 10);
+		if (Number.isNaN(variablesReference) || variablesReference <= 0) {
+			throw new Error(`Ref ${ref} has no members; use dbg eval to read its value`);
+		}
+
+		const fetchVariables = async (reference: number) => {
+			const response = await this.getDap().send("variables", { variablesReference: reference });
+			return (response.body as { variables: DapVariable[] }).variables;
+		};
+		return dumpVariables(fetchVariables, variablesReference, options);
+	}
+
 	async getProps(
 		ref: string,
 		_options: { own?: boolean; internal?: boolean; depth?: number } = {},
@@ -631,6 +1027,7 @@ export class DapSession extends BaseSession {
 					value: string;
 					type?: string;
 					variablesReference: number;
+					memoryReference?: string;
 				}>;
 			}
 		).variables;
@@ -639,12 +1036,15 @@ export class DapSession extends BaseSession {
 			const childRemoteId =
 				v.variablesReference > 0 ? String(v.variablesReference) : `prop:${v.name}:${Date.now()}`;
 			const childRef =
-				v.variablesReference > 0 ? this.refs.addVar(childRemoteId, v.name) : undefined;
+				v.variablesReference > 0
+					? this.refs.addVar(childRemoteId, v.name, memoryMeta(v.memoryReference))
+					: undefined;
+			const display = this.displayValue(v.value, v.type);
 			return {
 				ref: childRef,
 				name: v.name,
-				type: v.type ?? "unknown",
-				value: v.value,
+				type: display.type ?? "unknown",
+				value: display.value,
 				isOwn: true,
 			};
 		});
@@ -658,16 +1058,7 @@ export class DapSession extends BaseSession {
 		column?: number;
 	}> {
 		// Return cached stack frames from last stopped event
-		const frames = this._stackFrames.map((frame) => {
-			const ref = this.refs.addFrame(String(frame.id), frame.name);
-			return {
-				ref,
-				functionName: frame.name,
-				file: frame.file ?? "<unknown>",
-				line: frame.line,
-				column: frame.column > 0 ? frame.column : undefined,
-			};
-		});
+		const frames = this._stackFrames.map((frame) => this.toThreadFrame(frame));
 
 		if (options.filter) {
 			const filterLower = options.filter.toLowerCase();
@@ -774,6 +1165,15 @@ export class DapSession extends BaseSession {
 			}
 		}
 
+		if (
+			this.state === "paused" &&
+			(options.vars !== false || !options.compact) &&
+			this.listWatches().length > 0
+		) {
+			snapshot.watches = await this.evaluateWatches(options.frame);
+		}
+		this.applyStateDiff(snapshot, options);
+
 		// Include stack if requested
 		if (this.state === "paused" && options.stack !== false) {
 			try {
@@ -792,17 +1192,6 @@ export class DapSession extends BaseSession {
 
 	// ── Unsupported methods (throw descriptive errors) ────────────────
 
-	async setLogpoint(
-		_file: string,
-		_line: number,
-		_template: string,
-		_options?: { condition?: string; maxEmissions?: number },
-	): Promise<{ ref: string; location: { url: string; line: number; column?: number } }> {
-		throw new Error(
-			"Logpoints are not supported in DAP mode. Use breakpoints with conditions instead.",
-		);
-	}
-
 	async setExceptionPause(mode: "all" | "uncaught" | "caught" | "none"): Promise<void> {
 		this.requireConnected();
 		// DAP supports exception breakpoints through setExceptionBreakpoints.
@@ -820,12 +1209,7 @@ export class DapSession extends BaseSession {
 			if (filters.length === 0) filters = filterIds; // fallback to all
 		}
 		await this.getDap().send("setExceptionBreakpoints", { filters });
-	}
-
-	async toggleBreakpoint(_ref: string): Promise<{ ref: string; state: "enabled" | "disabled" }> {
-		throw new Error(
-			"Breakpoint toggling is not yet supported in DAP mode. Use break-rm and break.",
-		);
+		this.exceptionPauseMode = mode;
 	}
 
 	async getBreakableLocations(
@@ -985,6 +1369,73 @@ export class DapSession extends BaseSession {
 		return [];
 	}
 
+	// ── Threads ───────────────────────────────────────────────────────
+
+	async listThreads(): Promise<ThreadInfo[]> {
+		this.requireConnected();
+		const response = await this.getDap().send("threads");
+		const { threads } = response.body as DebugProtocol.ThreadsResponse["body"];
+
+		const result: ThreadInfo[] = [];
+		for (const thread of threads) {
+			const info: ThreadInfo = {
+				id: thread.id,
+				// Delve marks its own current goroutine with "* "
+				name: this.isGo() ? thread.name.replace(/^\* /, "") : thread.name,
+				state: this.isThreadPaused(thread.id) ? "paused" : "running",
+				current: thread.id === this._threadId,
+			};
+			if (info.state === "paused") {
+				const top = await this.requestStackFrames(thread.id, 1).catch(() => []);
+				if (top[0]) info.frame = this.toThreadFrame(top[0]);
+			}
+			result.push(info);
+		}
+		return result;
+	}
+
+	async selectThread(id: number): Promise<ThreadInfo> {
+		this.requireConnected();
+		this.requirePaused();
+
+		const thread = (await this.listThreads()).find((t) => t.id === id);
+		if (!thread) {
+			throw new Error(`Unknown thread: ${id}`);
+		}
+		if (thread.state !== "paused") {
+			throw new Error(`Thread ${id} is running; only paused threads can be selected`);
+		}
+
+		this._threadId = id;
+		this._stackFrames = [];
+		this.refs.clearVolatile();
+		await this.fetchStackTrace();
+
+		const top = this._stackFrames[0];
+		return { ...thread, current: true, frame: top ? this.toThreadFrame(top) : undefined };
+	}
+
+	async getAllThreadStacks(): Promise<ThreadStack[]> {
+		this.requireConnected();
+		this.requirePaused();
+
+		const response = await this.getDap().send("threads");
+		const { threads } = response.body as DebugProtocol.ThreadsResponse["body"];
+
+		const stacks: ThreadStack[] = [];
+		for (const thread of threads) {
+			if (!this.isThreadPaused(thread.id)) continue;
+			const frames = await this.requestStackFrames(thread.id, 50).catch(() => []);
+			stacks.push({
+				id: thread.id,
+				name: thread.name,
+				current: thread.id === this._threadId,
+				frames: frames.map((frame) => this.toThreadFrame(frame)),
+			});
+		}
+		return stacks;
+	}
+
 	async getModules(
 		filter?: string,
 	): Promise<Array<{ id: string; name: string; path?: string; symbolStatus?: string }>> {
@@ -1040,8 +1491,45 @@ export class DapSession extends BaseSession {
 		throw new Error("Blackboxing is not supported in DAP mode.");
 	}
 
+	/**
+	 * Restart the debuggee with the same command, keeping breakpoint refs.
+	 * Uses the adapter's restart request when it has one; otherwise the
+	 * adapter is relaunched and the stored configuration replayed.
+	 * Watchpoints are dropped: their data ids belong to the old process.
+	 */
 	async restart(): Promise<LaunchResult> {
-		throw new Error("Restart is not yet supported in DAP mode. Use stop + launch.");
+		if (!this.launchCommand) {
+			throw new Error("No previous launch to restart. Use 'launch' first.");
+		}
+		const command = this.launchCommand;
+		const options = this.launchOptions;
+
+		await this.dropDataBreakpoints();
+		for (const bp of this.allBreakpoints) {
+			bp.verified = false;
+			bp.actualLine = undefined;
+			if (bp.emissions !== undefined) bp.emissions = 0;
+		}
+		for (const bp of this.functionBreakpoints) bp.verified = false;
+		this.resetDiffBaseline();
+
+		if (this.adapterCapabilities.supportsRestartRequest && this.dap?.connected) {
+			try {
+				return await this.restartInAdapter(command, options);
+			} catch {
+				// e.g. lldb-dap cannot restart a runInTerminal launch; relaunch instead
+			}
+		}
+
+		await this.disconnectAdapter();
+		this.state = "idle";
+		this.pauseInfo = null;
+		this._stackFrames = [];
+		this.stoppedThreads = new Set();
+		this.debuggeeStdin = null;
+		this.refs.clearVolatile();
+		this.refs.clearObjects();
+		return this.launch(command, options);
 	}
 
 	// Expose a no-op sourceMapResolver-like object so entry.ts doesn't crash
@@ -1054,8 +1542,308 @@ export class DapSession extends BaseSession {
 		};
 	}
 
+	/**
+	 * Disassemble from an address, or around a frame's instruction pointer
+	 * (a quarter of the instructions before it, the rest from it).
+	 */
+	async disassemble(
+		options: { frame?: string; count?: number; address?: string } = {},
+	): Promise<DisassembledInstruction[]> {
+		this.requireConnected();
+		if (!this.adapterCapabilities.supportsDisassembleRequest) {
+			throw new Error(`The ${this._runtime} adapter does not support disassembly`);
+		}
+		const count = options.count ?? DISASM_COUNT_DEFAULT;
+
+		// The current instruction is marked whenever the target is paused
+		let pc: string | undefined;
+		if (this.isPaused()) {
+			await this.ensureStack();
+			const frameId = this.resolveFrameId(options.frame);
+			pc = this._stackFrames.find((f) => f.id === frameId)?.instructionPointerReference;
+		}
+
+		let memoryReference = options.address;
+		let instructionOffset = 0;
+		if (!memoryReference) {
+			this.requirePaused();
+			if (!pc) {
+				throw new Error("The adapter reported no instruction pointer for this frame");
+			}
+			memoryReference = pc;
+			instructionOffset = -Math.floor(count / 4);
+		}
+
+		const response = await this.getDap().send("disassemble", {
+			memoryReference,
+			instructionOffset,
+			instructionCount: count,
+			resolveSymbols: true,
+		});
+		const body = response.body as DebugProtocol.DisassembleResponse["body"] | undefined;
+		const pcValue = pc !== undefined ? parseAddress(pc) : undefined;
+		return (body?.instructions ?? [])
+			.filter((ins) => ins.presentationHint !== "invalid")
+			.map((ins) => ({
+				address: ins.address,
+				instruction: ins.instruction,
+				bytes: ins.instructionBytes,
+				symbol: ins.symbol,
+				file: ins.location?.path ?? ins.location?.name,
+				line: ins.line,
+				current: pcValue !== undefined && parseAddress(ins.address) === pcValue,
+			}));
+	}
+
+	async readMemory(target: string, options: { count?: number } = {}): Promise<MemoryReadResult> {
+		this.requireConnected();
+		if (!this.adapterCapabilities.supportsReadMemoryRequest) {
+			throw new Error(`The ${this._runtime} adapter does not support reading memory`);
+		}
+
+		const response = await this.getDap().send("readMemory", {
+			memoryReference: this.resolveMemoryReference(target),
+			count: options.count ?? MEMORY_READ_COUNT_DEFAULT,
+		});
+		const body = response.body as DebugProtocol.ReadMemoryResponse["body"] | undefined;
+		if (!body) {
+			throw new Error(`Memory at ${target} is not readable`);
+		}
+		return {
+			address: body.address,
+			data: Buffer.from(body.data ?? "", "base64").toString("hex"),
+			unreadableBytes: body.unreadableBytes || undefined,
+		};
+	}
+
+	async writeMemory(
+		address: string,
+		data: string,
+	): Promise<{ address: string; bytesWritten: number }> {
+		this.requireConnected();
+		if (!this.adapterCapabilities.supportsWriteMemoryRequest) {
+			throw new Error(`The ${this._runtime} adapter does not support writing memory`);
+		}
+		const hex = data.replace(/\s+/g, "").replace(/^0x/i, "");
+		if (hex.length === 0 || !/^([0-9a-f]{2})+$/i.test(hex)) {
+			throw new Error(`Invalid hex data: "${data}". Expected byte pairs, e.g. 2a00ff`);
+		}
+		const bytes = Buffer.from(hex, "hex");
+
+		const response = await this.getDap().send("writeMemory", {
+			memoryReference: this.resolveMemoryReference(address),
+			data: bytes.toString("base64"),
+		});
+		const body = response.body as DebugProtocol.WriteMemoryResponse["body"] | undefined;
+		// Values shown so far may be stale now
+		this.refs.clearVolatile();
+		return { address, bytesWritten: body?.bytesWritten ?? bytes.length };
+	}
+
+	/**
+	 * The frame's "Registers" scope. lldb-dap nests registers in groups
+	 * (General Purpose Registers, ...); flat scopes become one group.
+	 */
+	async getRegisters(options: { frame?: string } = {}): Promise<RegisterGroup[]> {
+		this.requireConnected();
+		this.requirePaused();
+		await this.ensureStack();
+
+		const frameId = this.resolveFrameId(options.frame);
+		const scopesResponse = await this.getDap().send("scopes", { frameId });
+		const scopes = (scopesResponse.body as { scopes: DebugProtocol.Scope[] }).scopes;
+		const scope = scopes.find(
+			(s) => s.presentationHint === "registers" || /^registers$/i.test(s.name),
+		);
+		if (!scope) {
+			throw new Error(`The ${this._runtime} adapter reports no registers for this frame`);
+		}
+
+		const fetchVariables = async (reference: number) => {
+			const response = await this.getDap().send("variables", { variablesReference: reference });
+			return (response.body as { variables: DebugProtocol.Variable[] }).variables;
+		};
+		const groups: RegisterGroup[] = [];
+		const ungrouped: RegisterGroup = { name: scope.name, registers: [] };
+		for (const v of await fetchVariables(scope.variablesReference)) {
+			// Flag registers (e.g. rflags) also have children; only groups lack a value
+			if (v.variablesReference > 0 && !v.value) {
+				const registers = (await fetchVariables(v.variablesReference)).map((r) => ({
+					name: r.name,
+					value: r.value,
+				}));
+				groups.push({ name: v.name, registers });
+			} else {
+				ungrouped.registers.push({ name: v.name, value: v.value });
+			}
+		}
+		if (ungrouped.registers.length > 0) groups.unshift(ungrouped);
+		return groups;
+	}
+
 	// ── Private helpers ───────────────────────────────────────────────
 
+	/** A memory reference from an address, or from the variable behind a @ref. */
+	private resolveMemoryReference(target: string): string {
+		if (target.startsWith("@")) {
+			const entry = this.refs.resolve(target);
+			if (!entry) {
+				throw new Error(`Unknown ref: ${target}`);
+			}
+			const memoryReference = entry.meta?.memoryReference;
+			if (typeof memoryReference !== "string") {
+				throw new Error(`Ref ${target} has no memory reference; pass an address instead`);
+			}
+			return memoryReference;
+		}
+		if (!/^(0x[0-9a-f]+|\d+)$/i.test(target)) {
+			throw new Error(`Invalid address: "${target}". Use a number such as 0x7ffee4c8 or a @ref`);
+		}
+		return target;
+	}
+
+	/**
+	 * Launch arguments for the adapter, from the command and the current
+	 * remaps and symbol paths. The exact schema depends on the adapter.
+	 */
+	private buildLaunchArgs(command: string[], options: DapLaunchOptions): Record<string, unknown> {
+		const program = options.program ?? command[0];
+		const programArgs = options.args ?? command.slice(1);
+		const launchArgs: Record<string, unknown> = {
+			program,
+			args: programArgs,
+			stopOnEntry: options.brk ?? true,
+			cwd: process.cwd(),
+		};
+
+		// Apply stored source-map remappings
+		if (this._remaps.length > 0) {
+			launchArgs.sourceMap = this._remaps.map(([from, to]) => [from, to]);
+		}
+
+		// Apply stored symbol paths as pre-run commands
+		if (this._symbolPaths.length > 0) {
+			launchArgs.preRunCommands = this._symbolPaths.map((p) => `add-dsym ${p}`);
+		}
+
+		// Runtime-specific launch arguments. Where supported, ask the adapter to
+		// hand process creation back to us (runInTerminal) so we own its stdio.
+		if (this._runtime === "lldb" || this._runtime === "lldb-dap") {
+			launchArgs.runInTerminal = true;
+		}
+		if (this._runtime === "python" || this._runtime === "debugpy") {
+			launchArgs.console = "integratedTerminal";
+			launchArgs.justMyCode = false;
+		}
+		if (this.isGo()) {
+			// A .go file or package directory is built by dlv; anything else is a binary
+			launchArgs.mode = isGoSource(String(program)) ? "debug" : "exec";
+			// Send the program's output as "output" events instead of dlv's own stdout
+			launchArgs.outputMode = "remote";
+			// dlv's stopOnEntry stops in the runtime bootstrap; stop at main.main instead
+			launchArgs.stopOnEntry = false;
+		}
+
+		return launchArgs;
+	}
+
+	/** Send the DAP restart request; the adapter keeps its breakpoints. */
+	private async restartInAdapter(
+		command: string[],
+		options: DapLaunchOptions,
+	): Promise<LaunchResult> {
+		this.state = "running";
+		this.pauseInfo = null;
+		this._stackFrames = [];
+		this.stoppedThreads = new Set();
+		this.refs.clearVolatile();
+		this.refs.clearObjects();
+
+		// Remaps and symbol paths may have changed since the launch
+		const launchArgs = this.buildLaunchArgs(command, options);
+		await this.getDap().send("restart", { arguments: launchArgs });
+		if (options.brk !== false) {
+			await this.waitForStop(5_000).catch(() => {
+				// The adapter may resume without a new entry stop
+			});
+		}
+
+		const result: LaunchResult = {
+			pid: this.getDap().pid,
+			wsUrl: `dap://${this._runtime}`,
+			paused: this.isPaused(),
+		};
+		if (this.pauseInfo) {
+			result.pauseInfo = this.pauseInfo;
+		}
+		return result;
+	}
+
+	/**
+	 * Send the stored breakpoints and exception filters to a freshly
+	 * launched adapter, before configurationDone.
+	 */
+	private async replayBreakpoints(options: { functionBreakpoints: boolean }): Promise<void> {
+		for (const file of this.breakpoints.keys()) {
+			await this.syncFileBreakpoints(file);
+		}
+		if (options.functionBreakpoints && this.functionBreakpoints.length > 0) {
+			await this.syncFunctionBreakpoints();
+		}
+		if (this.exceptionPauseMode !== "none") {
+			await this.setExceptionPause(this.exceptionPauseMode);
+		}
+	}
+
+	private async dropDataBreakpoints(): Promise<void> {
+		if (this.dataBreakpoints.length === 0) return;
+		for (const bp of this.dataBreakpoints) {
+			this.refs.remove(bp.ref);
+		}
+		this.dataBreakpoints = [];
+		if (this.dap?.connected) {
+			await this.syncDataBreakpoints().catch(() => {
+				// The adapter drops them with the process anyway
+			});
+		}
+	}
+
+	/** Disconnect from the adapter, terminating the debuggee. */
+	private async disconnectAdapter(): Promise<void> {
+		if (this.dap) {
+			try {
+				await this.dap.send("disconnect", { terminateDebuggee: true });
+			} catch {
+				// Adapter may already be dead
+			}
+			this.dap.disconnect();
+			this.dap = null;
+		}
+
+		if (this.debuggeeProcess) {
+			try {
+				this.debuggeeProcess.kill();
+			} catch {
+				// Process may already be dead
+			}
+			this.debuggeeProcess = null;
+		}
+	}
+
+	private isGo(): boolean {
+		return this._runtime === "go" || this._runtime === "dlv";
+	}
+
+	/** Adapter value strings as shown to the user; Delve's are compacted. */
+	private displayValue(value: string, type?: string): { value: string; type?: string } {
+		return this.isGo() ? formatGoValue(value, type) : { value, type };
+	}
+
+	private async spawnAdapter(): Promise<DapClient> {
+		const command = resolveAdapterCommand(this._runtime);
+		return this.isGo() ? DapClient.spawnTcp(command) : DapClient.spawn(command);
+	}
+
 	/** Ensure stack frames are loaded if we're paused. */
 	private async ensureStack(): Promise<void> {
 		if (this.isPaused() && this._stackFrames.length === 0) {
@@ -1090,6 +1878,8 @@ export class DapSession extends BaseSession {
 			columnsStartAt1: true,
 			pathFormat: "path",
 			supportsVariableType: true,
+			supportsRunInTerminalRequest: true,
+			supportsMemoryReferences: true,
 		});
 
 		this.adapterCapabilities = (response.body ?? {}) as DebugProtocol.Capabilities;
@@ -1098,6 +1888,8 @@ export class DapSession extends BaseSession {
 	private setupEventHandlers(): void {
 		const dap = this.getDap();
 
+		dap.onRequest("runInTerminal", (body: unknown) => this.runInTerminal(body));
+
 		dap.on("stopped", (body: unknown) => {
 			const event = body as {
 				reason: string;
@@ -1105,16 +1897,35 @@ export class DapSession extends BaseSession {
 				description?: string;
 				text?: string;
 				allThreadsStopped?: boolean;
+				hitBreakpointIds?: number[];
 			};
 
+			if (event.hitBreakpointIds?.length) {
+				for (const id of event.hitBreakpointIds) {
+					const entry =
+						this.allBreakpoints.find((bp) => bp.dapId === id) ??
+						this.functionBreakpoints.find((bp) => bp.dapId === id) ??
+						this.dataBreakpoints.find((bp) => bp.dapId === id);
+					if (entry) this.onBreakpointHit(entry.ref);
+				}
+			} else {
+				this.unattributedBreakpointStop = event.reason === "breakpoint";
+			}
+
 			this.state = "paused";
 			if (event.threadId !== undefined) {
 				this._threadId = event.threadId;
 			}
+			if (event.allThreadsStopped) {
+				this.stoppedThreads = "all";
+			} else if (event.threadId !== undefined && this.stoppedThreads !== "all") {
+				this.stoppedThreads.add(event.threadId);
+			}
 
 			this.pauseInfo = {
 				reason: event.reason,
 			};
+			this.emitEvent({ type: "pause", reason: event.reason });
 
 			if (this.stoppedWaiter) {
 				// Waiter exists: caller (continue/step/pause) will fetch stack after resolve
@@ -1130,10 +1941,13 @@ export class DapSession extends BaseSession {
 			this.state = "running";
 			this.pauseInfo = null;
 			this._stackFrames = [];
+			this.stoppedThreads = new Set();
 			this.refs.clearVolatile();
+			this.emitEvent({ type: "resume" });
 		});
 
 		dap.on("terminated", (_body: unknown) => {
+			const wasIdle = this.state === "idle";
 			this.state = "idle";
 			this.pauseInfo = null;
 			this._stackFrames = [];
@@ -1141,14 +1955,35 @@ export class DapSession extends BaseSession {
 			// Resolve any waiting promise
 			this.stoppedWaiter?.resolve();
 			this.stoppedWaiter = null;
+			if (!wasIdle) this.emitEvent({ type: "exit" });
 		});
 
 		dap.on("exited", (_body: unknown) => {
+			const wasIdle = this.state === "idle";
 			this.state = "idle";
 			this.pauseInfo = null;
 
 			this.stoppedWaiter?.resolve();
 			this.stoppedWaiter = null;
+			if (!wasIdle) this.emitEvent({ type: "exit" });
+		});
+
+		dap.on("breakpoint", (body: unknown) => {
+			const { breakpoint } = body as DebugProtocol.BreakpointEvent["body"];
+			if (breakpoint.verified && breakpoint.source?.path && breakpoint.line !== undefined) {
+				this.emitEvent({
+					type: "breakpointResolved",
+					url: breakpoint.source.path,
+					line: breakpoint.line,
+				});
+			}
+		});
+
+		dap.on("loadedSource", (body: unknown) => {
+			const { reason, source } = body as DebugProtocol.LoadedSourceEvent["body"];
+			if (reason === "new" && source.path) {
+				this.emitEvent({ type: "scriptParsed", url: source.path });
+			}
 		});
 
 		dap.on("output", (body: unknown) => {
@@ -1160,6 +1995,14 @@ export class DapSession extends BaseSession {
 			};
 
 			const category = event.category ?? "console";
+			// The program's own output may start with "LP#n: " too
+			const logpoint = category === "console" ? LOGPOINT_OUTPUT_RE.exec(event.output) : null;
+			if (logpoint?.[1] && this.onLogpointOutput(logpoint[1], logpoint[2] ?? "")) {
+				return;
+			}
+			if (category === "stdout" || category === "stderr") {
+				this.pushOutput(category, event.output);
+			}
 			if (category === "stdout" || category === "console") {
 				this.pushConsoleMessage({
 					timestamp: Date.now(),
@@ -1180,6 +2023,75 @@ export class DapSession extends BaseSession {
 		});
 	}
 
+	/**
+	 * Record a logpoint message. Returns false if the ref is not one of our
+	 * logpoints, so the output is treated as regular program output.
+	 */
+	private onLogpointOutput(ref: string, text: string): boolean {
+		const entry = this.allBreakpoints.find((bp) => bp.ref === ref && bp.template !== undefined);
+		if (!entry) return false;
+		// Messages already in flight when the limit was reached are dropped
+		if (isExhausted(entry)) return true;
+
+		entry.emissions = (entry.emissions ?? 0) + 1;
+		this.onBreakpointHit(ref);
+		this.pushConsoleMessage({
+			timestamp: Date.now(),
+			level: "log",
+			text: text.trimEnd(),
+			url: entry.file,
+			line: entry.actualLine ?? entry.line,
+			logpoint: ref,
+		});
+		if (isExhausted(entry)) {
+			this.syncFileBreakpoints(entry.file).catch(() => {
+				// Adapter may have gone away
+			});
+		}
+		return true;
+	}
+
+	/**
+	 * Spawn the debuggee for the adapter (DAP runInTerminal reverse request)
+	 * with piped stdio, so `dbg input` and `dbg output` work as they do for CDP.
+	 */
+	private runInTerminal(body: unknown): { processId: number } {
+		const request = body as DebugProtocol.RunInTerminalRequestArguments;
+		const env: Record<string, string | undefined> = { ...process.env };
+		for (const [key, value] of Object.entries(request.env ?? {})) {
+			if (value === null) delete env[key];
+			else env[key] = value;
+		}
+
+		const proc = Bun.spawn(request.args, {
+			cwd: request.cwd || undefined,
+			env,
+			stdin: "pipe",
+			stdout: "pipe",
+			stderr: "pipe",
+		});
+		this.debuggeeProcess = proc;
+		this.debuggeeStdin = proc.stdin;
+		proc.exited.then(() => {
+			if (this.debuggeeProcess !== proc) return;
+			this.debuggeeProcess = null;
+			this.debuggeeStdin = null;
+		});
+
+		// Output no longer arrives as "output" events, so mirror it into the console buffer
+		for (const stream of ["stdout", "stderr"] as const) {
+			this.pumpOutput(proc[stream].getReader(), stream, undefined, (text) => {
+				this.pushConsoleMessage({
+					timestamp: Date.now(),
+					level: stream === "stdout" ? "log" : "error",
+					text: text.trimEnd(),
+				});
+			});
+		}
+
+		return { processId: proc.pid };
+	}
+
 	private async fetchStackTrace(): Promise<void> {
 		// Deduplicate: if a fetch is already in progress, just await it
 		if (this._stackFetchPromise) {
@@ -1198,29 +2110,24 @@ export class DapSession extends BaseSession {
 		if (!this.dap || this.state !== "paused") return;
 
 		try {
-			const response = await this.dap.send("stackTrace", {
-				threadId: this._threadId,
-				startFrame: 0,
-				levels: 50,
-			});
-
-			const body = response.body as {
-				stackFrames: Array<{
-					id: number;
-					name: string;
-					source?: { path?: string; name?: string };
-					line: number;
-					column: number;
-				}>;
-			};
-
-			this._stackFrames = body.stackFrames.map((f) => ({
-				id: f.id,
-				name: f.name,
-				file: f.source?.path ?? f.source?.name,
-				line: f.line,
-				column: f.column,
-			}));
+			this._stackFrames = await this.requestStackFrames(this._threadId, 50);
+
+			if (this.unattributedBreakpointStop) {
+				this.unattributedBreakpointStop = false;
+				const file = this._stackFrames[0]?.file;
+				const line = this._stackFrames[0]?.line;
+				const entry = file
+					? this.allBreakpoints.find(
+							(bp) =>
+								bp.enabled &&
+								!bp.after &&
+								bp.template === undefined &&
+								(bp.actualLine ?? bp.line) === line &&
+								file.endsWith(bp.file),
+						)
+					: undefined;
+				if (entry) this.onBreakpointHit(entry.ref);
+			}
 
 			// Update pauseInfo with top-of-stack location
 			const topFrame = this._stackFrames[0];
@@ -1235,6 +2142,45 @@ export class DapSession extends BaseSession {
 		}
 	}
 
+	private async requestStackFrames(threadId: number, levels: number): Promise<DapStackFrame[]> {
+		const response = await this.getDap().send("stackTrace", { threadId, startFrame: 0, levels });
+		const body = response.body as {
+			stackFrames: Array<{
+				id: number;
+				name: string;
+				source?: { path?: string; name?: string };
+				line: number;
+				column: number;
+				instructionPointerReference?: string;
+			}>;
+		};
+		return body.stackFrames.map((f) => ({
+			id: f.id,
+			name: f.name,
+			file: f.source?.path ?? f.source?.name,
+			line: f.line,
+			column: f.column,
+			instructionPointerReference: f.instructionPointerReference,
+		}));
+	}
+
+	private isThreadPaused(id: number): boolean {
+		return (
+			this.isPaused() &&
+			(this.stoppedThreads === "all" || this.stoppedThreads.has(id) || id === this._threadId)
+		);
+	}
+
+	private toThreadFrame(frame: DapStackFrame): ThreadFrame {
+		return {
+			ref: this.refs.addFrame(String(frame.id), frame.name),
+			functionName: frame.name,
+			file: frame.file ?? "<unknown>",
+			line: frame.line,
+			column: frame.column > 0 ? frame.column : undefined,
+		};
+	}
+
 	private resolveFrameId(frameRef?: string): number {
 		if (!frameRef) {
 			// Default to top frame
@@ -1252,13 +2198,54 @@ export class DapSession extends BaseSession {
 		return parseInt(remoteId, 10);
 	}
 
+	/**
+	 * Record a hit, then apply its side effects: a one-shot breakpoint is
+	 * removed and breakpoints waiting for it are sent to the adapter.
+	 */
+	private onBreakpointHit(ref: string): void {
+		this.recordBreakpointHit(ref);
+		const files = new Set<string>();
+		const hit = this.allBreakpoints.find((bp) => bp.ref === ref);
+		if (hit?.once) {
+			this.allBreakpoints.splice(this.allBreakpoints.indexOf(hit), 1);
+			const fileBreakpoints = this.breakpoints.get(hit.file) ?? [];
+			fileBreakpoints.splice(fileBreakpoints.indexOf(hit), 1);
+			this.refs.remove(ref);
+			files.add(hit.file);
+		}
+		for (const bp of this.allBreakpoints) {
+			if (bp.after === ref) {
+				bp.after = undefined;
+				files.add(bp.file);
+			}
+		}
+		for (const file of files) {
+			this.syncFileBreakpoints(file).catch(() => {});
+		}
+	}
+
+	private trackFileBreakpoint(entry: DapBreakpointEntry): void {
+		let fileBreakpoints = this.breakpoints.get(entry.file);
+		if (!fileBreakpoints) {
+			fileBreakpoints = [];
+			this.breakpoints.set(entry.file, fileBreakpoints);
+		}
+		fileBreakpoints.push(entry);
+		this.allBreakpoints.push(entry);
+	}
+
 	private async syncFileBreakpoints(file: string): Promise<void> {
-		const entries = this.breakpoints.get(file) ?? [];
+		// Disabled breakpoints, breakpoints waiting for their trigger and
+		// logpoints that reached their emission limit are not sent
+		const entries = (this.breakpoints.get(file) ?? []).filter(
+			(bp) => bp.enabled && !bp.after && !isExhausted(bp),
+		);
 
 		const dapBreakpoints = entries.map((bp) => {
 			const sbp: Record<string, unknown> = { line: bp.line };
 			if (bp.condition) sbp.condition = bp.condition;
 			if (bp.hitCondition) sbp.hitCondition = bp.hitCondition;
+			if (bp.template !== undefined) sbp.logMessage = `${bp.ref}: ${toDapLogMessage(bp.template)}`;
 			return sbp;
 		});
 
@@ -0,0 +1,23 @@
+import type { BreakpointFileResult } from "../session/session.ts";
+import { shortPath } from "./path.ts";
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** One-line summary of a saved or loaded breakpoint file, plus any entries that failed. */
+export function formatBreakpointFile(
+	result: BreakpointFileResult,
+	action: "Saved" | "Loaded" | "Restored",
+): string {
+	const parts = [plural(result.breakpoints, "breakpoint"), plural(result.logpoints, "logpoint")];
+	if (result.functions > 0) parts.push(plural(result.functions, "function breakpoint"));
+	if (result.catch) parts.push(`catch ${result.catch}`);
+	if (result.blackbox > 0) parts.push(plural(result.blackbox, "blackbox pattern"));
+	const preposition = action === "Saved" ? "to" : "from";
+	const lines = [`${action} ${parts.join(", ")} ${preposition} ${shortPath(result.path)}`];
+	for (const error of result.errors) {
+		lines.push(`  ! ${error}`);
+	}
+	return lines.join("\n");
+}
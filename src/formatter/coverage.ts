@@ -0,0 +1,38 @@
+import type { CoverageFileResult } from "../profiling/coverage.ts";
+import { shortPath } from "./path.ts";
+
+/** Collapse sorted line numbers into ranges: [3,4,5,9] → "3-5, 9". */
+export function formatLineRanges(lines: number[]): string {
+	const parts: string[] = [];
+	let start = lines[0];
+	let prev = start;
+	for (let i = 1; i <= lines.length; i++) {
+		const line = lines[i];
+		if (line !== undefined && prev !== undefined && line === prev + 1) {
+			prev = line;
+			continue;
+		}
+		if (start !== undefined) parts.push(start === prev ? `${start}` : `${start}-${prev}`);
+		start = line;
+		prev = line;
+	}
+	return parts.join(", ");
+}
+
+export function formatCoverage(files: CoverageFileResult[]): string {
+	if (files.length === 0) return "  (no scripts covered)";
+	const rows = files.map((f) => ({
+		file: shortPath(f.url),
+		ratio: `${f.covered}/${f.lines}`,
+		percent: f.lines > 0 ? `${((f.covered / f.lines) * 100).toFixed(1)}%` : "-",
+		uncovered: f.uncovered,
+	}));
+	const fileWidth = Math.max(...rows.map((r) => r.file.length));
+	const ratioWidth = Math.max(...rows.map((r) => r.ratio.length));
+	return rows
+		.map((r) => {
+			const line = `  ${r.file.padEnd(fileWidth)}  ${r.ratio.padStart(ratioWidth)} lines  ${r.percent.padStart(6)}`;
+			return r.uncovered.length > 0 ? `${line}  uncovered: ${formatLineRanges(r.uncovered)}` : line;
+		})
+		.join("\n");
+}
@@ -0,0 +1,51 @@
+import { colorize } from "./color.ts";
+import { shortPath } from "./path.ts";
+
+export interface Instruction {
+	address: string;
+	instruction: string;
+	symbol?: string;
+	file?: string;
+	line?: number;
+	current: boolean;
+}
+
+export interface FormatDisassemblyOptions {
+	color?: boolean;
+}
+
+/**
+ * One line per instruction with its address and symbol; the current one is
+ * marked with →. A file:line header precedes each run of instructions that
+ * belong to the same source line.
+ */
+export function formatDisassembly(
+	instructions: Instruction[],
+	opts?: FormatDisassemblyOptions,
+): string {
+	const cc = colorize(opts?.color ?? false);
+	const addressWidth = Math.max(...instructions.map((ins) => ins.address.length));
+	const symbolWidth = Math.max(
+		...instructions.map((ins) => (ins.symbol ? ins.symbol.length + 2 : 0)),
+	);
+
+	const lines: string[] = [];
+	let location: string | undefined;
+	for (const ins of instructions) {
+		const insLocation = ins.file && ins.line ? `${shortPath(ins.file)}:${ins.line}` : undefined;
+		if (insLocation && insLocation !== location) {
+			lines.push(cc(insLocation, "gray"));
+		}
+		location = insLocation ?? location;
+
+		const marker = ins.current ? cc(" →", "brightYellow") : "  ";
+		const address = cc(ins.address.padEnd(addressWidth), "magenta");
+		const symbol =
+			symbolWidth > 0
+				? `  ${cc((ins.symbol ? `<${ins.symbol}>` : "").padEnd(symbolWidth), "cyan")}`
+				: "";
+		const text = ins.current ? cc(ins.instruction, "bold") : ins.instruction;
+		lines.push(`${marker} ${address}${symbol}  ${text}`);
+	}
+	return lines.join("\n");
+}
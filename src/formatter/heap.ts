@@ -0,0 +1,40 @@
+import type { HeapClassDiff, HeapClassSummary } from "../profiling/heap-snapshot.ts";
+
+export function formatBytes(bytes: number): string {
+	const abs = Math.abs(bytes);
+	if (abs < 1024) return `${bytes} B`;
+	if (abs < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function signed(text: string, value: number): string {
+	return value > 0 ? `+${text}` : text;
+}
+
+export function formatHeapSummary(classes: HeapClassSummary[]): string {
+	if (classes.length === 0) return "  (no objects)";
+	const nameWidth = Math.max(...classes.map((c) => c.name.length), 11);
+	const lines = [
+		`  ${"Constructor".padEnd(nameWidth)}  ${"Count".padStart(8)}  ${"Self".padStart(10)}  ${"Retained".padStart(10)}`,
+	];
+	for (const c of classes) {
+		lines.push(
+			`  ${c.name.padEnd(nameWidth)}  ${String(c.count).padStart(8)}  ${formatBytes(c.selfSize).padStart(10)}  ${formatBytes(c.retainedSize).padStart(10)}`,
+		);
+	}
+	return lines.join("\n");
+}
+
+export function formatHeapDiff(classes: HeapClassDiff[]): string {
+	if (classes.length === 0) return "  (no growth)";
+	const nameWidth = Math.max(...classes.map((c) => c.name.length), 11);
+	const lines = [
+		`  ${"Constructor".padEnd(nameWidth)}  ${"# New".padStart(8)}  ${"# Deleted".padStart(9)}  ${"# Delta".padStart(8)}  ${"Size Delta".padStart(11)}`,
+	];
+	for (const c of classes) {
+		lines.push(
+			`  ${c.name.padEnd(nameWidth)}  ${String(c.added).padStart(8)}  ${String(c.removed).padStart(9)}  ${signed(String(c.countDelta), c.countDelta).padStart(8)}  ${signed(formatBytes(c.sizeDelta), c.sizeDelta).padStart(11)}`,
+		);
+	}
+	return lines.join("\n");
+}
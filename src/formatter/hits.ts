@@ -0,0 +1,30 @@
+import type { BreakpointHitsResult } from "../session/session.ts";
+import { shortPath } from "./path.ts";
+import { formatTimestamp } from "./timestamp.ts";
+
+/** Recorded hits of a capture breakpoint, oldest first: locals, then the captured frames. */
+export function formatBreakpointHits(result: BreakpointHitsResult): string {
+	const shown = result.hits.length;
+	const header =
+		shown < result.total
+			? `${result.ref}: ${result.total} hits (showing last ${shown})`
+			: `${result.ref}: ${result.total} hit${result.total === 1 ? "" : "s"}`;
+	const lines = [header];
+	for (const hit of result.hits) {
+		const top = hit.stack[0];
+		const where = top
+			? ` ${top.functionName || "(anonymous)"} ${shortPath(top.file)}:${top.line}`
+			: "";
+		lines.push(`#${hit.hit} [${formatTimestamp(hit.timestamp)}]${where}`);
+		const nameWidth = Math.max(0, ...hit.vars.map((v) => v.name.length));
+		for (const v of hit.vars) {
+			lines.push(`  ${v.name.padEnd(nameWidth)}  ${v.value}`);
+		}
+		for (const frame of hit.stack.slice(1)) {
+			lines.push(
+				`  at ${frame.functionName || "(anonymous)"} ${shortPath(frame.file)}:${frame.line}`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
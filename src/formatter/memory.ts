@@ -0,0 +1,50 @@
+export type MemoryFormat = "hex" | "ascii" | "u32";
+
+const BYTES_PER_LINE: Record<MemoryFormat, number> = { hex: 16, ascii: 32, u32: 16 };
+
+/**
+ * Dump bytes read from `address`, one line per row with the row's address:
+ *
+ * - hex:   `0x1000  48 65 6c 6c 6f 00 ...  |Hello.|`
+ * - ascii: `0x1000  Hello.` (non-printable bytes as .)
+ * - u32:   `0x1000  0x0000002a 0x00000000` (little-endian words; a trailing
+ *          partial word is shown as bytes)
+ */
+export function formatMemory(address: string, bytes: Uint8Array, format: MemoryFormat): string {
+	const base = BigInt(address);
+	const digits = Math.max(address.replace(/^0x/i, "").length, 1);
+	const perLine = BYTES_PER_LINE[format];
+	const lines: string[] = [];
+
+	for (let offset = 0; offset < bytes.length; offset += perLine) {
+		const row = bytes.subarray(offset, offset + perLine);
+		const rowAddress = `0x${(base + BigInt(offset)).toString(16).padStart(digits, "0")}`;
+		lines.push(`${rowAddress}  ${formatRow(row, format, perLine)}`);
+	}
+	return lines.join("\n");
+}
+
+function formatRow(row: Uint8Array, format: MemoryFormat, perLine: number): string {
+	if (format === "ascii") return toAscii(row);
+
+	if (format === "u32") {
+		const words: string[] = [];
+		const view = new DataView(row.buffer, row.byteOffset, row.byteLength);
+		let i = 0;
+		for (; i + 4 <= row.length; i += 4) {
+			words.push(`0x${view.getUint32(i, true).toString(16).padStart(8, "0")}`);
+		}
+		return [...words, ...Array.from(row.subarray(i), toHexByte)].join(" ");
+	}
+
+	const hex = Array.from(row, toHexByte).join(" ");
+	return `${hex.padEnd(perLine * 3 - 1)}  |${toAscii(row)}|`;
+}
+
+function toHexByte(byte: number): string {
+	return byte.toString(16).padStart(2, "0");
+}
+
+function toAscii(row: Uint8Array): string {
+	return Array.from(row, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+}
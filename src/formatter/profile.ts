@@ -0,0 +1,28 @@
+import type { CpuFunctionSummary } from "../profiling/cpu-profile.ts";
+import { shortPath } from "./path.ts";
+
+function formatTime(ms: number, percent: number): string {
+	return `${ms.toFixed(1)}ms ${percent.toFixed(1).padStart(5)}%`;
+}
+
+export function formatCpuProfile(functions: CpuFunctionSummary[]): string {
+	if (functions.length === 0) return "  (no samples)";
+	const rows = functions.map((f) => ({
+		self: formatTime(f.selfTime, f.selfPercent),
+		total: formatTime(f.totalTime, f.totalPercent),
+		name: f.name,
+		location: f.url ? `${shortPath(f.url)}:${f.line}` : "",
+	}));
+	const selfWidth = Math.max(...rows.map((r) => r.self.length), 4);
+	const totalWidth = Math.max(...rows.map((r) => r.total.length), 5);
+	const nameWidth = Math.max(...rows.map((r) => r.name.length), 8);
+	const lines = [
+		`  ${"Self".padStart(selfWidth)}  ${"Total".padStart(totalWidth)}  ${"Function".padEnd(nameWidth)}  Location`,
+	];
+	for (const r of rows) {
+		lines.push(
+			`  ${r.self.padStart(selfWidth)}  ${r.total.padStart(totalWidth)}  ${r.name.padEnd(nameWidth)}  ${r.location}`.trimEnd(),
+		);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,25 @@
+export interface RegisterGroup {
+	name: string;
+	registers: Array<{ name: string; value: string }>;
+}
+
+/** Registers per line in the compact layout. */
+const COLUMNS = 4;
+
+/** A header per group, then `name value` pairs in aligned columns. */
+export function formatRegisters(groups: RegisterGroup[]): string {
+	return groups
+		.map((group) => {
+			const nameWidth = Math.max(...group.registers.map((r) => r.name.length));
+			const valueWidth = Math.max(...group.registers.map((r) => r.value.length));
+			const lines = [group.name];
+			for (let i = 0; i < group.registers.length; i += COLUMNS) {
+				const cells = group.registers
+					.slice(i, i + COLUMNS)
+					.map((r) => `${r.name.padStart(nameWidth)} ${r.value.padEnd(valueWidth)}`);
+				lines.push(`  ${cells.join("  ").trimEnd()}`);
+			}
+			return lines.join("\n");
+		})
+		.join("\n\n");
+}
@@ -4,6 +4,7 @@ export interface SourceLine {
 	isCurrent?: boolean;
 	currentColumn?: number; // 1-based column on current line
 	hasBreakpoint?: boolean;
+	hitCount?: number; // coverage: executions of this line (0 = never ran)
 }
 
 import { MAX_SOURCE_LINE_WIDTH } from "../constants.ts";
@@ -58,6 +59,10 @@ export function formatSource(lines: SourceLine[], opts?: FormatSourceOptions): s
 	const maxLineNum = Math.max(...lines.map((l) => l.lineNumber));
 	const numWidth = String(maxLineNum).length;
 
+	// Coverage column, only when at least one line carries a hit count
+	const hitLabel = (line: SourceLine) => (line.hitCount === undefined ? "" : `${line.hitCount}x`);
+	const hitWidth = Math.max(0, ...lines.map((l) => hitLabel(l).length));
+
 	const result: string[] = [];
 	for (const line of lines) {
 		const num = String(line.lineNumber).padStart(numWidth);
@@ -87,11 +92,18 @@ export function formatSource(lines: SourceLine[], opts?: FormatSourceOptions): s
 		const coloredNum = cc(num, "gray");
 		const coloredContent = color ? highlightLine(trimmed.text, lang) : trimmed.text;
 
-		result.push(`${coloredMarker} ${coloredNum}\u2502${coloredContent}`);
+		let hits = "";
+		if (hitWidth > 0) {
+			hits = ` ${hitLabel(line).padStart(hitWidth)}`;
+			if (line.hitCount !== undefined) hits = cc(hits, line.hitCount === 0 ? "red" : "green");
+		}
+
+		result.push(`${coloredMarker} ${coloredNum}${hits}\u2502${coloredContent}`);
 
 		// Add column indicator under current line
 		if (line.isCurrent && trimmed.caretOffset !== undefined && trimmed.caretOffset >= 0) {
-			const gutter = " ".repeat(numWidth + 4); // marker(2) + space(1) + numWidth + │(1)
+			// marker(2) + space(1) + numWidth + hits + │(1)
+			const gutter = " ".repeat(numWidth + (hitWidth > 0 ? hitWidth + 1 : 0) + 4);
 			// Preserve tabs from source so ^ aligns in terminal
 			const indent = trimmed.text.slice(0, trimmed.caretOffset).replace(/[^\t]/g, " ");
 			result.push(`${gutter}${indent}${cc("^", "brightYellow")}`);
@@ -0,0 +1,24 @@
+import type { StateChange } from "../session/types.ts";
+import { colorize } from "./color.ts";
+
+export interface FormatStateDiffOptions {
+	color?: boolean;
+}
+
+/** One line per change: `~ count: 3 → 4`, `+ name: value` or `- name: value`. */
+export function formatStateDiff(changes: StateChange[], opts?: FormatStateDiffOptions): string {
+	const cc = colorize(opts?.color ?? false);
+
+	return changes
+		.map((c) => {
+			const name = c.watch ? `${cc(c.watch, "magenta")} ${cc(c.name, "cyan")}` : cc(c.name, "cyan");
+			if (c.kind === "changed") {
+				return `  ${cc("~", "yellow")} ${name}: ${c.previous} → ${c.value}`;
+			}
+			if (c.kind === "added") {
+				return `  ${cc("+", "green")} ${name}: ${c.value}`;
+			}
+			return `  ${cc("-", "red")} ${name}: ${c.previous}`;
+		})
+		.join("\n");
+}
@@ -0,0 +1,54 @@
+import { colorize } from "./color.ts";
+import { shortPath } from "./path.ts";
+import { formatStack, type StackFrame } from "./stack.ts";
+
+export interface Thread {
+	id: number;
+	name: string;
+	state: "paused" | "running";
+	current: boolean;
+	frame?: { ref: string; functionName: string; file: string; line: number };
+}
+
+export interface ThreadStack {
+	id: number;
+	name: string;
+	current: boolean;
+	frames: StackFrame[];
+}
+
+export interface FormatThreadsOptions {
+	color?: boolean;
+}
+
+/** One line per thread: current marker, id, name, state and top frame. */
+export function formatThreads(threads: Thread[], opts?: FormatThreadsOptions): string {
+	const cc = colorize(opts?.color ?? false);
+	const idWidth = Math.max(...threads.map((t) => String(t.id).length));
+	const nameWidth = Math.max(...threads.map((t) => t.name.length));
+
+	return threads
+		.map((t) => {
+			const marker = t.current ? "*" : " ";
+			const id = String(t.id).padEnd(idWidth);
+			const name = t.name.padEnd(nameWidth);
+			const state = t.state.padEnd(7);
+			const frame = t.frame
+				? `  ${cc(t.frame.functionName, "yellow")}  ${cc(`${shortPath(t.frame.file)}:${t.frame.line}`, "gray")}`
+				: "";
+			return `${marker} ${cc(id, "magenta")}  ${cc(name, "cyan")}  ${state}${frame}`.trimEnd();
+		})
+		.join("\n");
+}
+
+/** A "Thread N name" header (marked when current) above each thread's stack. */
+export function formatThreadStacks(stacks: ThreadStack[], opts?: FormatThreadsOptions): string {
+	const cc = colorize(opts?.color ?? false);
+	return stacks
+		.map((t) => {
+			const header = cc(`Thread ${t.id} ${t.name}${t.current ? " (current)" : ""}`, "bold");
+			const frames = t.frames.length > 0 ? formatStack(t.frames, opts) : "No stack frames";
+			return `${header}\n${frames}`;
+		})
+		.join("\n\n");
+}
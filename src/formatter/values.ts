@@ -39,6 +39,8 @@ function formatPreviewValue(prop: PropertyPreview): string {
 	if (prop.subtype === "null") return "null";
 	if (prop.type === "string") return `"${prop.value ?? ""}"`;
 	if (prop.type === "undefined") return "undefined";
+	// Getters are not invoked for previews
+	if (prop.type === "accessor") return "(...)";
 	if (prop.type === "object" || prop.type === "function") {
 		return prop.value ?? prop.subtype ?? prop.type;
 	}
@@ -0,0 +1,32 @@
+import { colorize } from "./color.ts";
+
+export interface Watch {
+	id: string;
+	expression: string;
+	ref?: string;
+	value?: string;
+	error?: string;
+}
+
+export interface FormatWatchesOptions {
+	color?: boolean;
+}
+
+/** One line per watch: id, value ref, expression, then its value or error. */
+export function formatWatches(watches: Watch[], opts?: FormatWatchesOptions): string {
+	const cc = colorize(opts?.color ?? false);
+	const idWidth = Math.max(...watches.map((w) => w.id.length));
+	const refWidth = Math.max(...watches.map((w) => (w.ref ?? "").length));
+	const exprWidth = Math.max(...watches.map((w) => w.expression.length));
+
+	return watches
+		.map((w) => {
+			const id = w.id.padEnd(idWidth);
+			const ref = (w.ref ?? "").padEnd(refWidth);
+			const expression = w.expression.padEnd(exprWidth);
+			const result = w.error !== undefined ? cc(`! ${w.error}`, "red") : (w.value ?? "");
+			const refColumn = refWidth > 0 ? `${cc(ref, "gray")}  ` : "";
+			return `  ${cc(id, "magenta")}  ${refColumn}${cc(expression, "cyan")}  ${result}`.trimEnd();
+		})
+		.join("\n");
+}
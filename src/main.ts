@@ -13,30 +13,51 @@ if (process.argv.includes("--daemon")) {
 	await import("./commands/continue.ts");
 	await import("./commands/step.ts");
 	await import("./commands/pause.ts");
+	await import("./commands/wait.ts");
 	await import("./commands/run-to.ts");
 	await import("./commands/break.ts");
 	await import("./commands/break-fn.ts");
+	await import("./commands/watchpoint.ts");
 	await import("./commands/break-rm.ts");
 	await import("./commands/break-ls.ts");
+	await import("./commands/break-save.ts");
+	await import("./commands/break-load.ts");
 	await import("./commands/logpoint.ts");
 	await import("./commands/catch.ts");
 	await import("./commands/source.ts");
 	await import("./commands/scripts.ts");
 	await import("./commands/modules.ts");
+	await import("./commands/threads.ts");
+	await import("./commands/disasm.ts");
+	await import("./commands/memory.ts");
+	await import("./commands/registers.ts");
+	await import("./commands/thread.ts");
 	await import("./commands/stack.ts");
 	await import("./commands/search.ts");
 	await import("./commands/console.ts");
 	await import("./commands/exceptions.ts");
+	await import("./commands/output.ts");
+	await import("./commands/events.ts");
+	await import("./commands/input.ts");
+	await import("./commands/heap.ts");
+	await import("./commands/profile.ts");
+	await import("./commands/coverage.ts");
 	await import("./commands/eval.ts");
 	await import("./commands/vars.ts");
 	await import("./commands/props.ts");
+	await import("./commands/dump.ts");
 	await import("./commands/blackbox.ts");
 	await import("./commands/blackbox-ls.ts");
 	await import("./commands/blackbox-rm.ts");
+	await import("./commands/watch.ts");
+	await import("./commands/watch-ls.ts");
+	await import("./commands/watch-rm.ts");
 	await import("./commands/set.ts");
 	await import("./commands/set-return.ts");
 	await import("./commands/hotpatch.ts");
 	await import("./commands/break-toggle.ts");
+	await import("./commands/break-reset-counts.ts");
+	await import("./commands/hits.ts");
 	await import("./commands/breakable.ts");
 	await import("./commands/restart-frame.ts");
 	await import("./commands/sourcemap.ts");
@@ -44,6 +65,7 @@ if (process.argv.includes("--daemon")) {
 	await import("./commands/symbols.ts");
 	await import("./commands/install.ts");
 	await import("./commands/logs.ts");
+	await import("./commands/mcp.ts");
 	const { parseArgs, run } = await import("./cli/parser.ts");
 
 	const args = parseArgs(process.argv.slice(2));
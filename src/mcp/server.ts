@@ -0,0 +1,184 @@
+import { REQUEST_TIMEOUT_MS, WAIT_TIMEOUT_MS } from "../constants.ts";
+import { DaemonClient } from "../daemon/client.ts";
+import { ensureDaemon } from "../daemon/spawn.ts";
+import { buildTools, type McpTool, requestSchemas, type ToolName } from "./tools.ts";
+
+/** Protocol revision implemented here; older client revisions are echoed back. */
+const LATEST_PROTOCOL_VERSION = "2025-06-18";
+
+interface JsonRpcMessage {
+	jsonrpc: "2.0";
+	id?: string | number | null;
+	method?: string;
+	params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+interface ToolResult {
+	content: Array<{ type: "text"; text: string }>;
+	structuredContent?: Record<string, unknown>;
+	isError?: boolean;
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+/** Commands that start a session daemon instead of requiring one. */
+const SESSION_STARTERS = new Set(["launch", "attach"]);
+
+function toolError(message: string): ToolResult {
+	return { content: [{ type: "text", text: message }], isError: true };
+}
+
+/**
+ * Model Context Protocol server over stdio (newline-delimited JSON-RPC).
+ * Each tool call is forwarded to the session daemon, exactly like the CLI.
+ */
+export class McpServer {
+	private defaultSession: string;
+	private version: string;
+	private tools: McpTool[];
+	private schemas = requestSchemas();
+
+	constructor(options: { session: string; version: string }) {
+		this.defaultSession = options.session;
+		this.version = options.version;
+		this.tools = buildTools();
+	}
+
+	/** Handle one JSON-RPC message. Returns null for notifications. */
+	async handle(message: unknown): Promise<JsonRpcResponse | null> {
+		if (typeof message !== "object" || message === null || Array.isArray(message)) {
+			return this.error(null, INVALID_REQUEST, "Invalid request");
+		}
+		const { id, method, params } = message as JsonRpcMessage;
+		if (typeof method !== "string") {
+			return this.error(id ?? null, INVALID_REQUEST, "Invalid request");
+		}
+		// Notifications (no id) never get a response
+		if (id === undefined) return null;
+
+		switch (method) {
+			case "initialize": {
+				const requested = params?.protocolVersion;
+				return this.result(id, {
+					protocolVersion:
+						typeof requested === "string" && requested < LATEST_PROTOCOL_VERSION
+							? requested
+							: LATEST_PROTOCOL_VERSION,
+					capabilities: { tools: {} },
+					serverInfo: { name: "debug-that", version: this.version },
+				});
+			}
+			case "ping":
+				return this.result(id, {});
+			case "tools/list":
+				return this.result(id, { tools: this.tools });
+			case "tools/call": {
+				const name = params?.name;
+				if (typeof name !== "string" || !this.tools.some((t) => t.name === name)) {
+					return this.error(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+				}
+				const args = (params?.arguments ?? {}) as Record<string, unknown>;
+				return this.result(id, await this.callTool(name, args));
+			}
+			default:
+				return this.error(id, METHOD_NOT_FOUND, `Method not found: ${method}`);
+		}
+	}
+
+	/** Serve over stdin/stdout until stdin closes. */
+	async serve(): Promise<void> {
+		const decoder = new TextDecoder();
+		let buffer = "";
+		for await (const chunk of Bun.stdin.stream()) {
+			buffer += decoder.decode(chunk, { stream: true });
+			let newlineIdx = buffer.indexOf("\n");
+			while (newlineIdx !== -1) {
+				const line = buffer.slice(0, newlineIdx).trim();
+				buffer = buffer.slice(newlineIdx + 1);
+				if (line) await this.handleLine(line);
+				newlineIdx = buffer.indexOf("\n");
+			}
+		}
+	}
+
+	private async handleLine(line: string): Promise<void> {
+		let message: unknown;
+		try {
+			message = JSON.parse(line);
+		} catch {
+			this.write(this.error(null, PARSE_ERROR, "Parse error"));
+			return;
+		}
+		const response = await this.handle(message);
+		if (response) this.write(response);
+	}
+
+	private async callTool(name: string, input: Record<string, unknown>): Promise<ToolResult> {
+		const { session: sessionArg, ...args } = input;
+		const session = typeof sessionArg === "string" ? sessionArg : this.defaultSession;
+
+		const schema = this.schemas.get(name as ToolName);
+		const request = schema && "args" in schema.shape ? { cmd: name, args } : { cmd: name };
+		const parsed = schema?.safeParse(request);
+		if (!parsed?.success) {
+			const issues = parsed?.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+			return toolError(`Invalid arguments for ${name}: ${issues?.join("; ") ?? "unknown tool"}`);
+		}
+
+		try {
+			if (SESSION_STARTERS.has(name)) {
+				await ensureDaemon(session);
+			} else if (!DaemonClient.isRunning(session)) {
+				return toolError(`No active session "${session}". Start one with the launch tool.`);
+			}
+
+			// The daemon enforces the wait timeout; leave it room to answer first
+			const timeoutMs =
+				name === "wait"
+					? (typeof args.timeout === "number" ? args.timeout : WAIT_TIMEOUT_MS) + REQUEST_TIMEOUT_MS
+					: undefined;
+			const response = await new DaemonClient(session).request(name, args, { timeoutMs });
+			if (!response.ok) {
+				const suggestion = response.suggestion ? `\n  ${response.suggestion}` : "";
+				return toolError(`${response.error}${suggestion}`);
+			}
+			const data = response.data;
+			const result: ToolResult = {
+				content: [
+					{
+						type: "text",
+						text: typeof data === "string" ? data : JSON.stringify(data ?? null, null, 2),
+					},
+				],
+			};
+			if (typeof data === "object" && data !== null && !Array.isArray(data)) {
+				result.structuredContent = data as Record<string, unknown>;
+			}
+			return result;
+		} catch (err) {
+			return toolError(err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	private result(id: string | number | null, result: unknown): JsonRpcResponse {
+		return { jsonrpc: "2.0", id, result };
+	}
+
+	private error(id: string | number | null, code: number, message: string): JsonRpcResponse {
+		return { jsonrpc: "2.0", id, error: { code, message } };
+	}
+
+	private write(response: JsonRpcResponse): void {
+		process.stdout.write(`${JSON.stringify(response)}\n`);
+	}
+}
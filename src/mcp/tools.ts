@@ -0,0 +1,138 @@
+import { z } from "zod/mini";
+import { type DaemonRequest, DaemonRequestSchema } from "../protocol/messages.ts";
+
+/** Commands that are not exposed as tools: ping is internal and subscribe streams. */
+const HIDDEN_COMMANDS = new Set(["ping", "subscribe"]);
+
+export type ToolName = Exclude<DaemonRequest["cmd"], "ping" | "subscribe">;
+
+export interface McpTool {
+	name: ToolName;
+	description: string;
+	inputSchema: Record<string, unknown>;
+}
+
+/**
+ * One description per daemon command. Keyed by the request union so a new
+ * command fails the type-check until it is documented here.
+ */
+export const TOOL_DESCRIPTIONS: Record<ToolName, string> = {
+	launch:
+		"Launch a process under the debugger and start the session. Use brk: true to pause on the first line.",
+	attach: "Attach to a running process by pid, inspector WebSocket URL or port.",
+	status: "Show session info: runtime, state, pid and pause location.",
+	state:
+		"Debug state snapshot while paused: location, source, locals, stack and breakpoints, with @refs. diff: true lists only locals and watches that changed since the previous pause.",
+	continue:
+		"Resume execution and return the next pause state; diff: true reports only changed locals and watches.",
+	step: 'Step over, into or out of the current statement and return the new state; granularity: "instruction" steps one machine instruction (DAP only); diff: true reports only changed locals and watches.',
+	pause: "Interrupt the running process.",
+	wait: "Block until the process pauses (default), exits, throws, or logs a console message matching a regex; returns the state or the event.",
+	"run-to": "Continue until the given file:line is reached.",
+	break:
+		"Set a breakpoint at file:line (or urlRegex), with optional condition and hit count. capture: true records a snapshot on each hit and continues; once: true removes it after the first hit; after: a BP ref that must be hit before it becomes active.",
+	"break-fn":
+		"Break on calls to a function: a symbol name for DAP runtimes, or a JS expression such as UserService.prototype.save for Node/Bun.",
+	watchpoint:
+		"Pause when an object property is written (default), read, or both (readWrite), e.g. @v3.status or config.mode. Listed and removed like a breakpoint.",
+	"break-rm": 'Remove a breakpoint or logpoint by ref (BP#n, LP#n) or "all".',
+	"break-ls": "List breakpoints and logpoints with how often each was hit and when last.",
+	"break-reset-counts": "Reset breakpoint hit counters, for one ref or all.",
+	"break-save":
+		"Save breakpoints, logpoints, catch mode and blackbox patterns to a file (default .dbg/breakpoints.json).",
+	"break-load": "Apply a saved breakpoint file (default .dbg/breakpoints.json).",
+	hits: "Hit history of a capture breakpoint: locals and top stack frames recorded on each hit.",
+	logpoint: `Set a logpoint that logs a template (with \${expr}) without pausing.`,
+	catch: "Pause on exceptions: all, uncaught, caught or none.",
+	source:
+		"Show source around the pause location or for a file, optionally annotated with coverage.",
+	scripts: "List loaded scripts.",
+	stack:
+		"Show the call stack with @f frame refs; allThreads: true returns the stacks of all paused threads (DAP only).",
+	search: "Search loaded scripts for text or a regex.",
+	console: "Captured console messages.",
+	exceptions: "Captured exceptions.",
+	output: "Captured debuggee stdout/stderr.",
+	input: "Write text to the debuggee's stdin, optionally closing it.",
+	eval: "Evaluate an expression in the current frame (or a given @f frame).",
+	vars: "Show local variables of a frame with @v refs.",
+	props: "Expand the properties of an @v/@o object ref.",
+	dump: "Serialize an @v/@o object to JSON (cycles, Maps, Sets, Dates, BigInt and typed arrays tagged with $type), returned or written to path.",
+	watch: "Add a watch expression, re-evaluated in the top frame and shown in every pause state.",
+	"watch-ls": "List watch expressions, with their current values when paused.",
+	"watch-rm": 'Remove a watch by W# id, or "all".',
+	blackbox: "Skip stepping into scripts matching the given patterns.",
+	"blackbox-ls": "List blackbox patterns.",
+	"blackbox-rm": 'Remove blackbox patterns, or "all".',
+	set: "Change the value of a variable (@ref or name).",
+	"set-return": "Change the return value at a return point.",
+	hotpatch: "Replace a script's source in the running process.",
+	"break-toggle":
+		'Enable or disable a breakpoint, logpoint or watchpoint by ref, keeping its settings. "all" disables every one if any is enabled, otherwise re-enables them.',
+	breakable: "List valid breakpoint locations in a line range.",
+	"restart-frame": "Re-execute a frame from its beginning.",
+	restart: "Restart the debuggee with the same command.",
+	sourcemap: "Show source map info for a file or all scripts.",
+	"sourcemap-disable": "Disable source map resolution.",
+	stop: "Kill the debuggee and end the session.",
+	modules: "List loaded modules/libraries with symbol status (DAP only).",
+	threads:
+		"List threads (goroutines for Go) with state, top frame and which one is current (DAP only).",
+	thread:
+		"Select the paused thread that stack, vars, eval and step act on, by thread id (DAP only).",
+	disasm:
+		"Disassemble instructions around a frame's instruction pointer (marked current), or from an address (DAP only).",
+	"memory-read":
+		"Read debuggee memory from an address or the memory behind a variable @v ref; data is returned as hex (DAP only).",
+	"memory-write": "Write hex-encoded bytes to debuggee memory at an address (DAP only).",
+	registers: "CPU registers of a frame, grouped as the adapter reports them (DAP only).",
+	"path-map-add": "Remap a debug info source path prefix (DAP only).",
+	"path-map-list": "Show source path remappings (DAP only).",
+	"path-map-clear": "Remove all source path remappings (DAP only).",
+	"symbols-add": "Load debug symbols from a path (DAP only).",
+	"heap-snapshot": "Capture a heap snapshot and return its HS# ref.",
+	"heap-summary": "Top constructors of a heap snapshot by retained size.",
+	"heap-diff": "Constructors that grew between two heap snapshots.",
+	"profile-start": "Start CPU profiling, optionally with a sampling interval in microseconds.",
+	"profile-stop": "Stop CPU profiling and return the hottest functions by self time.",
+	"coverage-start": "Start collecting precise line coverage.",
+	"coverage-take": "Per-file coverage collected so far, with uncovered lines.",
+	"coverage-stop": "Final per-file coverage, then stop collecting.",
+};
+
+const SESSION_PROPERTY = {
+	type: "string",
+	description: "Debug session name (defaults to the session `dbg mcp` was started with)",
+};
+
+type RequestSchema = (typeof DaemonRequestSchema.def.options)[number];
+
+/** The request schema of each daemon command, keyed by command. */
+export function requestSchemas(): Map<DaemonRequest["cmd"], RequestSchema> {
+	return new Map(
+		DaemonRequestSchema.def.options.map((schema) => [
+			schema.shape.cmd.def.values[0] as DaemonRequest["cmd"],
+			schema,
+		]),
+	);
+}
+
+/** Describe every daemon command (except hidden ones) as an MCP tool. */
+export function buildTools(): McpTool[] {
+	const tools: McpTool[] = [];
+	for (const [cmd, schema] of requestSchemas()) {
+		if (HIDDEN_COMMANDS.has(cmd)) continue;
+		const name = cmd as ToolName;
+		let inputSchema: Record<string, unknown> = { type: "object", properties: {} };
+		if ("args" in schema.shape) {
+			const { $schema: _, ...args } = z.toJSONSchema(schema.shape.args) as Record<string, unknown>;
+			inputSchema = args;
+		}
+		inputSchema.properties = {
+			...(inputSchema.properties as Record<string, unknown>),
+			session: SESSION_PROPERTY,
+		};
+		tools.push({ name, description: TOOL_DESCRIPTIONS[name], inputSchema });
+	}
+	return tools;
+}
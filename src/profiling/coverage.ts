@@ -0,0 +1,75 @@
+/**
+ * Precise coverage helpers: turn V8 byte-offset block ranges into per-line
+ * execution counts, and summarize them per file.
+ */
+
+import type Protocol from "devtools-protocol/types/protocol.js";
+
+export interface LineCoverage {
+	/** 0-based line in the script */
+	line: number;
+	/** 0-based column of the first code character, used for source mapping */
+	column: number;
+	count: number;
+}
+
+export interface CoverageFileResult {
+	url: string;
+	/** Number of lines with executable code */
+	lines: number;
+	covered: number;
+	/** 1-based lines that never ran */
+	uncovered: number[];
+}
+
+const COMMENT_START = /^(\/\/|\/\*|\*)/;
+
+/**
+ * Count executions per line. A line's count is the count of the innermost
+ * range containing its first code character; blank and comment-only lines
+ * are skipped.
+ */
+export function computeLineCoverage(
+	source: string,
+	functions: Protocol.Profiler.FunctionCoverage[],
+): LineCoverage[] {
+	const ranges = functions.flatMap((fn) => fn.ranges);
+	const result: LineCoverage[] = [];
+	let offset = 0;
+	const lines = source.split("\n");
+	for (let line = 0; line < lines.length; line++) {
+		const text = lines[line] ?? "";
+		const lineStart = offset;
+		offset += text.length + 1;
+
+		const column = text.search(/\S/);
+		if (column === -1 || COMMENT_START.test(text.slice(column))) continue;
+		const position = lineStart + column;
+
+		let innermost: Protocol.Profiler.CoverageRange | undefined;
+		for (const range of ranges) {
+			if (position < range.startOffset || position >= range.endOffset) continue;
+			if (
+				!innermost ||
+				range.endOffset - range.startOffset < innermost.endOffset - innermost.startOffset
+			) {
+				innermost = range;
+			}
+		}
+		if (innermost) result.push({ line, column, count: innermost.count });
+	}
+	return result;
+}
+
+/** Summarize 1-based line counts for one file. */
+export function summarizeFileCoverage(
+	url: string,
+	counts: Map<number, number>,
+): CoverageFileResult {
+	const uncovered: number[] = [];
+	for (const [line, count] of counts) {
+		if (count === 0) uncovered.push(line);
+	}
+	uncovered.sort((a, b) => a - b);
+	return { url, lines: counts.size, covered: counts.size - uncovered.length, uncovered };
+}
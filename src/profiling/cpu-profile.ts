@@ -0,0 +1,145 @@
+/**
+ * CPU profile summarization: per-function self and total time from a
+ * Profiler.stop `.cpuprofile`, for a compact hot-path table.
+ */
+
+import type Protocol from "devtools-protocol/types/protocol.js";
+
+export interface CpuFunctionSummary {
+	name: string;
+	url: string;
+	/** 1-based line (source-mapped when a resolver is given) */
+	line: number;
+	/** Milliseconds spent in the function itself */
+	selfTime: number;
+	/** Milliseconds spent in the function and its callees */
+	totalTime: number;
+	selfPercent: number;
+	totalPercent: number;
+}
+
+export interface CpuProfileSummary {
+	/** Wall-clock duration of the profile in milliseconds */
+	duration: number;
+	sampleCount: number;
+	functions: CpuFunctionSummary[];
+}
+
+export type CpuLocationResolver = (
+	scriptId: string,
+	line1Based: number,
+	column: number,
+) => { url: string; line: number } | null;
+
+/** Pseudo-frames that carry no useful attribution. */
+const IGNORED_FUNCTIONS = new Set(["(root)", "(idle)"]);
+
+/**
+ * Summarize a profile by function, hottest self time first. Time between two
+ * samples is attributed to the earlier sample; recursive calls only count
+ * once towards total time.
+ */
+export function summarizeCpuProfile(
+	profile: Protocol.Profiler.Profile,
+	resolveLocation?: CpuLocationResolver,
+): CpuProfileSummary {
+	const nodesById = new Map(profile.nodes.map((node) => [node.id, node]));
+	const samples = profile.samples ?? [];
+	const timeDeltas = profile.timeDeltas ?? [];
+
+	// Self time per node, in microseconds
+	const selfByNode = new Map<number, number>();
+	let timestamp = profile.startTime;
+	const timestamps = samples.map((_, i) => {
+		timestamp += timeDeltas[i] ?? 0;
+		return timestamp;
+	});
+	for (let i = 0; i < samples.length; i++) {
+		const nodeId = samples[i] ?? 0;
+		const start = timestamps[i] ?? profile.startTime;
+		const end = timestamps[i + 1] ?? profile.endTime;
+		selfByNode.set(nodeId, (selfByNode.get(nodeId) ?? 0) + Math.max(0, end - start));
+	}
+
+	// Group nodes by function (same name at the same location)
+	const keyOf = (node: Protocol.Profiler.ProfileNode) => {
+		const f = node.callFrame;
+		return `${f.functionName}\0${f.scriptId}\0${f.lineNumber}\0${f.columnNumber}`;
+	};
+	const byKey = new Map<
+		string,
+		{ node: Protocol.Profiler.ProfileNode; self: number; total: number }
+	>();
+	for (const node of profile.nodes) {
+		const key = keyOf(node);
+		const entry = byKey.get(key) ?? { node, self: 0, total: 0 };
+		entry.self += selfByNode.get(node.id) ?? 0;
+		byKey.set(key, entry);
+	}
+
+	// Total time: walk the call tree, adding a node's subtree time only when
+	// the same function is not already on the path above it
+	const subtreeTime = new Map<number, number>();
+	const onPath = new Map<string, number>();
+	const root = profile.nodes[0];
+	if (root) {
+		const stack: Array<{ node: Protocol.Profiler.ProfileNode; exit: boolean }> = [
+			{ node: root, exit: false },
+		];
+		while (stack.length > 0) {
+			const frame = stack.pop();
+			if (!frame) break;
+			const { node } = frame;
+			const key = keyOf(node);
+			if (frame.exit) {
+				let total = selfByNode.get(node.id) ?? 0;
+				for (const childId of node.children ?? []) total += subtreeTime.get(childId) ?? 0;
+				subtreeTime.set(node.id, total);
+				onPath.set(key, (onPath.get(key) ?? 1) - 1);
+				if (!onPath.get(key)) {
+					const entry = byKey.get(key);
+					if (entry) entry.total += total;
+				}
+				continue;
+			}
+			onPath.set(key, (onPath.get(key) ?? 0) + 1);
+			stack.push({ node, exit: true });
+			for (const childId of node.children ?? []) {
+				const child = nodesById.get(childId);
+				if (child) stack.push({ node: child, exit: false });
+			}
+		}
+	}
+
+	let sampledTime = 0;
+	for (const self of selfByNode.values()) sampledTime += self;
+	const percent = (us: number) =>
+		sampledTime > 0 ? Math.round((us / sampledTime) * 1000) / 10 : 0;
+	const ms = (us: number) => Math.round(us / 10) / 100;
+
+	const functions: CpuFunctionSummary[] = [];
+	for (const { node, self, total } of byKey.values()) {
+		const f = node.callFrame;
+		const name = f.functionName || "(anonymous)";
+		if (IGNORED_FUNCTIONS.has(name) || (self === 0 && total === 0)) continue;
+		const line = f.lineNumber + 1;
+		const original =
+			f.scriptId && f.lineNumber >= 0 ? resolveLocation?.(f.scriptId, line, f.columnNumber) : null;
+		functions.push({
+			name,
+			url: original?.url ?? f.url,
+			line: original?.line ?? line,
+			selfTime: ms(self),
+			totalTime: ms(total),
+			selfPercent: percent(self),
+			totalPercent: percent(total),
+		});
+	}
+	functions.sort((a, b) => b.selfTime - a.selfTime || b.totalTime - a.totalTime);
+
+	return {
+		duration: ms(profile.endTime - profile.startTime),
+		sampleCount: samples.length,
+		functions,
+	};
+}
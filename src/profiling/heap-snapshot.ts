@@ -0,0 +1,320 @@
+/**
+ * V8 heap snapshot analysis: per-constructor counts, shallow and retained
+ * sizes, and snapshot-to-snapshot diffs.
+ *
+ * The snapshot format is the one produced by HeapProfiler.takeHeapSnapshot
+ * (flat `nodes`/`edges` arrays described by `snapshot.meta`).
+ */
+
+export interface HeapSnapshotJson {
+	snapshot: {
+		meta: {
+			node_fields: string[];
+			node_types: [string[], ...unknown[]];
+			edge_fields: string[];
+			edge_types: [string[], ...unknown[]];
+		};
+		node_count?: number;
+		edge_count?: number;
+	};
+	nodes: number[];
+	edges: number[];
+	strings: string[];
+}
+
+export interface HeapClassSummary {
+	name: string;
+	count: number;
+	selfSize: number;
+	retainedSize: number;
+}
+
+export interface HeapClassDiff {
+	name: string;
+	countDelta: number;
+	sizeDelta: number;
+	added: number;
+	removed: number;
+}
+
+export interface HeapAnalysis {
+	nodeCount: number;
+	totalSize: number;
+	classes: HeapClassSummary[];
+	/** Node ids per class, used for diffing (ids are stable within a process). */
+	idsByClass: Map<string, number[]>;
+	/** Self size per node id. */
+	sizeById: Map<number, number>;
+}
+
+/** Group nodes the way DevTools' Summary view does. */
+function className(type: string, name: string): string {
+	switch (type) {
+		case "object":
+		case "native":
+			return name || `(${type})`;
+		case "string":
+		case "concatenated string":
+		case "sliced string":
+			return "(string)";
+		default:
+			return `(${type})`;
+	}
+}
+
+/**
+ * Parse a snapshot and compute per-class statistics, including retained
+ * sizes from the dominator tree (weak edges do not retain).
+ */
+export function analyzeHeapSnapshot(json: HeapSnapshotJson): HeapAnalysis {
+	const meta = json.snapshot.meta;
+	const nodeFieldCount = meta.node_fields.length;
+	const edgeFieldCount = meta.edge_fields.length;
+	const typeOffset = meta.node_fields.indexOf("type");
+	const nameOffset = meta.node_fields.indexOf("name");
+	const idOffset = meta.node_fields.indexOf("id");
+	const sizeOffset = meta.node_fields.indexOf("self_size");
+	const edgeCountOffset = meta.node_fields.indexOf("edge_count");
+	const edgeTypeOffset = meta.edge_fields.indexOf("type");
+	const edgeToOffset = meta.edge_fields.indexOf("to_node");
+	const nodeTypes = meta.node_types[0];
+	const weakEdgeType = meta.edge_types[0].indexOf("weak");
+
+	const { nodes, edges, strings } = json;
+	const nodeCount = Math.floor(nodes.length / nodeFieldCount);
+
+	// Per-node class index, self size and first edge index
+	const classNames: string[] = [];
+	const classIndex = new Map<string, number>();
+	const nodeClass = new Int32Array(nodeCount);
+	const selfSize = new Float64Array(nodeCount);
+	const firstEdge = new Int32Array(nodeCount + 1);
+	let totalSize = 0;
+	for (let i = 0, edgeIndex = 0; i < nodeCount; i++) {
+		const base = i * nodeFieldCount;
+		const type = nodeTypes[nodes[base + typeOffset] ?? 0] ?? "hidden";
+		const name = className(type, strings[nodes[base + nameOffset] ?? 0] ?? "");
+		let cls = classIndex.get(name);
+		if (cls === undefined) {
+			cls = classNames.length;
+			classNames.push(name);
+			classIndex.set(name, cls);
+		}
+		nodeClass[i] = cls;
+		selfSize[i] = nodes[base + sizeOffset] ?? 0;
+		totalSize += selfSize[i] ?? 0;
+		firstEdge[i] = edgeIndex;
+		edgeIndex += (nodes[base + edgeCountOffset] ?? 0) * edgeFieldCount;
+		firstEdge[i + 1] = edgeIndex;
+	}
+
+	const isStrongEdge = (edgeIndex: number) => edges[edgeIndex + edgeTypeOffset] !== weakEdgeType;
+	const edgeTarget = (edgeIndex: number) =>
+		Math.floor((edges[edgeIndex + edgeToOffset] ?? 0) / nodeFieldCount);
+
+	// Iterative DFS from the root (node 0) to get a post-order
+	const postOrder = new Int32Array(nodeCount);
+	const postIndex = new Int32Array(nodeCount).fill(-1);
+	const visited = new Uint8Array(nodeCount);
+	let reachable = 0;
+	if (nodeCount > 0) {
+		const stackNode: number[] = [0];
+		const stackEdge: number[] = [firstEdge[0] ?? 0];
+		visited[0] = 1;
+		while (stackNode.length > 0) {
+			const top = stackNode.length - 1;
+			const node = stackNode[top] ?? 0;
+			const edgeIndex = stackEdge[top] ?? 0;
+			if (edgeIndex < (firstEdge[node + 1] ?? 0)) {
+				stackEdge[top] = edgeIndex + edgeFieldCount;
+				if (!isStrongEdge(edgeIndex)) continue;
+				const child = edgeTarget(edgeIndex);
+				if (visited[child]) continue;
+				visited[child] = 1;
+				stackNode.push(child);
+				stackEdge.push(firstEdge[child] ?? 0);
+			} else {
+				stackNode.pop();
+				stackEdge.pop();
+				postIndex[node] = reachable;
+				postOrder[reachable++] = node;
+			}
+		}
+	}
+
+	// Reverse (predecessor) edges between reachable nodes, in CSR form
+	const predCount = new Int32Array(nodeCount + 1);
+	for (let node = 0; node < nodeCount; node++) {
+		if (!visited[node]) continue;
+		for (let e = firstEdge[node] ?? 0; e < (firstEdge[node + 1] ?? 0); e += edgeFieldCount) {
+			if (!isStrongEdge(e)) continue;
+			const slot = edgeTarget(e) + 1;
+			predCount[slot] = (predCount[slot] ?? 0) + 1;
+		}
+	}
+	for (let i = 0; i < nodeCount; i++)
+		predCount[i + 1] = (predCount[i + 1] ?? 0) + (predCount[i] ?? 0);
+	const preds = new Int32Array(predCount[nodeCount] ?? 0);
+	const predFill = predCount.slice(0, nodeCount);
+	for (let node = 0; node < nodeCount; node++) {
+		if (!visited[node]) continue;
+		for (let e = firstEdge[node] ?? 0; e < (firstEdge[node + 1] ?? 0); e += edgeFieldCount) {
+			if (!isStrongEdge(e)) continue;
+			const target = edgeTarget(e);
+			const slot = predFill[target] ?? 0;
+			predFill[target] = slot + 1;
+			preds[slot] = node;
+		}
+	}
+
+	// Immediate dominators (Cooper, Harvey & Kennedy), indexed by post-order number
+	const rootPost = reachable - 1;
+	const idom = new Int32Array(reachable).fill(-1);
+	if (reachable > 0) idom[rootPost] = rootPost;
+	const intersect = (a: number, b: number): number => {
+		let x = a;
+		let y = b;
+		while (x !== y) {
+			while (x < y) x = idom[x] ?? rootPost;
+			while (y < x) y = idom[y] ?? rootPost;
+		}
+		return x;
+	};
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (let post = rootPost - 1; post >= 0; post--) {
+			const node = postOrder[post] ?? 0;
+			let newIdom = -1;
+			for (let p = predCount[node] ?? 0; p < (predCount[node + 1] ?? 0); p++) {
+				const predPost = postIndex[preds[p] ?? 0] ?? -1;
+				if (predPost < 0 || idom[predPost] === -1) continue;
+				newIdom = newIdom === -1 ? predPost : intersect(predPost, newIdom);
+			}
+			if (newIdom !== -1 && idom[post] !== newIdom) {
+				idom[post] = newIdom;
+				changed = true;
+			}
+		}
+	}
+
+	// Retained size: accumulate bottom-up (a dominator always has a higher post-order number)
+	const retained = new Float64Array(reachable);
+	for (let post = 0; post < reachable; post++) {
+		retained[post] = selfSize[postOrder[post] ?? 0] ?? 0;
+	}
+	for (let post = 0; post < rootPost; post++) {
+		const dom = idom[post] ?? -1;
+		if (dom >= 0 && dom !== post) retained[dom] = (retained[dom] ?? 0) + (retained[post] ?? 0);
+	}
+
+	// Per-class retained size: count an object only if no dominator of the same
+	// class is above it, so nested instances are not double-counted.
+	const childCount = new Int32Array(reachable + 1);
+	for (let post = 0; post < rootPost; post++) {
+		const dom = idom[post] ?? -1;
+		if (dom >= 0) childCount[dom + 1] = (childCount[dom + 1] ?? 0) + 1;
+	}
+	for (let i = 0; i < reachable; i++)
+		childCount[i + 1] = (childCount[i + 1] ?? 0) + (childCount[i] ?? 0);
+	const children = new Int32Array(childCount[reachable] ?? 0);
+	const childFill = childCount.slice(0, reachable);
+	for (let post = 0; post < rootPost; post++) {
+		const dom = idom[post] ?? -1;
+		if (dom < 0) continue;
+		const slot = childFill[dom] ?? 0;
+		childFill[dom] = slot + 1;
+		children[slot] = post;
+	}
+
+	const classRetained = new Float64Array(classNames.length);
+	const onPath = new Int32Array(classNames.length);
+	if (reachable > 0) {
+		const stack: number[] = [rootPost];
+		const exiting: boolean[] = [false];
+		while (stack.length > 0) {
+			const post = stack.pop() ?? 0;
+			const exit = exiting.pop() ?? false;
+			const cls = nodeClass[postOrder[post] ?? 0] ?? 0;
+			if (exit) {
+				onPath[cls] = (onPath[cls] ?? 0) - 1;
+				continue;
+			}
+			if (onPath[cls] === 0) classRetained[cls] = (classRetained[cls] ?? 0) + (retained[post] ?? 0);
+			onPath[cls] = (onPath[cls] ?? 0) + 1;
+			stack.push(post);
+			exiting.push(true);
+			for (let c = childCount[post] ?? 0; c < (childCount[post + 1] ?? 0); c++) {
+				stack.push(children[c] ?? 0);
+				exiting.push(false);
+			}
+		}
+	}
+
+	const counts = new Int32Array(classNames.length);
+	const selfByClass = new Float64Array(classNames.length);
+	const idsByClass = new Map<string, number[]>();
+	const sizeById = new Map<number, number>();
+	for (let node = 0; node < nodeCount; node++) {
+		const cls = nodeClass[node] ?? 0;
+		const name = classNames[cls] ?? "";
+		counts[cls] = (counts[cls] ?? 0) + 1;
+		selfByClass[cls] = (selfByClass[cls] ?? 0) + (selfSize[node] ?? 0);
+		const id = nodes[node * nodeFieldCount + idOffset] ?? 0;
+		let ids = idsByClass.get(name);
+		if (!ids) {
+			ids = [];
+			idsByClass.set(name, ids);
+		}
+		ids.push(id);
+		sizeById.set(id, selfSize[node] ?? 0);
+	}
+
+	const classes: HeapClassSummary[] = classNames
+		.map((name, cls) => ({
+			name,
+			count: counts[cls] ?? 0,
+			selfSize: selfByClass[cls] ?? 0,
+			retainedSize: classRetained[cls] ?? 0,
+		}))
+		.filter((c) => c.name !== "(synthetic)")
+		.sort((a, b) => b.retainedSize - a.retainedSize);
+
+	return { nodeCount, totalSize, classes, idsByClass, sizeById };
+}
+
+/**
+ * Compare two analyses of the same process. Objects are matched by node id,
+ * so `added`/`removed` count actual allocations and frees, not just net change.
+ * Returns classes that grew, largest size growth first.
+ */
+export function diffHeapAnalyses(base: HeapAnalysis, compare: HeapAnalysis): HeapClassDiff[] {
+	const names = new Set([...base.idsByClass.keys(), ...compare.idsByClass.keys()]);
+	const diffs: HeapClassDiff[] = [];
+	for (const name of names) {
+		const before = base.idsByClass.get(name) ?? [];
+		const after = compare.idsByClass.get(name) ?? [];
+		const beforeIds = new Set(before);
+		const afterIds = new Set(after);
+		let added = 0;
+		let removed = 0;
+		let sizeDelta = 0;
+		for (const id of after) {
+			if (!beforeIds.has(id)) {
+				added++;
+				sizeDelta += compare.sizeById.get(id) ?? 0;
+			}
+		}
+		for (const id of before) {
+			if (!afterIds.has(id)) {
+				removed++;
+				sizeDelta -= base.sizeById.get(id) ?? 0;
+			}
+		}
+		const countDelta = added - removed;
+		if (sizeDelta > 0 || countDelta > 0) {
+			diffs.push({ name, countDelta, sizeDelta, added, removed });
+		}
+	}
+	return diffs.sort((a, b) => b.sizeDelta - a.sizeDelta || b.countDelta - a.countDelta);
+}
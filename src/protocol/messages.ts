@@ -37,20 +37,62 @@ const StateRequest = z.object({
 		frame: z.optional(z.string()),
 		allScopes: z.optional(z.boolean()),
 		generated: z.optional(z.boolean()),
+		diff: z.optional(z.boolean()),
 	}),
 });
 
-const ContinueRequest = z.object({ cmd: z.literal("continue") });
+const ContinueRequest = z.object({
+	cmd: z.literal("continue"),
+	args: z.object({
+		diff: z.optional(z.boolean()),
+	}),
+});
 
 const StepRequest = z.object({
 	cmd: z.literal("step"),
 	args: z.object({
 		mode: z.optional(z.union([z.literal("over"), z.literal("into"), z.literal("out")])),
+		granularity: z.optional(z.union([z.literal("line"), z.literal("instruction")])),
+		diff: z.optional(z.boolean()),
 	}),
 });
 
 const PauseRequest = z.object({ cmd: z.literal("pause") });
 
+const WaitRequest = z.object({
+	cmd: z.literal("wait"),
+	args: z.object({
+		for: z.optional(
+			z.union([
+				z.literal("pause"),
+				z.literal("exit"),
+				z.literal("console"),
+				z.literal("exception"),
+			]),
+		),
+		pattern: z.optional(z.string()),
+		timeout: z.optional(z.number()),
+	}),
+});
+
+/** Event types a `subscribe` request can filter on. */
+export const SESSION_EVENT_TYPES = [
+	"pause",
+	"resume",
+	"scriptParsed",
+	"breakpointResolved",
+	"console",
+	"exception",
+	"exit",
+] as const;
+
+const SubscribeRequest = z.object({
+	cmd: z.literal("subscribe"),
+	args: z.object({
+		events: z.optional(z.array(z.enum(SESSION_EVENT_TYPES))),
+	}),
+});
+
 const RunToRequest = z.object({
 	cmd: z.literal("run-to"),
 	args: z.object({
@@ -68,6 +110,10 @@ const BreakRequest = z.object({
 		hitCount: z.optional(z.number()),
 		urlRegex: z.optional(z.string()),
 		column: z.optional(z.number()),
+		capture: z.optional(z.boolean()),
+		captureFrames: z.optional(z.number()),
+		once: z.optional(z.boolean()),
+		after: z.optional(z.string()),
 	}),
 });
 
@@ -79,6 +125,14 @@ const BreakFnRequest = z.object({
 	}),
 });
 
+const WatchpointRequest = z.object({
+	cmd: z.literal("watchpoint"),
+	args: z.object({
+		target: z.string(),
+		access: z.optional(z.union([z.literal("read"), z.literal("write"), z.literal("readWrite")])),
+	}),
+});
+
 const BreakRmRequest = z.object({
 	cmd: z.literal("break-rm"),
 	args: z.object({
@@ -88,6 +142,21 @@ const BreakRmRequest = z.object({
 
 const BreakLsRequest = z.object({ cmd: z.literal("break-ls") });
 
+const BreakResetCountsRequest = z.object({
+	cmd: z.literal("break-reset-counts"),
+	args: z.object({
+		ref: z.optional(z.string()),
+	}),
+});
+
+const HitsRequest = z.object({
+	cmd: z.literal("hits"),
+	args: z.object({
+		ref: z.string(),
+		last: z.optional(z.number()),
+	}),
+});
+
 const LogpointRequest = z.object({
 	cmd: z.literal("logpoint"),
 	args: z.object({
@@ -99,6 +168,20 @@ const LogpointRequest = z.object({
 	}),
 });
 
+const BreakSaveRequest = z.object({
+	cmd: z.literal("break-save"),
+	args: z.object({
+		path: z.optional(z.string()),
+	}),
+});
+
+const BreakLoadRequest = z.object({
+	cmd: z.literal("break-load"),
+	args: z.object({
+		path: z.optional(z.string()),
+	}),
+});
+
 const CatchRequest = z.object({
 	cmd: z.literal("catch"),
 	args: z.object({
@@ -118,6 +201,7 @@ const SourceRequest = z.object({
 		lines: z.optional(z.number()),
 		all: z.optional(z.boolean()),
 		generated: z.optional(z.boolean()),
+		coverage: z.optional(z.boolean()),
 	}),
 });
 
@@ -134,6 +218,7 @@ const StackRequest = z.object({
 		asyncDepth: z.optional(z.number()),
 		generated: z.optional(z.boolean()),
 		filter: z.optional(z.string()),
+		allThreads: z.optional(z.boolean()),
 	}),
 });
 
@@ -163,6 +248,24 @@ const ExceptionsRequest = z.object({
 	}),
 });
 
+const OutputRequest = z.object({
+	cmd: z.literal("output"),
+	args: z.object({
+		stream: z.optional(z.union([z.literal("stdout"), z.literal("stderr")])),
+		since: z.optional(z.number()),
+		after: z.optional(z.number()),
+		clear: z.optional(z.boolean()),
+	}),
+});
+
+const InputRequest = z.object({
+	cmd: z.literal("input"),
+	args: z.object({
+		text: z.optional(z.string()),
+		eof: z.optional(z.boolean()),
+	}),
+});
+
 const EvalRequest = z.object({
 	cmd: z.literal("eval"),
 	args: z.object({
@@ -193,6 +296,32 @@ const PropsRequest = z.object({
 	}),
 });
 
+const DumpRequest = z.object({
+	cmd: z.literal("dump"),
+	args: z.object({
+		ref: z.string(),
+		path: z.optional(z.string()),
+		depth: z.optional(z.number()),
+		maxBytes: z.optional(z.number()),
+	}),
+});
+
+const WatchRequest = z.object({
+	cmd: z.literal("watch"),
+	args: z.object({
+		expression: z.string(),
+	}),
+});
+
+const WatchLsRequest = z.object({ cmd: z.literal("watch-ls") });
+
+const WatchRmRequest = z.object({
+	cmd: z.literal("watch-rm"),
+	args: z.object({
+		id: z.string(),
+	}),
+});
+
 const BlackboxRequest = z.object({
 	cmd: z.literal("blackbox"),
 	args: z.object({
@@ -279,6 +408,47 @@ const ModulesRequest = z.object({
 	}),
 });
 
+const ThreadsRequest = z.object({ cmd: z.literal("threads") });
+
+const ThreadRequest = z.object({
+	cmd: z.literal("thread"),
+	args: z.object({
+		id: z.number(),
+	}),
+});
+
+const MemoryReadRequest = z.object({
+	cmd: z.literal("memory-read"),
+	args: z.object({
+		target: z.string(),
+		count: z.optional(z.number()),
+	}),
+});
+
+const MemoryWriteRequest = z.object({
+	cmd: z.literal("memory-write"),
+	args: z.object({
+		address: z.string(),
+		data: z.string(),
+	}),
+});
+
+const RegistersRequest = z.object({
+	cmd: z.literal("registers"),
+	args: z.object({
+		frame: z.optional(z.string()),
+	}),
+});
+
+const DisasmRequest = z.object({
+	cmd: z.literal("disasm"),
+	args: z.object({
+		frame: z.optional(z.string()),
+		count: z.optional(z.number()),
+		address: z.optional(z.string()),
+	}),
+});
+
 const PathMapAddRequest = z.object({
 	cmd: z.literal("path-map-add"),
 	args: z.object({
@@ -298,6 +468,58 @@ const SymbolsAddRequest = z.object({
 	}),
 });
 
+const HeapSnapshotRequest = z.object({ cmd: z.literal("heap-snapshot") });
+
+const HeapSummaryRequest = z.object({
+	cmd: z.literal("heap-summary"),
+	args: z.object({
+		ref: z.string(),
+		top: z.optional(z.number()),
+	}),
+});
+
+const HeapDiffRequest = z.object({
+	cmd: z.literal("heap-diff"),
+	args: z.object({
+		base: z.string(),
+		compare: z.string(),
+		top: z.optional(z.number()),
+	}),
+});
+
+const ProfileStartRequest = z.object({
+	cmd: z.literal("profile-start"),
+	args: z.object({
+		interval: z.optional(z.number()),
+	}),
+});
+
+const ProfileStopRequest = z.object({
+	cmd: z.literal("profile-stop"),
+	args: z.object({
+		top: z.optional(z.number()),
+		out: z.optional(z.string()),
+	}),
+});
+
+const CoverageStartRequest = z.object({ cmd: z.literal("coverage-start") });
+
+const CoverageTakeRequest = z.object({
+	cmd: z.literal("coverage-take"),
+	args: z.object({
+		filter: z.optional(z.string()),
+		all: z.optional(z.boolean()),
+	}),
+});
+
+const CoverageStopRequest = z.object({
+	cmd: z.literal("coverage-stop"),
+	args: z.object({
+		filter: z.optional(z.string()),
+		all: z.optional(z.boolean()),
+	}),
+});
+
 export const DaemonRequestSchema = z.union([
 	PingRequest,
 	LaunchRequest,
@@ -307,11 +529,18 @@ export const DaemonRequestSchema = z.union([
 	ContinueRequest,
 	StepRequest,
 	PauseRequest,
+	WaitRequest,
+	SubscribeRequest,
 	RunToRequest,
 	BreakRequest,
 	BreakFnRequest,
+	WatchpointRequest,
 	BreakRmRequest,
 	BreakLsRequest,
+	BreakResetCountsRequest,
+	BreakSaveRequest,
+	BreakLoadRequest,
+	HitsRequest,
 	LogpointRequest,
 	CatchRequest,
 	SourceRequest,
@@ -320,9 +549,15 @@ export const DaemonRequestSchema = z.union([
 	SearchRequest,
 	ConsoleRequest,
 	ExceptionsRequest,
+	OutputRequest,
+	InputRequest,
 	EvalRequest,
 	VarsRequest,
 	PropsRequest,
+	DumpRequest,
+	WatchRequest,
+	WatchLsRequest,
+	WatchRmRequest,
 	BlackboxRequest,
 	BlackboxLsRequest,
 	BlackboxRmRequest,
@@ -337,10 +572,24 @@ export const DaemonRequestSchema = z.union([
 	SourcemapDisableRequest,
 	StopRequest,
 	ModulesRequest,
+	ThreadsRequest,
+	ThreadRequest,
+	DisasmRequest,
+	MemoryReadRequest,
+	MemoryWriteRequest,
+	RegistersRequest,
 	PathMapAddRequest,
 	PathMapListRequest,
 	PathMapClearRequest,
 	SymbolsAddRequest,
+	HeapSnapshotRequest,
+	HeapSummaryRequest,
+	HeapDiffRequest,
+	ProfileStartRequest,
+	ProfileStopRequest,
+	CoverageStartRequest,
+	CoverageTakeRequest,
+	CoverageStopRequest,
 ]);
 
 export type DaemonRequest = z.infer<typeof DaemonRequestSchema>;
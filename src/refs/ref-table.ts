@@ -98,6 +98,11 @@ export class RefTable {
 		return this.entries.delete(ref);
 	}
 
+	/** Re-insert a previously removed entry under its original ref. */
+	restore(entry: RefEntry): void {
+		this.entries.set(entry.ref, entry);
+	}
+
 	private add(
 		type: RefType,
 		remoteId: string,
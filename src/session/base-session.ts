@@ -1,9 +1,12 @@
+import { rmSync } from "node:fs";
+import type { FileSink } from "bun";
 import { BUFFER_TRIM_BATCH, MAX_BUFFERED_MESSAGES } from "../constants.ts";
 import { RefTable } from "../refs/ref-table.ts";
 import type {
 	BreakableLocation,
 	BreakpointListItem,
 	BreakpointResult,
+	DumpResult,
 	EvalResult,
 	ExceptionPauseMode,
 	PendingConfig,
@@ -15,19 +18,31 @@ import type {
 	SourceMapAccess,
 	SourceResult,
 	StackFrameEntry,
+	StepGranularity,
 	ToggleResult,
 	VarEntry,
+	WatchEntry,
 } from "./session.ts";
 import type {
 	ConsoleMessage,
 	ExceptionEntry,
 	LaunchResult,
+	OutputEntry,
+	OutputStream,
 	PauseInfo,
+	SessionEvent,
 	SessionStatus,
+	StateChange,
 	StateOptions,
 	StateSnapshot,
 } from "./types.ts";
 
+interface PauseValue {
+	name: string;
+	watch?: string;
+	value: string;
+}
+
 /**
  * BaseSession provides shared state management, ref tracking, and console/exception
  * buffering for all session types (CDP and DAP).
@@ -39,10 +54,25 @@ export abstract class BaseSession implements Session {
 	refs: RefTable = new RefTable();
 	state: "idle" | "running" | "paused" = "idle";
 	pauseInfo: PauseInfo | null = null;
+	exceptionPauseMode: ExceptionPauseMode = "none";
 	consoleMessages: ConsoleMessage[] = [];
 	exceptionEntries: ExceptionEntry[] = [];
+	outputEntries: OutputEntry[] = [];
 	readonly session: string;
 	startTime: number = Date.now();
+	/** Write end of the debuggee's stdin pipe, when this session spawned the process. */
+	protected debuggeeStdin: FileSink | null = null;
+	private outputSeq = 0;
+	private partialOutput: Record<OutputStream, string> = { stdout: "", stderr: "" };
+	private eventListeners = new Set<(event: SessionEvent) => void>();
+	private breakpointHits = new Map<string, { hits: number; lastHit: number }>();
+	// Watches outlive restarts, so they are not part of resetState()
+	private watches: WatchEntry[] = [];
+	private nextWatchId = 1;
+	private pauseCount = 0;
+	/** Locals and watches seen at the latest pause, and at the pause before it */
+	private pauseValues: { pause: number; values: Map<string, PauseValue> } | null = null;
+	private previousPauseValues: Map<string, PauseValue> | null = null;
 
 	abstract readonly capabilities: SessionCapabilities;
 	abstract readonly sourceMapResolver: SourceMapAccess;
@@ -57,6 +87,170 @@ export abstract class BaseSession implements Session {
 		return this.state === "paused";
 	}
 
+	getExceptionPause(): ExceptionPauseMode {
+		return this.exceptionPauseMode;
+	}
+
+	// ── Events ────────────────────────────────────────────────────────
+
+	onEvent(listener: (event: SessionEvent) => void): () => void {
+		this.eventListeners.add(listener);
+		return () => {
+			this.eventListeners.delete(listener);
+		};
+	}
+
+	waitForEvent(
+		match: (event: SessionEvent) => boolean,
+		timeoutMs: number,
+	): Promise<SessionEvent | null> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				unsubscribe();
+				resolve(null);
+			}, timeoutMs);
+			const unsubscribe = this.onEvent((event) => {
+				if (!match(event)) return;
+				clearTimeout(timer);
+				unsubscribe();
+				resolve(event);
+			});
+		});
+	}
+
+	/**
+	 * Notify event listeners. Subclasses call this for pauses and exits;
+	 * console messages and exceptions are emitted by the push helpers.
+	 */
+	protected emitEvent(event: SessionEvent): void {
+		if (event.type === "pause") this.pauseCount++;
+		for (const listener of [...this.eventListeners]) {
+			listener(event);
+		}
+	}
+
+	// ── Breakpoint hits ───────────────────────────────────────────────
+
+	protected recordBreakpointHit(ref: string): void {
+		const stats = this.breakpointHits.get(ref);
+		if (stats) {
+			stats.hits++;
+			stats.lastHit = Date.now();
+		} else {
+			this.breakpointHits.set(ref, { hits: 1, lastHit: Date.now() });
+		}
+	}
+
+	/** Attach the recorded hit count and last-hit time to listed breakpoints. */
+	protected withHitStats(items: BreakpointListItem[]): BreakpointListItem[] {
+		return items.map((item) => {
+			const stats = this.breakpointHits.get(item.ref);
+			return stats ? { ...item, ...stats } : { ...item, hits: 0 };
+		});
+	}
+
+	resetBreakpointHits(ref?: string): void {
+		if (ref === undefined) {
+			this.breakpointHits.clear();
+			return;
+		}
+		if (!this.listBreakpoints().some((bp) => bp.ref === ref)) {
+			throw new Error(`Unknown breakpoint ref: ${ref}`);
+		}
+		this.breakpointHits.delete(ref);
+	}
+
+	// ── Watches ───────────────────────────────────────────────────────
+
+	addWatch(expression: string): WatchEntry {
+		const watch = { id: `W#${this.nextWatchId++}`, expression };
+		this.watches.push(watch);
+		return watch;
+	}
+
+	listWatches(): WatchEntry[] {
+		return [...this.watches];
+	}
+
+	removeWatch(id: string): void {
+		if (id === "all") {
+			this.watches = [];
+			return;
+		}
+		const index = this.watches.findIndex((w) => w.id === id);
+		if (index === -1) {
+			throw new Error(`Unknown watch: ${id}`);
+		}
+		this.watches.splice(index, 1);
+	}
+
+	/**
+	 * Evaluate every watch in the given frame (top frame by default). A failing
+	 * expression reports its error instead of failing the whole state.
+	 */
+	async evaluateWatches(frame?: string): Promise<NonNullable<StateSnapshot["watches"]>> {
+		const results: NonNullable<StateSnapshot["watches"]> = [];
+		for (const { id, expression } of this.watches) {
+			try {
+				const result = await this.eval(expression, { frame });
+				results.push({ id, expression, ref: result.ref, value: result.value });
+			} catch (err) {
+				const error = err instanceof Error ? err.message : String(err);
+				results.push({ id, expression, error });
+			}
+		}
+		return results;
+	}
+
+	// ── State diff ────────────────────────────────────────────────────
+
+	/**
+	 * Remember the top-frame locals and watches of a paused snapshot and, with
+	 * `diff`, replace them by their changes since the previous pause. The first
+	 * pause has nothing to compare with and keeps the full values.
+	 */
+	applyStateDiff(snapshot: StateSnapshot, options: StateOptions = {}): void {
+		if (snapshot.status !== "paused" || !snapshot.vars || options.frame) return;
+
+		const values = new Map<string, PauseValue>();
+		for (const v of snapshot.vars) {
+			// Inner scopes come first and shadow outer ones
+			if (!values.has(`var:${v.name}`)) {
+				values.set(`var:${v.name}`, { name: v.name, value: v.value });
+			}
+		}
+		for (const w of snapshot.watches ?? []) {
+			const value = w.error !== undefined ? `! ${w.error}` : (w.value ?? "");
+			values.set(`watch:${w.id}`, { name: w.expression, watch: w.id, value });
+		}
+		if (this.pauseValues?.pause !== this.pauseCount) {
+			this.previousPauseValues = this.pauseValues?.values ?? null;
+		}
+		this.pauseValues = { pause: this.pauseCount, values };
+
+		const previous = this.previousPauseValues;
+		if (!options.diff || !previous) return;
+
+		const changes: StateChange[] = [];
+		for (const [key, current] of values) {
+			const before = previous.get(key);
+			if (!before) {
+				changes.push({ kind: "added", ...current });
+			} else if (before.value !== current.value) {
+				changes.push({ kind: "changed", ...current, previous: before.value });
+			}
+		}
+		for (const [key, before] of previous) {
+			if (!values.has(key)) {
+				const { value, ...rest } = before;
+				changes.push({ kind: "removed", ...rest, previous: value });
+			}
+		}
+		snapshot.diff = changes;
+		delete snapshot.vars;
+		delete snapshot.watches;
+	}
+
 	// ── Console & exceptions (shared implementation) ──────────────────
 
 	getConsoleMessages(
@@ -87,6 +281,26 @@ export abstract class BaseSession implements Session {
 		this.consoleMessages = [];
 	}
 
+	getOutput(
+		options: { stream?: OutputStream; since?: number; after?: number; clear?: boolean } = {},
+	): OutputEntry[] {
+		let entries = [...this.outputEntries];
+		if (options.stream) {
+			entries = entries.filter((e) => e.stream === options.stream);
+		}
+		if (options.after !== undefined) {
+			const after = options.after;
+			entries = entries.filter((e) => e.seq > after);
+		}
+		if (options.since !== undefined && options.since > 0) {
+			entries = entries.slice(-options.since);
+		}
+		if (options.clear) {
+			this.outputEntries = [];
+		}
+		return entries;
+	}
+
 	/**
 	 * Push a console message and trim buffer if needed.
 	 * Subclasses call this from their protocol-specific event handlers.
@@ -96,6 +310,7 @@ export abstract class BaseSession implements Session {
 		if (this.consoleMessages.length > MAX_BUFFERED_MESSAGES + BUFFER_TRIM_BATCH) {
 			this.consoleMessages.splice(0, BUFFER_TRIM_BATCH);
 		}
+		this.emitEvent({ type: "console", message: msg });
 	}
 
 	/**
@@ -107,6 +322,100 @@ export abstract class BaseSession implements Session {
 		if (this.exceptionEntries.length > MAX_BUFFERED_MESSAGES + BUFFER_TRIM_BATCH) {
 			this.exceptionEntries.splice(0, BUFFER_TRIM_BATCH);
 		}
+		this.emitEvent({ type: "exception", exception: entry });
+	}
+
+	// ── Debuggee stdio ────────────────────────────────────────────────
+
+	/**
+	 * Write text to the debuggee's stdin and optionally close it (EOF).
+	 */
+	async sendInput(
+		text: string,
+		options: { eof?: boolean } = {},
+	): Promise<{ bytes: number; eof: boolean }> {
+		const stdin = this.debuggeeStdin;
+		if (!stdin) {
+			throw new Error("Debuggee stdin is not available");
+		}
+		try {
+			if (text) {
+				stdin.write(text);
+				await stdin.flush();
+			}
+			if (options.eof) {
+				this.debuggeeStdin = null;
+				await stdin.end();
+			}
+		} catch (err) {
+			this.debuggeeStdin = null;
+			throw new Error(
+				`Failed to write to debuggee stdin: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+		return { bytes: Buffer.byteLength(text), eof: options.eof === true };
+	}
+
+	/**
+	 * Pump a child's stdout/stderr into the output buffer until the stream closes.
+	 * `onChunk` lets subclasses mirror the raw text elsewhere (e.g. console messages).
+	 */
+	protected pumpOutput(
+		reader: { read(): Promise<{ done: boolean; value?: Uint8Array }> },
+		stream: OutputStream,
+		decoder: TextDecoder = new TextDecoder(),
+		onChunk?: (text: string) => void,
+	): void {
+		const pump = (): void => {
+			reader
+				.read()
+				.then(({ done, value }) => {
+					if (value) {
+						const text = decoder.decode(value, { stream: true });
+						this.pushOutput(stream, text);
+						onChunk?.(text);
+					}
+					if (done) this.flushOutput(stream);
+					else pump();
+				})
+				.catch(() => {
+					// Stream closed or errored — expected during process exit
+				});
+		};
+		pump();
+	}
+
+	/**
+	 * Record a chunk of debuggee stdout/stderr. Chunks are split into lines;
+	 * a trailing partial line is held back until its newline arrives or
+	 * flushOutput() is called.
+	 */
+	protected pushOutput(stream: OutputStream, chunk: string): void {
+		const lines = (this.partialOutput[stream] + chunk).split("\n");
+		this.partialOutput[stream] = lines.pop() ?? "";
+		for (const line of lines) {
+			this.appendOutputLine(stream, line);
+		}
+	}
+
+	/** Emit a buffered partial line (e.g. when the stream closes). */
+	protected flushOutput(stream: OutputStream): void {
+		if (this.partialOutput[stream]) {
+			this.appendOutputLine(stream, this.partialOutput[stream]);
+			this.partialOutput[stream] = "";
+		}
+	}
+
+	private appendOutputLine(stream: OutputStream, line: string): void {
+		this.outputEntries.push({
+			seq: ++this.outputSeq,
+			timestamp: Date.now(),
+			stream,
+			text: line.endsWith("\r") ? line.slice(0, -1) : line,
+		});
+		if (this.outputEntries.length > MAX_BUFFERED_MESSAGES + BUFFER_TRIM_BATCH) {
+			this.outputEntries.splice(0, BUFFER_TRIM_BATCH);
+		}
 	}
 
 	/**
@@ -116,9 +425,26 @@ export abstract class BaseSession implements Session {
 	protected resetState(): void {
 		this.state = "idle";
 		this.pauseInfo = null;
+		this.exceptionPauseMode = "none";
+		// Snapshot files are only reachable through HS refs, so drop them too
+		for (const entry of this.refs.list("HS")) {
+			rmSync(entry.remoteId, { force: true });
+		}
 		this.refs.clearAll();
 		this.consoleMessages = [];
 		this.exceptionEntries = [];
+		this.outputEntries = [];
+		this.breakpointHits.clear();
+		this.resetDiffBaseline();
+		this.partialOutput = { stdout: "", stderr: "" };
+		this.debuggeeStdin = null;
+	}
+
+	/** Forget the values `--diff` compares against; a new process starts from scratch. */
+	protected resetDiffBaseline(): void {
+		this.pauseCount = 0;
+		this.pauseValues = null;
+		this.previousPauseValues = null;
 	}
 
 	// ── Pending config ───────────────────────────────────────────────
@@ -141,7 +467,10 @@ export abstract class BaseSession implements Session {
 	abstract restart(): Promise<LaunchResult>;
 
 	abstract continue(): Promise<void>;
-	abstract step(mode: "over" | "into" | "out"): Promise<void>;
+	abstract step(
+		mode: "over" | "into" | "out",
+		options?: { granularity?: StepGranularity },
+	): Promise<void>;
 	abstract pause(): Promise<void>;
 	abstract runTo(file: string, line: number): Promise<void>;
 	abstract restartFrame(frameRef?: string): Promise<{ status: string }>;
@@ -188,6 +517,10 @@ export abstract class BaseSession implements Session {
 		ref: string,
 		options?: { own?: boolean; internal?: boolean; depth?: number },
 	): Promise<PropEntry[]>;
+	abstract dumpObject(
+		ref: string,
+		options?: { depth?: number; maxBytes?: number },
+	): Promise<DumpResult>;
 	abstract getSource(options?: {
 		file?: string;
 		lines?: number;
@@ -0,0 +1,264 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { z } from "zod/mini";
+import type { BreakpointFileResult, ExceptionPauseMode, Session } from "./session.ts";
+
+/** Project-relative location of the breakpoint file, loaded automatically on launch. */
+export const DEFAULT_BREAKPOINT_FILE = ".dbg/breakpoints.json";
+
+const BreakpointFileSchema = z.object({
+	version: z.literal(1),
+	breakpoints: z.array(
+		z.object({
+			/** The saved ref, kept only when another entry depends on it */
+			ref: z.optional(z.string()),
+			file: z.string(),
+			line: z.number(),
+			condition: z.optional(z.string()),
+			hitCount: z.optional(z.number()),
+			capture: z.optional(z.boolean()),
+			captureFrames: z.optional(z.number()),
+			once: z.optional(z.boolean()),
+			after: z.optional(z.string()),
+			disabled: z.optional(z.boolean()),
+		}),
+	),
+	logpoints: z.array(
+		z.object({
+			file: z.string(),
+			line: z.number(),
+			template: z.string(),
+			condition: z.optional(z.string()),
+			maxEmissions: z.optional(z.number()),
+			disabled: z.optional(z.boolean()),
+		}),
+	),
+	functions: z.optional(
+		z.array(
+			z.object({
+				ref: z.optional(z.string()),
+				name: z.string(),
+				condition: z.optional(z.string()),
+				hitCount: z.optional(z.number()),
+			}),
+		),
+	),
+	catch: z.optional(
+		z.union([z.literal("all"), z.literal("uncaught"), z.literal("caught"), z.literal("none")]),
+	),
+	blackbox: z.optional(z.array(z.string())),
+});
+
+type BreakpointFile = z.infer<typeof BreakpointFileSchema>;
+
+/** Store paths under the project directory relative to it, so the file can be shared. */
+function toStoredPath(url: string, baseDir: string): string {
+	const path = url.startsWith("file://") ? url.slice(7) : url;
+	if (!isAbsolute(path)) return path;
+	const rel = relative(baseDir, path);
+	return rel.startsWith("..") ? path : rel;
+}
+
+function fromStoredPath(path: string, baseDir: string): string {
+	if (isAbsolute(path)) return path;
+	const absolute = resolve(baseDir, path);
+	// Source-map paths such as webpack:///src/app.ts are matched by suffix as-is
+	return existsSync(absolute) ? absolute : path;
+}
+
+/**
+ * Write the session's breakpoints, logpoints, catch mode and blackbox
+ * patterns to `path`. Mapped breakpoints are stored at their original
+ * source location; triggers of dependent breakpoints keep their ref.
+ */
+export function saveBreakpoints(
+	session: Session,
+	path: string,
+	baseDir: string,
+): BreakpointFileResult {
+	const data: BreakpointFile = { version: 1, breakpoints: [], logpoints: [] };
+	const functions: NonNullable<BreakpointFile["functions"]> = [];
+	const breakpoints = session.listBreakpoints();
+	const triggers = new Set(breakpoints.map((bp) => bp.after));
+	for (const bp of breakpoints) {
+		// Watchpoints are bound to a live object and cannot be restored later
+		if (bp.watchpoint) continue;
+		const ref = triggers.has(bp.ref) ? bp.ref : undefined;
+		if (bp.functionName) {
+			functions.push({
+				ref,
+				name: bp.functionName,
+				condition: bp.condition,
+				hitCount: bp.hitCount,
+			});
+			continue;
+		}
+		const file = toStoredPath(bp.originalUrl ?? bp.url, baseDir);
+		const line = bp.originalLine ?? bp.line;
+		// A breakpoint waiting for its trigger is listed as disabled until then
+		const disabled = (bp.disabled && !bp.after) || undefined;
+		if (bp.type === "LP") {
+			data.logpoints.push({
+				file,
+				line,
+				template: bp.template ?? "",
+				condition: bp.condition,
+				maxEmissions: bp.maxEmissions,
+				disabled,
+			});
+		} else {
+			data.breakpoints.push({
+				ref,
+				file,
+				line,
+				condition: bp.condition,
+				hitCount: bp.hitCount,
+				capture: bp.capture,
+				captureFrames: bp.captureFrames,
+				once: bp.once,
+				after: bp.after,
+				disabled,
+			});
+		}
+	}
+	if (functions.length > 0) data.functions = functions;
+
+	const mode = session.getExceptionPause();
+	if (mode !== "none") data.catch = mode;
+	const patterns = session.listBlackbox();
+	if (patterns.length > 0) data.blackbox = patterns;
+
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, `${JSON.stringify(data, null, "\t")}\n`);
+	return {
+		path,
+		breakpoints: data.breakpoints.length,
+		logpoints: data.logpoints.length,
+		functions: functions.length,
+		catch: data.catch,
+		blackbox: patterns.length,
+		errors: [],
+	};
+}
+
+/**
+ * Apply a breakpoint file to the session. Entries that cannot be applied
+ * (e.g. unsupported by the runtime) are reported in `errors` instead of
+ * aborting the rest. Dependent breakpoints are set last, once their
+ * trigger exists under its new ref.
+ */
+export async function loadBreakpoints(
+	session: Session,
+	path: string,
+	baseDir: string,
+): Promise<BreakpointFileResult> {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (err) {
+		throw new Error(
+			`Cannot read breakpoint file ${path}: ${err instanceof Error ? err.message : String(err)}`,
+		);
+	}
+	const parsed = BreakpointFileSchema.safeParse(raw);
+	if (!parsed.success) {
+		throw new Error(`Invalid breakpoint file ${path}`);
+	}
+	const data = parsed.data;
+	const result: BreakpointFileResult = {
+		path,
+		breakpoints: 0,
+		logpoints: 0,
+		functions: 0,
+		blackbox: 0,
+		errors: [],
+	};
+	const attempt = async (label: string, apply: () => Promise<void>): Promise<boolean> => {
+		try {
+			await apply();
+			return true;
+		} catch (err) {
+			result.errors.push(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+			return false;
+		}
+	};
+
+	if (data.blackbox && data.blackbox.length > 0 && session.capabilities.blackboxing) {
+		const patterns = data.blackbox;
+		const applied = await attempt("blackbox", async () => {
+			await session.addBlackbox(patterns);
+		});
+		if (applied) {
+			result.blackbox = patterns.length;
+		}
+	}
+	if (data.catch) {
+		const mode: ExceptionPauseMode = data.catch;
+		if (await attempt("catch", () => session.setExceptionPause(mode))) {
+			result.catch = mode;
+		}
+	}
+
+	// Saved trigger refs -> refs of the re-created breakpoints
+	const refs = new Map<string, string>();
+	const applyBreakpoint = async (bp: BreakpointFile["breakpoints"][number], after?: string) => {
+		const applied = await attempt(`${bp.file}:${bp.line}`, async () => {
+			const { ref } = await session.setBreakpoint(fromStoredPath(bp.file, baseDir), bp.line, {
+				condition: bp.condition,
+				hitCount: bp.hitCount,
+				capture: bp.capture,
+				captureFrames: bp.captureFrames,
+				once: bp.once,
+				after,
+			});
+			if (bp.ref) refs.set(bp.ref, ref);
+			if (bp.disabled) await session.toggleBreakpoint(ref);
+		});
+		if (applied) result.breakpoints++;
+	};
+
+	for (const bp of data.breakpoints) {
+		if (!bp.after) await applyBreakpoint(bp);
+	}
+	for (const lp of data.logpoints) {
+		const applied = await attempt(`${lp.file}:${lp.line}`, async () => {
+			const { ref } = await session.setLogpoint(
+				fromStoredPath(lp.file, baseDir),
+				lp.line,
+				lp.template,
+				{ condition: lp.condition, maxEmissions: lp.maxEmissions },
+			);
+			if (lp.disabled) await session.toggleBreakpoint(ref);
+		});
+		if (applied) result.logpoints++;
+	}
+	for (const fn of data.functions ?? []) {
+		const applied = await attempt(fn.name, async () => {
+			if (!session.capabilities.functionBreakpoints || !session.setFunctionBreakpoint) {
+				throw new Error("Function breakpoints are not supported by this runtime");
+			}
+			const { ref } = await session.setFunctionBreakpoint(fn.name, {
+				condition: fn.condition,
+				hitCount: fn.hitCount,
+			});
+			if (fn.ref) refs.set(fn.ref, ref);
+		});
+		if (applied) result.functions++;
+	}
+
+	// Triggers may themselves be dependent: apply in rounds until no more resolve
+	let pending = data.breakpoints.filter((bp) => bp.after);
+	while (pending.length > 0) {
+		const ready = pending.filter((bp) => bp.after && refs.has(bp.after));
+		if (ready.length === 0) break;
+		for (const bp of ready) {
+			await applyBreakpoint(bp, refs.get(bp.after ?? ""));
+		}
+		pending = pending.filter((bp) => !ready.includes(bp));
+	}
+	for (const bp of pending) {
+		result.errors.push(`${bp.file}:${bp.line}: Unknown trigger breakpoint: ${bp.after}`);
+	}
+
+	return result;
+}
@@ -3,15 +3,16 @@ import type { DaemonLogger } from "../daemon/logger.ts";
 import { DapSession } from "../dap/session.ts";
 import type { Session } from "./session.ts";
 
-const DAP_RUNTIMES = new Set(["lldb", "lldb-dap", "codelldb", "python", "debugpy"]);
+const CDP_RUNTIMES = new Set(["node", "bun", "deno"]);
+const DAP_RUNTIMES = new Set(["lldb", "lldb-dap", "codelldb", "python", "debugpy", "go", "dlv"]);
 
 /**
  * Returns true if the given runtime string should use a DAP session
- * (as opposed to the default CDP session for Node.js/Bun).
+ * (as opposed to the default CDP session for Node.js/Bun/Deno).
  */
 export function isDapRuntime(runtime: string | undefined): runtime is string {
-	if (runtime === undefined || runtime === "node" || runtime === "bun") return false;
-	return DAP_RUNTIMES.has(runtime) || !["node", "bun"].includes(runtime);
+	if (runtime === undefined || CDP_RUNTIMES.has(runtime)) return false;
+	return DAP_RUNTIMES.has(runtime) || !CDP_RUNTIMES.has(runtime);
 }
 
 /**
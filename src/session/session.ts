@@ -1,7 +1,13 @@
+import type { CoverageFileResult } from "../profiling/coverage.ts";
+import type { CpuFunctionSummary } from "../profiling/cpu-profile.ts";
+import type { HeapClassDiff, HeapClassSummary } from "../profiling/heap-snapshot.ts";
 import type {
 	ConsoleMessage,
 	ExceptionEntry,
 	LaunchResult,
+	OutputEntry,
+	OutputStream,
+	SessionEvent,
 	SessionStatus,
 	StateOptions,
 	StateSnapshot,
@@ -10,7 +16,7 @@ import type {
 // ── Capabilities ─────────────────────────────────────────────────────
 
 export interface SessionCapabilities {
-	/** DAP: setFunctionBreakpoints */
+	/** DAP: setFunctionBreakpoints; CDP: Debugger.setBreakpointOnFunctionCall */
 	functionBreakpoints: boolean;
 	/** CDP: logpoints via condition expression */
 	logpoints: boolean;
@@ -38,6 +44,22 @@ export interface SessionCapabilities {
 	breakpointToggle: boolean;
 	/** CDP: restart via stop + re-launch */
 	restart: boolean;
+	/** CDP: HeapProfiler.takeHeapSnapshot */
+	heapSnapshots: boolean;
+	/** CDP: Profiler.start/stop */
+	cpuProfiling: boolean;
+	/** CDP: Profiler.startPreciseCoverage */
+	coverage: boolean;
+	/** CDP: snapshot-and-continue breakpoints (break --capture) */
+	breakpointCapture: boolean;
+	/** CDP: accessor-based property traps; DAP: setDataBreakpoints */
+	watchpoints: boolean;
+	/** DAP: threads request (goroutines for Go) */
+	threads: boolean;
+	/** DAP: disassemble request and instruction-granularity stepping */
+	disassembly: boolean;
+	/** DAP: readMemory/writeMemory requests and the Registers scope */
+	memory: boolean;
 }
 
 // ── Shared result types ──────────────────────────────────────────────
@@ -59,6 +81,56 @@ export interface BreakpointListItem {
 	disabled?: boolean;
 	originalUrl?: string;
 	originalLine?: number;
+	maxEmissions?: number;
+	/** Set for function breakpoints, whose url is the function name */
+	functionName?: string;
+	/** Records a snapshot on each hit instead of pausing */
+	capture?: boolean;
+	captureFrames?: number;
+	/** Removed after its first hit */
+	once?: boolean;
+	/** Inactive until this breakpoint is hit */
+	after?: string;
+	/** Set for watchpoints: the watched target, e.g. @v3.status */
+	watchpoint?: string;
+	access?: WatchpointAccess;
+	/** Times the breakpoint paused (or the logpoint emitted) since the last reset */
+	hits?: number;
+	/** Timestamp of the most recent hit */
+	lastHit?: number;
+}
+
+/** Snapshot recorded by a capture breakpoint on one hit. */
+export interface CapturedHit {
+	/** 1-based hit number, counting hits dropped from the history */
+	hit: number;
+	timestamp: number;
+	vars: Array<{ name: string; type: string; value: string }>;
+	stack: Array<{ functionName: string; file: string; line: number; column?: number }>;
+}
+
+export interface BreakpointHitsResult {
+	ref: string;
+	total: number;
+	hits: CapturedHit[];
+}
+
+/** Expression re-evaluated in the top frame on every pause. */
+export interface WatchEntry {
+	id: string;
+	expression: string;
+}
+
+/** Outcome of `break-save` / `break-load`. */
+export interface BreakpointFileResult {
+	path: string;
+	breakpoints: number;
+	logpoints: number;
+	functions: number;
+	catch?: ExceptionPauseMode;
+	blackbox: number;
+	/** Entries that could not be applied, as "location: reason" */
+	errors: string[];
 }
 
 export interface EvalResult {
@@ -95,7 +167,7 @@ export interface StackFrameEntry {
 
 export interface SourceResult {
 	url: string;
-	lines: Array<{ line: number; text: string; current?: boolean }>;
+	lines: Array<{ line: number; text: string; current?: boolean; hitCount?: number }>;
 }
 
 export interface ScriptEntry {
@@ -123,6 +195,26 @@ export interface BreakableLocation {
 
 export interface FunctionBreakpointResult {
 	ref: string;
+	/** Where the function is defined, source-mapped when possible (CDP only) */
+	location?: { url: string; line: number; column?: number };
+}
+
+/** A remote value serialized to JSON by `dbg dump`. */
+export interface DumpResult {
+	/** Plain JSON where possible; other values are tagged objects such as { $type: "Map", entries } */
+	value: unknown;
+	/** Some values were replaced by { $type: "Truncated" } because of the depth or size limit */
+	truncated: boolean;
+}
+
+export type WatchpointAccess = "read" | "write" | "readWrite";
+
+export interface WatchpointResult {
+	ref: string;
+	target: string;
+	access: WatchpointAccess;
+	/** What the debug adapter reports it is watching (DAP only) */
+	description?: string;
 }
 
 export interface ModuleEntry {
@@ -132,6 +224,94 @@ export interface ModuleEntry {
 	symbolStatus?: string;
 }
 
+export type StepGranularity = "line" | "instruction";
+
+export interface DisassembledInstruction {
+	address: string;
+	instruction: string;
+	/** Raw instruction bytes as hex, when the adapter reports them */
+	bytes?: string;
+	/** Enclosing symbol, e.g. main+16 */
+	symbol?: string;
+	file?: string;
+	line?: number;
+	/** The frame's current instruction pointer */
+	current: boolean;
+}
+
+export interface MemoryReadResult {
+	address: string;
+	/** The bytes read, as hex */
+	data: string;
+	/** Bytes after the readable ones that could not be read */
+	unreadableBytes?: number;
+}
+
+export interface RegisterGroup {
+	name: string;
+	registers: Array<{ name: string; value: string }>;
+}
+
+export interface ThreadFrame {
+	ref: string;
+	functionName: string;
+	file: string;
+	line: number;
+	column?: number;
+}
+
+export interface ThreadInfo {
+	id: number;
+	name: string;
+	state: "paused" | "running";
+	/** The thread stack, vars, eval and step act on */
+	current: boolean;
+	/** Top frame, for paused threads */
+	frame?: ThreadFrame;
+}
+
+export interface ThreadStack {
+	id: number;
+	name: string;
+	current: boolean;
+	frames: ThreadFrame[];
+}
+
+export interface HeapSnapshotResult {
+	ref: string;
+	path: string;
+	nodeCount: number;
+	totalSize: number;
+}
+
+export interface HeapSummaryResult {
+	ref: string;
+	nodeCount: number;
+	totalSize: number;
+	classes: HeapClassSummary[];
+}
+
+export interface HeapDiffResult {
+	base: string;
+	compare: string;
+	sizeDelta: number;
+	nodeDelta: number;
+	classes: HeapClassDiff[];
+}
+
+export interface CpuProfileResult {
+	duration: number;
+	sampleCount: number;
+	functions: CpuFunctionSummary[];
+	/** Where the raw .cpuprofile was written, if requested */
+	path?: string;
+}
+
+export interface CoverageResult {
+	active: boolean;
+	files: CoverageFileResult[];
+}
+
 // ── Source map resolver interface (for entry.ts compatibility) ────────
 
 export interface SourceMapAccess {
@@ -168,7 +348,7 @@ export interface Session {
 
 	// ── Execution control ─────────────────────────────────────────
 	continue(): Promise<void>;
-	step(mode: "over" | "into" | "out"): Promise<void>;
+	step(mode: "over" | "into" | "out", options?: { granularity?: StepGranularity }): Promise<void>;
 	pause(): Promise<void>;
 	runTo(file: string, line: number): Promise<void>;
 	restartFrame(frameRef?: string): Promise<{ status: string }>;
@@ -176,6 +356,15 @@ export interface Session {
 	// ── State ─────────────────────────────────────────────────────
 	buildState(options?: StateOptions): Promise<StateSnapshot>;
 
+	// ── Events ────────────────────────────────────────────────────
+	/** Subscribe to session events. Returns the unsubscribe function. */
+	onEvent(listener: (event: SessionEvent) => void): () => void;
+	/** Resolve with the next matching event, or null once timeoutMs elapses. */
+	waitForEvent(
+		match: (event: SessionEvent) => boolean,
+		timeoutMs: number,
+	): Promise<SessionEvent | null>;
+
 	// ── Breakpoints ───────────────────────────────────────────────
 	setBreakpoint(
 		file: string,
@@ -185,11 +374,18 @@ export interface Session {
 			hitCount?: number;
 			urlRegex?: string;
 			column?: number;
+			capture?: boolean;
+			captureFrames?: number;
+			/** Remove the breakpoint after its first hit */
+			once?: boolean;
+			/** Stay inactive until this breakpoint ref is hit */
+			after?: string;
 		},
 	): Promise<BreakpointResult>;
 	removeBreakpoint(ref: string): Promise<void>;
 	removeAllBreakpoints(): Promise<void>;
 	listBreakpoints(): BreakpointListItem[];
+	resetBreakpointHits(ref?: string): void;
 	toggleBreakpoint(ref: string): Promise<ToggleResult>;
 	getBreakableLocations(
 		file: string,
@@ -203,6 +399,25 @@ export interface Session {
 		options?: { condition?: string; maxEmissions?: number },
 	): Promise<BreakpointResult>;
 	setExceptionPause(mode: ExceptionPauseMode): Promise<void>;
+	getExceptionPause(): ExceptionPauseMode;
+	/** Break on calls to a function: a symbol name for DAP, an expression for CDP. */
+	setFunctionBreakpoint?(
+		name: string,
+		options?: { condition?: string; hitCount?: number },
+	): Promise<FunctionBreakpointResult>;
+	/** Break when a property is read and/or written, e.g. `@v3.status`. Listed and removed as a breakpoint. */
+	setWatchpoint?(
+		target: string,
+		options?: { access?: WatchpointAccess },
+	): Promise<WatchpointResult>;
+
+	// ── Watches ───────────────────────────────────────────────────
+	addWatch(expression: string): WatchEntry;
+	listWatches(): WatchEntry[];
+	/** Remove a watch by W# id, or all watches with "all". */
+	removeWatch(id: string): void;
+	/** Evaluate every watch in a frame (top frame by default); errors are reported per watch. */
+	evaluateWatches(frame?: string): Promise<NonNullable<StateSnapshot["watches"]>>;
 
 	// ── Inspection ────────────────────────────────────────────────
 	eval(
@@ -219,11 +434,14 @@ export interface Session {
 		ref: string,
 		options?: { own?: boolean; internal?: boolean; depth?: number },
 	): Promise<PropEntry[]>;
+	/** Serialize the value behind a ref to JSON, handling cycles and non-JSON types. */
+	dumpObject(ref: string, options?: { depth?: number; maxBytes?: number }): Promise<DumpResult>;
 	getSource(options?: {
 		file?: string;
 		lines?: number;
 		all?: boolean;
 		generated?: boolean;
+		coverage?: boolean;
 	}): Promise<SourceResult>;
 	getScripts(filter?: string): ScriptEntry[];
 	getStack(options?: {
@@ -245,6 +463,13 @@ export interface Session {
 		clear?: boolean;
 	}): ConsoleMessage[];
 	getExceptions(options?: { since?: number }): ExceptionEntry[];
+	getOutput(options?: {
+		stream?: OutputStream;
+		since?: number;
+		after?: number;
+		clear?: boolean;
+	}): OutputEntry[];
+	sendInput(text: string, options?: { eof?: boolean }): Promise<{ bytes: number; eof: boolean }>;
 
 	// ── Mutation ──────────────────────────────────────────────────
 	setVariable(varName: string, value: string, options?: { frame?: string }): Promise<SetVarResult>;
@@ -261,11 +486,37 @@ export interface Session {
 	removeBlackbox(patterns: string[]): Promise<string[] | string>;
 
 	// ── DAP-specific (optional, guarded by capabilities) ──────────
-	setFunctionBreakpoint?(
-		name: string,
-		options?: { condition?: string; hitCount?: number },
-	): Promise<FunctionBreakpointResult>;
 	getModules?(filter?: string): Promise<ModuleEntry[]>;
+	listThreads?(): Promise<ThreadInfo[]>;
+	/** Make a paused thread the one stack, vars, eval and step act on. */
+	selectThread?(id: number): Promise<ThreadInfo>;
+	/** Call stacks of every paused thread. */
+	getAllThreadStacks?(): Promise<ThreadStack[]>;
+	/** Instructions around a frame's instruction pointer, or from an address. */
+	disassemble?(options?: {
+		frame?: string;
+		count?: number;
+		address?: string;
+	}): Promise<DisassembledInstruction[]>;
+	/** Read from an address, or from the memory behind a variable @ref. */
+	readMemory?(target: string, options?: { count?: number }): Promise<MemoryReadResult>;
+	writeMemory?(address: string, data: string): Promise<{ address: string; bytesWritten: number }>;
+	getRegisters?(options?: { frame?: string }): Promise<RegisterGroup[]>;
+
+	// ── CDP-specific (optional, guarded by capabilities) ──────────
+	takeHeapSnapshot?(): Promise<HeapSnapshotResult>;
+	getHeapSummary?(ref: string, options?: { top?: number }): Promise<HeapSummaryResult>;
+	diffHeapSnapshots?(
+		base: string,
+		compare: string,
+		options?: { top?: number },
+	): Promise<HeapDiffResult>;
+	startCpuProfile?(options?: { interval?: number }): Promise<{ interval?: number }>;
+	stopCpuProfile?(options?: { top?: number; out?: string }): Promise<CpuProfileResult>;
+	getBreakpointHits?(ref: string, options?: { last?: number }): BreakpointHitsResult;
+	startCoverage?(): Promise<{ active: boolean }>;
+	takeCoverage?(options?: { filter?: string; all?: boolean }): Promise<CoverageResult>;
+	stopCoverage?(options?: { filter?: string; all?: boolean }): Promise<CoverageResult>;
 
 	// ── Path mapping (optional, guarded by capabilities) ──────────
 	setRemaps?(remaps: [string, string][]): void;
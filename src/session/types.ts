@@ -1,3 +1,5 @@
+import type { BreakpointFileResult } from "./session.ts";
+
 export interface PauseInfo {
 	reason: string;
 	scriptId?: string;
@@ -18,6 +20,19 @@ export interface StateOptions {
 	frame?: string; // @fN ref
 	allScopes?: boolean;
 	generated?: boolean;
+	/** Replace locals and watches with their changes since the previous pause */
+	diff?: boolean;
+}
+
+/** A local or watch value that changed between two pauses. */
+export interface StateChange {
+	kind: "changed" | "added" | "removed";
+	/** Variable name, or the expression of a watch */
+	name: string;
+	/** W# id when the value is a watch */
+	watch?: string;
+	value?: string;
+	previous?: string;
 }
 
 export interface StateSnapshot {
@@ -34,6 +49,10 @@ export interface StateSnapshot {
 		column?: number;
 		isAsync?: boolean;
 	}>;
+	/** Watch expressions evaluated at this pause; ref is the @v ref of the value */
+	watches?: Array<{ id: string; expression: string; ref?: string; value?: string; error?: string }>;
+	/** Set instead of vars/watches by `diff`, once a previous pause has been seen */
+	diff?: StateChange[];
 	breakpointCount?: number;
 	lastException?: { text: string; description?: string };
 }
@@ -45,6 +64,17 @@ export interface ConsoleMessage {
 	args?: string[]; // formatted args
 	url?: string;
 	line?: number;
+	/** Ref of the logpoint that produced the message (DAP) */
+	logpoint?: string;
+}
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface OutputEntry {
+	seq: number; // monotonically increasing, used as a cursor by `output --follow`
+	timestamp: number;
+	stream: OutputStream;
+	text: string;
 }
 
 export interface ExceptionEntry {
@@ -57,11 +87,23 @@ export interface ExceptionEntry {
 	stackTrace?: string;
 }
 
+/** Something that happened in the debuggee, as observed by `dbg wait` and `dbg events`. */
+export type SessionEvent =
+	| { type: "pause"; reason: string; url?: string; line?: number }
+	| { type: "resume" }
+	| { type: "scriptParsed"; url: string; scriptId?: string }
+	| { type: "breakpointResolved"; url: string; line: number; ref?: string }
+	| { type: "console"; message: ConsoleMessage }
+	| { type: "exception"; exception: ExceptionEntry }
+	| { type: "exit" };
+
 export interface LaunchResult {
 	pid: number;
 	wsUrl: string;
 	paused: boolean;
 	pauseInfo?: PauseInfo;
+	/** Breakpoint file applied automatically after launch */
+	restored?: BreakpointFileResult;
 }
 
 export interface AttachResult {
@@ -1,4 +1,5 @@
 import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
 import {
 	generatedPositionFor,
 	LEAST_UPPER_BOUND,
@@ -111,6 +112,8 @@ export class SourceMapResolver {
 
 			const resolvedSources = sources.map((s) => {
 				if (s.startsWith("/")) return s;
+				// Deno's emitted maps name sources by file:// URL
+				if (s.startsWith("file://")) return fileURLToPath(s);
 				return resolve(scriptDir, s);
 			});
 
@@ -0,0 +1,42 @@
+#!/usr/bin/env bun
+// Minimal stdio DAP adapter: answers every request with success, supports
+// the restart request, and echoes each request as a console "output" event
+// ("request <json>") before answering it.
+let seq = 1;
+
+function send(message) {
+	const json = JSON.stringify({ seq: seq++, ...message });
+	process.stdout.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+}
+
+function handle(request) {
+	send({
+		type: "event",
+		event: "output",
+		body: { category: "console", output: `request ${JSON.stringify(request)}\n` },
+	});
+	const body = request.command === "initialize" ? { supportsRestartRequest: true } : {};
+	send({
+		type: "response",
+		request_seq: request.seq,
+		success: true,
+		command: request.command,
+		body,
+	});
+	if (request.command === "launch") send({ type: "event", event: "initialized" });
+	if (request.command === "disconnect") process.exit(0);
+}
+
+let buffer = Buffer.alloc(0);
+for await (const chunk of Bun.stdin.stream()) {
+	buffer = Buffer.concat([buffer, chunk]);
+	while (true) {
+		const headerEnd = buffer.indexOf("\r\n\r\n");
+		if (headerEnd === -1) break;
+		const length = Number(/Content-Length: (\d+)/i.exec(buffer.subarray(0, headerEnd).toString())?.[1]);
+		const start = headerEnd + 4;
+		if (buffer.length < start + length) break;
+		handle(JSON.parse(buffer.subarray(start, start + length).toString()));
+		buffer = buffer.subarray(start + length);
+	}
+}
@@ -0,0 +1,11 @@
+function handle(id, payload) {
+	const size = payload.length;
+	return size * id;
+}
+
+let total = 0;
+for (let i = 1; i <= 5; i++) {
+	total += handle(i, "x".repeat(i));
+}
+debugger;
+console.log("total", total);
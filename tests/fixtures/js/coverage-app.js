@@ -0,0 +1,17 @@
+function classify(n) {
+	if (n > 0) {
+		return "positive";
+	}
+	return "non-positive";
+}
+
+function unused() {
+	return "never called";
+}
+
+const results = [];
+for (let i = 1; i <= 3; i++) {
+	results.push(classify(i));
+}
+debugger;
+console.log(results.join(","));
@@ -0,0 +1,19 @@
+const config = {
+	name: "api",
+	port: 8080,
+	started: new Date("2024-01-02T03:04:05.000Z"),
+	limits: new Map([["rps", 100]]),
+	tags: new Set(["a", "b"]),
+	bytes: new Uint8Array([1, 2, 3]),
+	big: 12345678901234567890n,
+	ratio: Number.NaN,
+	nested: { list: [1, "two", null] },
+};
+config.self = config;
+const large = {
+	items: Array.from({ length: 200_000 }, (_, i) => ({ id: i, name: `item${i}` })),
+	samples: new Float64Array(1_000_000),
+	raw: new ArrayBuffer(1_000_000),
+};
+debugger;
+console.log(config.name, large.items.length);
@@ -0,0 +1,12 @@
+class UserService {
+	save(user) {
+		const saved = { ...user, id: 1 };
+		return saved;
+	}
+}
+
+const service = new UserService();
+debugger;
+service.save({ name: "ada" });
+service.save({ name: "grace" });
+console.log("done");
@@ -0,0 +1,13 @@
+class LeakyEntry {
+	constructor(i) {
+		this.payload = `entry-${i}`.repeat(10);
+	}
+}
+
+const cache = [];
+debugger;
+for (let i = 0; i < 500; i++) {
+	cache.push(new LeakyEntry(i));
+}
+debugger;
+console.log(cache.length);
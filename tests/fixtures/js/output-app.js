@@ -0,0 +1,6 @@
+process.stdout.write("first line\n");
+process.stdout.write("split ");
+process.stdout.write("line\n");
+process.stderr.write("error line\n");
+debugger;
+process.stdout.write("no trailing newline");
@@ -0,0 +1,17 @@
+function fib(n) {
+	return n < 2 ? n : fib(n - 1) + fib(n - 2);
+}
+
+function busy() {
+	let total = 0;
+	const end = Date.now() + 300;
+	while (Date.now() < end) {
+		total += fib(20);
+	}
+	return total;
+}
+
+debugger;
+const result = busy();
+debugger;
+console.log(result);
@@ -0,0 +1,10 @@
+let received = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => {
+	received += chunk;
+});
+process.stdin.on("end", () => {
+	const lines = received.split("\n").filter(Boolean);
+	debugger;
+	console.log(`received ${lines.length} lines`);
+});
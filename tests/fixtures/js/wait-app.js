@@ -0,0 +1,10 @@
+// Events arrive over time: a console message, a pause, then an uncaught error
+setTimeout(() => {
+	console.log("server ready on port 3000");
+	setTimeout(() => {
+		debugger;
+		setTimeout(() => {
+			throw new Error("request failed");
+		}, 50);
+	}, 50);
+}, 300);
@@ -0,0 +1,13 @@
+const order = { id: 1, status: "new" };
+
+function ship(o) {
+	o.status = "shipped";
+}
+
+function describe(o) {
+	return `${o.id}: ${o.status}`;
+}
+
+debugger;
+ship(order);
+console.log(describe(order));
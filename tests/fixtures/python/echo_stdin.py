@@ -0,0 +1,9 @@
+import sys
+
+
+def main():
+    line = sys.stdin.readline().strip()
+    print(f"got {line}")
+
+
+main()
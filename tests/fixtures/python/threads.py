@@ -0,0 +1,19 @@
+import threading
+
+ready = threading.Event()
+done = threading.Event()
+
+
+def worker():
+    count = 7
+    ready.set()
+    done.wait()
+    print("worker", count)
+
+
+t = threading.Thread(target=worker, name="worker-1")
+t.start()
+ready.wait()
+value = 1
+done.set()
+t.join()
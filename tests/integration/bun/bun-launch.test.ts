@@ -82,4 +82,20 @@ describe("Bun debugging", () => {
 			expect(session.state).toBe("paused");
 			expect(session.pauseInfo?.reason).toBe("Breakpoint");
 		}));
+
+	test("break on calls to a function expression", () =>
+		withSession("bun-test-break-fn", async (session) => {
+			// Bun's initial pause lands on the fixture's `debugger;` statement
+			await session.launch(["bun", "tests/fixtures/js/fn-app.js"], { brk: true });
+			expect(session.pauseInfo?.line).toBe(8);
+
+			const bp = await session.setFunctionBreakpoint("UserService.prototype.save");
+			expect(bp.location?.url).toEndWith("fn-app.js");
+
+			await session.continue();
+			expect(session.state).toBe("paused");
+			expect((await session.eval("user.name")).value).toBe('"ada"');
+			const state = await session.buildState({});
+			expect(state.location?.line).toBe(3);
+		}));
 });
@@ -117,4 +117,42 @@ describe.skipIf(!HAS_LLDB)("LLDB debugging", () => {
 			await session.removeBreakpoint(bp.ref);
 			expect(session.listBreakpoints().length).toBe(0);
 		}));
+
+	test("disassembles around the current instruction", () =>
+		withDapSession("lldb-test-disasm", async (session) => {
+			await launchAtMain(session);
+			const instructions = await session.disassemble({ count: 8 });
+			expect(instructions.length).toBeGreaterThan(0);
+			expect(instructions.filter((ins) => ins.current).length).toBe(1);
+		}));
+
+	test("step instruction advances the instruction pointer", () =>
+		withDapSession("lldb-test-step-instruction", async (session) => {
+			await launchAtMain(session);
+			const before = (await session.disassemble({ count: 8 })).find((ins) => ins.current);
+			await session.step("into", { granularity: "instruction" });
+			const after = (await session.disassemble({ count: 8 })).find((ins) => ins.current);
+			expect(after?.address).not.toBe(before?.address);
+			expect(session.getStack()[0]?.functionName).toContain("main");
+		}));
+
+	test("reads and writes a variable's memory", () =>
+		withDapSession("lldb-test-memory", async (session) => {
+			await launchAtMain(session);
+			await session.step("over"); // x = 42 assigned
+			const x = (await session.getVars({ names: ["x"] }))[0];
+			expect(x).toBeDefined();
+			const read = await session.readMemory(x?.ref ?? "", { count: 4 });
+			expect(read.data).toBe("2a000000");
+
+			await session.writeMemory(read.address, "07000000");
+			expect((await session.eval("x")).value).toBe("7");
+		}));
+
+	test("lists general purpose registers", () =>
+		withDapSession("lldb-test-registers", async (session) => {
+			await launchAtMain(session);
+			const groups = await session.getRegisters();
+			expect(groups[0]?.registers.length).toBeGreaterThan(0);
+		}));
 });
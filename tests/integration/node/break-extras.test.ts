@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import { CdpSession } from "../../../src/cdp/session.ts";
-import { withPausedSession, withSession } from "../../helpers.ts";
+import { withDebuggerSession, withPausedSession, withSession } from "../../helpers.ts";
 
 describe("break-toggle", () => {
 	test("toggle disables and re-enables a breakpoint", () =>
@@ -15,6 +15,7 @@ describe("break-toggle", () => {
 			const enableResult = await session.toggleBreakpoint(bp.ref);
 			expect(enableResult.state).toBe("enabled");
 			expect(session.listBreakpoints()[0]?.disabled).toBeUndefined();
+			expect(session.listBreakpoints()[0]?.ref).toBe(bp.ref);
 		}));
 
 	test("toggle all disables and re-enables all breakpoints", () =>
@@ -121,3 +122,75 @@ describe("break --pattern", () => {
 			expect(result.location.line).toBeGreaterThan(0);
 		}));
 });
+
+describe("One-shot and dependent breakpoints", () => {
+	test("--once removes the breakpoint after its first hit", () =>
+		withPausedSession("test-break-once", "tests/fixtures/js/capture-app.js", async (session) => {
+			await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3, { once: true });
+			expect(session.listBreakpoints()[0]?.once).toBe(true);
+
+			await session.continue();
+			expect((await session.eval("id")).value).toBe("1");
+			expect(session.listBreakpoints()).toHaveLength(0);
+
+			await session.continue();
+			expect(session.getStatus().pauseInfo?.line).toBe(9);
+		}));
+
+	test("--after stays inactive until the trigger is hit", () =>
+		withPausedSession("test-break-after", "tests/fixtures/js/capture-app.js", async (session) => {
+			const trigger = await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3, {
+				condition: "id === 3",
+			});
+			const dependent = await session.setBreakpoint("tests/fixtures/js/capture-app.js", 8, {
+				after: trigger.ref,
+			});
+			const waiting = session.listBreakpoints().find((bp) => bp.ref === dependent.ref);
+			expect(waiting?.after).toBe(trigger.ref);
+			expect(waiting?.disabled).toBe(true);
+
+			await session.continue();
+			expect((await session.eval("id")).value).toBe("3");
+			const armed = session.listBreakpoints().find((bp) => bp.ref === dependent.ref);
+			expect(armed?.after).toBeUndefined();
+			expect(armed?.disabled).toBeUndefined();
+
+			await session.continue();
+			expect((await session.eval("i")).value).toBe("4");
+		}));
+
+	test("--after rejects an unknown trigger", () =>
+		withPausedSession(
+			"test-break-after-unknown",
+			"tests/fixtures/js/capture-app.js",
+			async (session) => {
+				await expect(
+					session.setBreakpoint("tests/fixtures/js/capture-app.js", 8, { after: "BP#9" }),
+				).rejects.toThrow("Unknown trigger breakpoint: BP#9");
+			},
+		));
+});
+
+describe("Function breakpoints", () => {
+	test("break on calls to a function expression", () =>
+		withDebuggerSession("test-break-fn", "tests/fixtures/js/fn-app.js", async (session) => {
+			const bp = await session.setFunctionBreakpoint("UserService.prototype.save");
+			expect(bp.location?.url).toEndWith("fn-app.js");
+			expect(bp.location?.line).toBe(2);
+			expect(session.listBreakpoints()[0]?.functionName).toBe("UserService.prototype.save");
+
+			await session.continue();
+			expect((await session.eval("user.name")).value).toBe('"ada"');
+			expect(session.listBreakpoints()[0]?.hits).toBe(1);
+		}));
+
+	test("rejects expressions that are not functions", () =>
+		withDebuggerSession("test-break-fn-invalid", "tests/fixtures/js/fn-app.js", async (session) => {
+			await expect(session.setFunctionBreakpoint("service")).rejects.toThrow(
+				'"service" is not a function',
+			);
+			await expect(session.setFunctionBreakpoint("missing")).rejects.toThrow(
+				'Cannot evaluate "missing"',
+			);
+		}));
+});
@@ -0,0 +1,138 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadBreakpoints, saveBreakpoints } from "../../../src/session/breakpoint-file.ts";
+import { withSession } from "../../helpers.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "dbg-bpfile-"));
+const FIXTURE = "tests/fixtures/js/simple-app.js";
+
+afterAll(() => {
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe("Breakpoint files", () => {
+	test("save stores project-relative locations, catch mode and blackbox patterns", () =>
+		withSession("test-bpfile-save", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await session.setBreakpoint(FIXTURE, 5, { condition: "name", hitCount: 2 });
+			await session.setLogpoint(FIXTURE, 11, "a, b", { maxEmissions: 3 });
+			await session.setExceptionPause("uncaught");
+			await session.addBlackbox(["node_modules"]);
+
+			const path = join(dir, "save.json");
+			const result = saveBreakpoints(session, path, process.cwd());
+			expect(result).toMatchObject({
+				breakpoints: 1,
+				logpoints: 1,
+				catch: "uncaught",
+				blackbox: 1,
+			});
+
+			const saved = JSON.parse(readFileSync(path, "utf-8"));
+			expect(saved.breakpoints).toEqual([
+				{ file: FIXTURE, line: 5, condition: "name", hitCount: 2 },
+			]);
+			expect(saved.logpoints).toEqual([
+				{ file: FIXTURE, line: 11, template: "a, b", maxEmissions: 3 },
+			]);
+			expect(saved.catch).toBe("uncaught");
+			expect(saved.blackbox).toEqual(["node_modules"]);
+		}));
+
+	test("load re-creates breakpoints in a fresh session, including disabled ones", () =>
+		withSession("test-bpfile-load", async (session) => {
+			const path = join(dir, "load.json");
+			await Bun.write(
+				path,
+				JSON.stringify({
+					version: 1,
+					breakpoints: [
+						{ file: FIXTURE, line: 5 },
+						{ file: FIXTURE, line: 11, disabled: true },
+					],
+					logpoints: [{ file: FIXTURE, line: 6, template: "name" }],
+					catch: "all",
+				}),
+			);
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+
+			const result = await loadBreakpoints(session, path, process.cwd());
+			expect(result).toMatchObject({ breakpoints: 2, logpoints: 1, catch: "all", errors: [] });
+			expect(session.getExceptionPause()).toBe("all");
+
+			const list = session.listBreakpoints();
+			expect(list.map((bp) => [bp.type, bp.line, bp.disabled ?? false])).toEqual([
+				["BP", 5, false],
+				["LP", 6, false],
+				["BP", 11, true],
+			]);
+		}));
+
+	test("dependent breakpoints keep waiting for their trigger across save and load", async () => {
+		const path = join(dir, "after.json");
+		await withSession("test-bpfile-after-save", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			const trigger = await session.setBreakpoint(FIXTURE, 5);
+			await session.setBreakpoint(FIXTURE, 11, { after: trigger.ref });
+			saveBreakpoints(session, path, process.cwd());
+		});
+
+		const saved = JSON.parse(readFileSync(path, "utf-8"));
+		expect(saved.breakpoints).toEqual([
+			{ ref: "BP#1", file: FIXTURE, line: 5 },
+			{ file: FIXTURE, line: 11, after: "BP#1" },
+		]);
+
+		await withSession("test-bpfile-after-load", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			// Shift the refs so the saved ones do not line up with the new ones
+			await session.setBreakpoint(FIXTURE, 6);
+
+			const result = await loadBreakpoints(session, path, process.cwd());
+			expect(result).toMatchObject({ breakpoints: 2, errors: [] });
+			const list = session.listBreakpoints();
+			expect(list.map((bp) => [bp.ref, bp.line, bp.after])).toEqual([
+				["BP#1", 6, undefined],
+				["BP#2", 5, undefined],
+				["BP#3", 11, "BP#2"],
+			]);
+		});
+	});
+
+	test("dependent breakpoints whose trigger is missing are reported", () =>
+		withSession("test-bpfile-after-missing", async (session) => {
+			const path = join(dir, "after-missing.json");
+			await Bun.write(
+				path,
+				JSON.stringify({
+					version: 1,
+					breakpoints: [{ file: FIXTURE, line: 11, after: "BP#7" }],
+					logpoints: [],
+				}),
+			);
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+
+			const result = await loadBreakpoints(session, path, process.cwd());
+			expect(result.breakpoints).toBe(0);
+			expect(result.errors).toEqual([`${FIXTURE}:11: Unknown trigger breakpoint: BP#7`]);
+			expect(session.listBreakpoints()).toEqual([]);
+		}));
+
+	test("invalid files are rejected", () =>
+		withSession("test-bpfile-invalid", async (session) => {
+			const path = join(dir, "invalid.json");
+			await Bun.write(path, JSON.stringify({ version: 2 }));
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await expect(loadBreakpoints(session, path, process.cwd())).rejects.toThrow(
+				"Invalid breakpoint file",
+			);
+		}));
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Breakpoint hit counts", () => {
+	test("count pauses per breakpoint and reset them", () =>
+		withSession("test-bp-hits", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const { ref } = await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3);
+			expect(session.listBreakpoints()[0]?.hits).toBe(0);
+
+			await session.continue();
+			await session.continue();
+			const item = session.listBreakpoints().find((bp) => bp.ref === ref);
+			expect(item?.hits).toBe(2);
+			expect(item?.lastHit).toBeGreaterThan(0);
+
+			session.resetBreakpointHits(ref);
+			expect(session.listBreakpoints()[0]?.hits).toBe(0);
+			expect(session.listBreakpoints()[0]?.lastHit).toBeUndefined();
+			expect(() => session.resetBreakpointHits("BP#99")).toThrow("Unknown breakpoint ref");
+		}));
+
+	test("count logpoint emissions", () =>
+		withSession("test-lp-hits", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const { ref } = await session.setLogpoint("tests/fixtures/js/capture-app.js", 3, "id");
+			const pause = session.waitForEvent((e) => e.type === "pause", 5000);
+			await session.continue();
+			await pause;
+
+			expect(session.listBreakpoints().find((bp) => bp.ref === ref)?.hits).toBe(5);
+		}));
+});
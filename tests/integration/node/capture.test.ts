@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Capture breakpoints", () => {
+	test("record locals and stack on each hit without stopping", () =>
+		withSession("test-capture-hits", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const { ref } = await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3, {
+				capture: true,
+				captureFrames: 2,
+			});
+			const pause = session.waitForEvent((e) => e.type === "pause", 5000);
+			await session.continue();
+			await pause;
+
+			// The only surfaced pause is the debugger statement after the loop
+			expect(session.getStatus().pauseInfo?.line).toBe(9);
+
+			const result = session.getBreakpointHits(ref);
+			expect(result.total).toBe(5);
+			expect(result.hits.map((h) => h.hit)).toEqual([1, 2, 3, 4, 5]);
+			const last = result.hits[4];
+			expect(last?.vars.find((v) => v.name === "id")?.value).toBe("5");
+			expect(last?.vars.find((v) => v.name === "size")?.value).toBe("5");
+			expect(last?.stack).toHaveLength(2);
+			expect(last?.stack[0]?.functionName).toBe("handle");
+
+			expect(session.getBreakpointHits(ref, { last: 2 }).hits.map((h) => h.hit)).toEqual([4, 5]);
+			expect(session.listBreakpoints()[0]?.capture).toBe(true);
+		}));
+
+	test("rejects refs that are not capture breakpoints", () =>
+		withSession("test-capture-plain", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const { ref } = await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3);
+			expect(() => session.getBreakpointHits(ref)).toThrow("is not a capture breakpoint");
+		}));
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Coverage", () => {
+	test("take reports uncovered lines of the debuggee", () =>
+		withSession("test-coverage", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/coverage-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.startCoverage();
+			await session.continue();
+			await session.waitForState("paused", 5000);
+
+			const report = await session.takeCoverage({ filter: "coverage-app.js" });
+			expect(report.active).toBe(true);
+			expect(report.files).toHaveLength(1);
+			const file = report.files[0];
+			expect(file?.url).toContain("coverage-app.js");
+			// The non-positive branch and unused() never ran
+			expect(file?.uncovered).toEqual([5, 8, 9, 10]);
+			expect(file?.covered).toBeGreaterThan(0);
+		}));
+
+	test("source --coverage annotates lines with hit counts", () =>
+		withSession("test-coverage-source", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/coverage-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.startCoverage();
+			await session.continue();
+			await session.waitForState("paused", 5000);
+
+			const stopped = await session.stopCoverage({ filter: "coverage-app.js" });
+			expect(stopped.active).toBe(false);
+
+			const source = await session.getSource({ all: true, coverage: true });
+			const hits = new Map(source.lines.map((l) => [l.line, l.hitCount]));
+			expect(hits.get(3)).toBe(3);
+			expect(hits.get(5)).toBe(0);
+			expect(hits.get(7)).toBeUndefined();
+		}));
+
+	test("take without start is rejected", () =>
+		withSession("test-coverage-not-started", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/coverage-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await expect(session.takeCoverage()).rejects.toThrow("not being collected");
+			await expect(session.getSource({ coverage: true })).rejects.toThrow("No coverage data");
+		}));
+});
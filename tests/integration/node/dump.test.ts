@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Object dump", () => {
+	test("serialize non-JSON types and cycles", () =>
+		withSession("test-dump", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/dump-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.continue(); // debugger statement
+
+			const { ref } = await session.eval("config");
+			const dump = await session.dumpObject(ref);
+			expect(dump.truncated).toBe(false);
+			expect(dump.value).toMatchObject({
+				name: "api",
+				port: 8080,
+				started: { $type: "Date", value: "2024-01-02T03:04:05.000Z" },
+				limits: { $type: "Map", entries: [["rps", 100]] },
+				tags: { $type: "Set", values: ["a", "b"] },
+				bytes: { $type: "Uint8Array", values: [1, 2, 3] },
+				big: { $type: "BigInt", value: "12345678901234567890" },
+				ratio: { $type: "Number", value: "NaN" },
+				nested: { list: [1, "two", null] },
+				self: { $ref: "$" },
+			});
+		}));
+
+	test("truncate beyond the depth and size limits", () =>
+		withSession("test-dump-limits", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/dump-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+
+			const { ref } = await session.eval("config");
+			const shallow = await session.dumpObject(ref, { depth: 1 });
+			expect(shallow.truncated).toBe(true);
+			expect(shallow.value).toMatchObject({
+				name: "api",
+				nested: { $type: "Truncated", className: "Object" },
+			});
+
+			const small = await session.dumpObject(ref, { maxBytes: 10 });
+			expect(small.truncated).toBe(true);
+			expect(small.value).toEqual({
+				name: "api",
+				$truncated: { $type: "Truncated", remaining: 9 },
+			});
+
+			const primitive = await session.eval("config.port");
+			await expect(session.dumpObject(primitive.ref)).rejects.toThrow("is a primitive");
+		}));
+
+	test("output stays near the size limit for large containers", () =>
+		withSession("test-dump-max-bytes", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/dump-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+
+			const { ref } = await session.eval("large");
+			const dump = await session.dumpObject(ref, { maxBytes: 1000 });
+			expect(dump.truncated).toBe(true);
+			expect(JSON.stringify(dump.value).length).toBeLessThan(1500);
+
+			const { items } = dump.value as { items: unknown[] };
+			expect(items.at(-1)).toEqual({
+				$type: "Truncated",
+				remaining: 200_000 - (items.length - 1),
+			});
+
+			// Typed arrays and ArrayBuffers are cut at the budget too
+			const samples = await session.dumpObject((await session.eval("large.samples")).ref, {
+				maxBytes: 1000,
+			});
+			expect(JSON.stringify(samples.value).length).toBeLessThan(1500);
+			const raw = await session.dumpObject((await session.eval("large.raw")).ref, {
+				maxBytes: 1000,
+			});
+			expect(JSON.stringify(raw.value).length).toBeLessThan(1500);
+		}));
+});
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import type { SessionEvent } from "../../../src/session/types.ts";
+import { withSession } from "../../helpers.ts";
+
+describe("Session events", () => {
+	test("emits resume, then pause with its location", () =>
+		withSession("test-events", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/wait-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const events: SessionEvent[] = [];
+			const unsubscribe = session.onEvent((e) => events.push(e));
+			const paused = session.waitForEvent((e) => e.type === "pause", 3000);
+			await session.continue();
+			await paused;
+			unsubscribe();
+
+			const types = events.map((e) => e.type);
+			expect(types[0]).toBe("resume");
+			expect(types).toContain("console");
+			const pause = events.find((e) => e.type === "pause");
+			expect(pause?.type === "pause" && pause.url).toContain("wait-app.js");
+			expect(pause?.type === "pause" && pause.line).toBe(5);
+		}));
+});
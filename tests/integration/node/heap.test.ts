@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { withSession } from "../../helpers.ts";
+
+describe("Heap snapshots", () => {
+	test("snapshot, summary and diff track objects allocated between pauses", () =>
+		withSession("test-heap", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/heap-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+			await session.waitForState("paused", 5000);
+
+			const first = await session.takeHeapSnapshot();
+			expect(first.ref).toBe("HS#1");
+			expect(existsSync(first.path)).toBe(true);
+			expect(first.nodeCount).toBeGreaterThan(0);
+
+			await session.continue();
+			await session.waitForState("paused", 5000);
+			const second = await session.takeHeapSnapshot();
+			expect(second.ref).toBe("HS#2");
+
+			const summary = await session.getHeapSummary("HS#2", { top: 1000 });
+			const leaky = summary.classes.find((c) => c.name === "LeakyEntry");
+			expect(leaky?.count).toBe(500);
+
+			const diff = await session.diffHeapSnapshots("HS#1", "HS#2");
+			const grown = diff.classes.find((c) => c.name === "LeakyEntry");
+			expect(grown?.added).toBe(500);
+			expect(diff.sizeDelta).toBeGreaterThan(0);
+		}));
+
+	test("unknown snapshot refs are rejected", () =>
+		withSession("test-heap-unknown", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/heap-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await expect(session.getHeapSummary("HS#9")).rejects.toThrow("Unknown heap snapshot ref");
+		}));
+
+	test("snapshot files are removed when the session stops", async () => {
+		let path = "";
+		await withSession("test-heap-cleanup", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/heap-app.js"], { brk: true });
+			await session.waitForState("paused");
+			path = (await session.takeHeapSnapshot()).path;
+		});
+		expect(existsSync(path)).toBe(false);
+	});
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Stdin forwarding", () => {
+	test("sendInput writes to the debuggee and --eof closes stdin", () =>
+		withSession("test-input-eof", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/stdin-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const sent = await session.sendInput("first\nsecond\n");
+			expect(sent).toEqual({ bytes: 13, eof: false });
+			expect(await session.sendInput("", { eof: true })).toEqual({ bytes: 0, eof: true });
+
+			await session.continue();
+			await session.waitForState("paused", 5000);
+			const result = await session.eval("lines.join(',')");
+			expect(result.value).toContain("first,second");
+		}));
+
+	test("sendInput fails once stdin is closed", () =>
+		withSession("test-input-closed", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/stdin-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.sendInput("", { eof: true });
+			await expect(session.sendInput("late\n")).rejects.toThrow("stdin is not available");
+		}));
+});
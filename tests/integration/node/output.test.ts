@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import type { CdpSession } from "../../../src/cdp/session.ts";
+import { launchPaused } from "../../helpers.ts";
+
+async function withOutputSession(name: string, fn: (session: CdpSession) => Promise<void>) {
+	const session = await launchPaused(name, "tests/fixtures/js/output-app.js");
+	try {
+		await session.continue();
+		await session.waitForState("paused", 5000);
+		// Give the stdout/stderr pipes a moment to deliver
+		await Bun.sleep(50);
+		await fn(session);
+	} finally {
+		await session.stop();
+	}
+}
+
+describe("Output capture", () => {
+	test("captures stdout lines, joining partial writes", () =>
+		withOutputSession("test-output-stdout", async (session) => {
+			const stdout = session.getOutput({ stream: "stdout" }).map((e) => e.text);
+			expect(stdout).toContain("first line");
+			expect(stdout).toContain("split line");
+		}));
+
+	test("captures stderr alongside the inspector banner", () =>
+		withOutputSession("test-output-stderr", async (session) => {
+			const stderr = session.getOutput({ stream: "stderr" }).map((e) => e.text);
+			expect(stderr).toContain("error line");
+			expect(stderr.some((t) => t.includes("Debugger listening"))).toBe(true);
+		}));
+
+	test("entries are timestamped and ordered by seq", () =>
+		withOutputSession("test-output-seq", async (session) => {
+			const entries = session.getOutput();
+			expect(entries.length).toBeGreaterThan(0);
+			for (let i = 1; i < entries.length; i++) {
+				expect(entries[i]?.seq).toBeGreaterThan(entries[i - 1]?.seq ?? 0);
+			}
+			for (const entry of entries) {
+				expect(entry.timestamp).toBeGreaterThan(0);
+				expect(entry.timestamp).toBeLessThanOrEqual(Date.now());
+			}
+		}));
+
+	test("--since and after filter entries", () =>
+		withOutputSession("test-output-filter", async (session) => {
+			const all = session.getOutput();
+			expect(session.getOutput({ since: 1 })).toEqual(all.slice(-1));
+			const first = all[0];
+			expect(first).toBeDefined();
+			expect(session.getOutput({ after: first?.seq })).toEqual(all.slice(1));
+		}));
+
+	test("flushes a trailing partial line when the stream closes", async () => {
+		const session = await launchPaused("test-output-flush", "tests/fixtures/js/output-app.js");
+		try {
+			await session.continue();
+			await session.waitForState("paused", 5000);
+			await session.continue();
+			await session.waitForState("idle", 5000);
+			// Disconnecting lets the process exit and close its pipes
+			session.cdp?.disconnect();
+			for (let i = 0; i < 50 && session.childProcess; i++) await Bun.sleep(20);
+			await Bun.sleep(50);
+			const stdout = session.getOutput({ stream: "stdout" }).map((e) => e.text);
+			expect(stdout).toContain("no trailing newline");
+		} finally {
+			await session.stop();
+		}
+	});
+
+	test("stop() clears the output buffer", async () => {
+		const session = await launchPaused("test-output-stop", "tests/fixtures/js/output-app.js");
+		expect(session.getOutput().length).toBeGreaterThan(0);
+		await session.stop();
+		expect(session.getOutput().length).toBe(0);
+	});
+});
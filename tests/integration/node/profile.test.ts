@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withSession } from "../../helpers.ts";
+
+describe("CPU profiling", () => {
+	test("profile start/stop reports the hottest functions", () =>
+		withSession("test-profile", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/profile-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+			await session.waitForState("paused", 5000);
+
+			await session.startCpuProfile({ interval: 100 });
+			await session.continue();
+			await session.waitForState("paused", 5000);
+
+			const out = join(tmpdir(), `dbg-test-${process.pid}.cpuprofile`);
+			try {
+				const result = await session.stopCpuProfile({ top: 5, out });
+				expect(result.sampleCount).toBeGreaterThan(0);
+				expect(result.functions.length).toBeLessThanOrEqual(5);
+				expect(result.functions[0]?.name).toBe("fib");
+				expect(result.functions[0]?.url).toContain("profile-app.js");
+				expect(result.functions[0]?.line).toBe(1);
+				expect(result.path).toBe(out);
+				expect(existsSync(out)).toBe(true);
+			} finally {
+				rmSync(out, { force: true });
+			}
+		}));
+
+	test("stop without start is rejected", () =>
+		withSession("test-profile-not-started", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/profile-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await expect(session.stopCpuProfile()).rejects.toThrow("No CPU profile is being recorded");
+		}));
+
+	test("start twice is rejected", () =>
+		withSession("test-profile-twice", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/profile-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.startCpuProfile();
+			await expect(session.startCpuProfile()).rejects.toThrow("already being recorded");
+		}));
+});
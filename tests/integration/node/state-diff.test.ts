@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("State diff", () => {
+	test("report only values that changed since the previous pause", () =>
+		withSession("test-state-diff", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3);
+			session.addWatch("id * 10");
+
+			await session.continue();
+			// Nothing to compare the first pause with: full values
+			const first = await session.buildState({ diff: true });
+			expect(first.diff).toBeUndefined();
+			expect(first.vars?.some((v) => v.name === "id")).toBe(true);
+
+			await session.continue();
+			const second = await session.buildState({ diff: true });
+			expect(second.vars).toBeUndefined();
+			expect(second.watches).toBeUndefined();
+			expect(second.diff).toContainEqual({
+				kind: "changed",
+				name: "id",
+				value: "2",
+				previous: "1",
+			});
+			expect(second.diff).toContainEqual({
+				kind: "changed",
+				name: "id * 10",
+				watch: "W#1",
+				value: "20",
+				previous: "10",
+			});
+			expect(second.diff?.some((c) => c.name === "this")).toBe(false);
+
+			// Asking again at the same pause still compares with the previous one
+			const again = await session.buildState({ diff: true });
+			expect(again.diff).toEqual(second.diff);
+		}));
+
+	test("a restarted process starts without a baseline", () =>
+		withSession("test-state-diff-restart", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+			await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3);
+			await session.continue();
+			await session.buildState({ diff: true });
+
+			await session.restart();
+			await session.waitForState("paused");
+			const state = await session.buildState({ diff: true });
+			expect(state.diff).toBeUndefined();
+		}));
+});
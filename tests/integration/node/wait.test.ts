@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Waiting for events", () => {
+	test("resolves on a matching console message, then the next pause", () =>
+		withSession("test-wait-events", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/wait-app.js"], { brk: false });
+
+			const event = await session.waitForEvent(
+				(e) => e.type === "console" && /ready on port \d+/.test(e.message.text),
+				3000,
+			);
+			expect(event?.type).toBe("console");
+
+			const pause = await session.waitForEvent((e) => e.type === "pause", 3000);
+			expect(pause?.type).toBe("pause");
+			expect(session.sessionState).toBe("paused");
+		}));
+
+	test("reports uncaught exceptions and exit", () =>
+		withSession("test-wait-exit", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/wait-app.js"], { brk: false });
+			await session.waitForEvent((e) => e.type === "pause", 3000);
+
+			const exception = session.waitForEvent((e) => e.type === "exception", 3000);
+			const exit = session.waitForEvent((e) => e.type === "exit", 3000);
+			await session.continue();
+			const thrown = await exception;
+			expect(thrown?.type === "exception" && thrown.exception.description).toContain(
+				"request failed",
+			);
+			expect((await exit)?.type).toBe("exit");
+		}));
+
+	test("resolves null when nothing matches before the timeout", () =>
+		withSession("test-wait-timeout", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/wait-app.js"], { brk: true });
+			await session.waitForState("paused");
+			const event = await session.waitForEvent((e) => e.type === "exit", 100);
+			expect(event).toBeNull();
+		}));
+});
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+describe("Watch expressions", () => {
+	test("re-evaluate watches on every pause", () =>
+		withSession("test-watch", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			const watch = session.addWatch("id * 10");
+			expect(watch).toEqual({ id: "W#1", expression: "id * 10" });
+			session.addWatch("missingName");
+			await session.setBreakpoint("tests/fixtures/js/capture-app.js", 3);
+
+			await session.continue();
+			let state = await session.buildState();
+			expect(state.watches?.[0]?.value).toBe("10");
+			expect(state.watches?.[0]?.ref).toMatch(/^@v/);
+			expect(state.watches?.[1]?.error).toContain("missingName");
+
+			await session.continue();
+			state = await session.buildState();
+			expect(state.watches?.[0]?.value).toBe("20");
+		}));
+
+	test("remove watches by id or all", () =>
+		withSession("test-watch-rm", async (session) => {
+			await session.launch(["node", "tests/fixtures/js/capture-app.js"], { brk: true });
+			await session.waitForState("paused");
+
+			session.addWatch("total");
+			session.addWatch("i");
+			session.removeWatch("W#1");
+			expect(session.listWatches().map((w) => w.id)).toEqual(["W#2"]);
+			expect(() => session.removeWatch("W#1")).toThrow("Unknown watch: W#1");
+
+			session.removeWatch("all");
+			expect(session.listWatches()).toEqual([]);
+			const state = await session.buildState();
+			expect(state.watches).toBeUndefined();
+		}));
+});
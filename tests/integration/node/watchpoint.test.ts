@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { withSession } from "../../helpers.ts";
+
+const FIXTURE = "tests/fixtures/js/watchpoint-app.js";
+
+describe("Watchpoints", () => {
+	test("pause when a watched property is written", () =>
+		withSession("test-watchpoint", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await session.continue(); // debugger statement
+
+			const wp = await session.setWatchpoint("order.status");
+			expect(wp).toEqual({ ref: "BP#1", target: "order.status", access: "write" });
+			expect(session.listBreakpoints()[0]).toMatchObject({ watchpoint: "order.status" });
+
+			await session.continue();
+			const state = await session.buildState();
+			expect(state.reason).toBe("watchpoint");
+			expect(state.stack?.[1]?.functionName).toBe("ship");
+			expect((await session.eval("newValue")).value).toBe('"shipped"');
+			expect(session.listBreakpoints()[0]?.hits).toBe(1);
+
+			// Removing it restores a plain data property, keeping the pending write
+			await session.removeBreakpoint(wp.ref);
+			await session.setBreakpoint(FIXTURE, 13);
+			await session.continue();
+			expect((await session.eval("order.status")).value).toBe('"shipped"');
+			expect(
+				(await session.eval('"value" in Object.getOwnPropertyDescriptor(order, "status")')).value,
+			).toBe("true");
+		}));
+
+	test("pause on reads with --read", () =>
+		withSession("test-watchpoint-read", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+
+			await session.setWatchpoint("order.status", { access: "read" });
+			await session.continue();
+			const state = await session.buildState();
+			expect(state.stack?.[1]?.functionName).toBe("describe");
+		}));
+
+	test("removing all breakpoints restores disabled watchpoints", () =>
+		withSession("test-watchpoint-rm-disabled", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+
+			const wp = await session.setWatchpoint("order.status");
+			await session.toggleBreakpoint(wp.ref);
+			await session.removeAllBreakpoints();
+			expect(session.listBreakpoints()).toEqual([]);
+			expect(
+				(await session.eval('"value" in Object.getOwnPropertyDescriptor(order, "status")')).value,
+			).toBe("true");
+		}));
+
+	test("reject targets that are not object properties", () =>
+		withSession("test-watchpoint-errors", async (session) => {
+			await session.launch(["node", FIXTURE], { brk: true });
+			await session.waitForState("paused");
+			await session.continue();
+
+			await expect(session.setWatchpoint("order")).rejects.toThrow("expected an object property");
+			await expect(session.setWatchpoint("missing.status")).rejects.toThrow(
+				'Cannot evaluate "missing"',
+			);
+			await expect(session.setWatchpoint("order.id.value")).rejects.toThrow(
+				'"order.id" is not an object',
+			);
+		}));
+});
@@ -8,6 +8,7 @@ const HAS_DEBUGPY = (() => {
 })();
 
 const HELLO_SCRIPT = resolve("tests/fixtures/python/hello.py");
+const ECHO_STDIN_SCRIPT = resolve("tests/fixtures/python/echo_stdin.py");
 
 async function withDapSession(
 	name: string,
@@ -155,4 +156,47 @@ describe.skipIf(!HAS_DEBUGPY)("Python (debugpy) debugging", () => {
 			const stack = session.getStack();
 			expect(stack[0]?.functionName).toBe("greet");
 		}));
+
+	test("disabled breakpoints are kept but not hit", () =>
+		withDapSession("py-test-toggle", async (session) => {
+			await session.launch([HELLO_SCRIPT], { brk: true });
+			const bp = await session.setBreakpoint(HELLO_SCRIPT, 8, { condition: "x == 42" });
+			await session.setFunctionBreakpoint("greet");
+
+			expect(await session.toggleBreakpoint("all")).toEqual({ ref: "all", state: "disabled" });
+			for (const entry of session.listBreakpoints()) expect(entry.disabled).toBe(true);
+			expect(session.listBreakpoints()[0]?.condition).toBe("x == 42");
+
+			expect((await session.toggleBreakpoint(bp.ref)).state).toBe("enabled");
+			await session.continue();
+			expect(session.getStack()[0]?.line).toBe(8);
+			await session.continue();
+			expect(session.getStatus().state).toBe("idle");
+		}));
+
+	test("restart keeps breakpoint refs and hits them again", () =>
+		withDapSession("py-test-restart", async (session) => {
+			await session.launch([HELLO_SCRIPT], { brk: true });
+			const bp = await session.setBreakpoint(HELLO_SCRIPT, 8);
+			const fn = await session.setFunctionBreakpoint("greet");
+			await session.continue();
+			expect(session.getStack()[0]?.line).toBe(8);
+
+			const result = await session.restart();
+			expect(result.paused).toBe(true);
+			expect(session.listBreakpoints().map((entry) => entry.ref)).toEqual([bp.ref, fn.ref]);
+			await session.continue();
+			expect(session.getStack()[0]?.line).toBe(8);
+			await session.continue();
+			expect(session.getStack()[0]?.functionName).toBe("greet");
+		}));
+
+	test("stdin is forwarded and stdout captured", () =>
+		withDapSession("py-test-stdin", async (session) => {
+			await session.launch([ECHO_STDIN_SCRIPT], { brk: false });
+			await session.sendInput("hello\n");
+			for (let i = 0; i < 50 && session.getOutput().length === 0; i++) await Bun.sleep(100);
+			const stdout = session.getOutput({ stream: "stdout" }).map((e) => e.text);
+			expect(stdout).toContain("got hello");
+		}));
 });
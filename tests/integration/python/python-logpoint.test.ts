@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { resolve } from "node:path";
+import { DapSession } from "../../../src/dap/session.ts";
+
+const HAS_DEBUGPY = (() => {
+	const result = Bun.spawnSync(["python3", "-c", "import debugpy"]);
+	return result.exitCode === 0;
+})();
+
+const HELLO_SCRIPT = resolve("tests/fixtures/python/hello.py");
+
+async function withDapSession(
+	name: string,
+	fn: (session: DapSession) => Promise<void>,
+): Promise<void> {
+	const session = new DapSession(name, "debugpy");
+	try {
+		await fn(session);
+	} finally {
+		await session.stop();
+	}
+}
+
+describe.skipIf(!HAS_DEBUGPY)("Python (debugpy) logpoints", () => {
+	test("logs without pausing and tags messages with the LP ref", () =>
+		withDapSession("py-test-logpoint", async (session) => {
+			await session.launch([HELLO_SCRIPT], { brk: true });
+			const { ref } = await session.setLogpoint(HELLO_SCRIPT, 3, `message=\${message}`);
+			expect(ref).toStartWith("LP#");
+			await session.continue();
+
+			expect(session.getStatus().state).toBe("idle");
+			const messages = session.getConsoleMessages().filter((m) => m.logpoint === ref);
+			expect(messages.map((m) => m.text)).toEqual(["message=Hello, world!"]);
+			expect(session.listBreakpoints().find((bp) => bp.ref === ref)?.type).toBe("LP");
+		}));
+});
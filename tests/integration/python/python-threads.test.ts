@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { resolve } from "node:path";
+import { DapSession } from "../../../src/dap/session.ts";
+
+const HAS_DEBUGPY = (() => {
+	const result = Bun.spawnSync(["python3", "-c", "import debugpy"]);
+	return result.exitCode === 0;
+})();
+
+const THREADS_SCRIPT = resolve("tests/fixtures/python/threads.py");
+
+async function withDapSession(
+	name: string,
+	fn: (session: DapSession) => Promise<void>,
+): Promise<void> {
+	const session = new DapSession(name, "debugpy");
+	try {
+		await fn(session);
+	} finally {
+		await session.stop();
+	}
+}
+
+/** Pause on the main thread while the worker waits. */
+async function launchWithWorker(session: DapSession): Promise<void> {
+	await session.launch([THREADS_SCRIPT], { brk: true });
+	await session.setBreakpoint(THREADS_SCRIPT, 17); // value = 1
+	await session.continue();
+}
+
+describe.skipIf(!HAS_DEBUGPY)("Python (debugpy) threads", () => {
+	test("lists threads with the stopped one current", () =>
+		withDapSession("py-test-threads", async (session) => {
+			await launchWithWorker(session);
+			const threads = await session.listThreads();
+			const main = threads.find((t) => t.name === "MainThread");
+			const worker = threads.find((t) => t.name === "worker-1");
+			expect(main?.current).toBe(true);
+			expect(main?.state).toBe("paused");
+			expect(main?.frame?.line).toBe(17);
+			expect(worker?.current).toBe(false);
+			expect(worker?.state).toBe("paused");
+		}));
+
+	test("selecting a thread switches stack and vars", () =>
+		withDapSession("py-test-thread-select", async (session) => {
+			await launchWithWorker(session);
+			const worker = (await session.listThreads()).find((t) => t.name === "worker-1");
+			expect(worker).toBeDefined();
+			const selected = await session.selectThread(worker?.id ?? -1);
+			expect(selected.current).toBe(true);
+
+			const frame = session.getStack().find((f) => f.functionName === "worker");
+			expect(frame).toBeDefined();
+			const vars = await session.getVars({ frame: frame?.ref });
+			expect(vars.find((v) => v.name === "count")?.value).toBe("7");
+		}));
+
+	test("stacks of all threads", () =>
+		withDapSession("py-test-thread-stacks", async (session) => {
+			await launchWithWorker(session);
+			const stacks = await session.getAllThreadStacks();
+			expect(stacks.length).toBeGreaterThanOrEqual(2);
+			const worker = stacks.find((s) => s.name === "worker-1");
+			expect(worker?.frames.some((f) => f.functionName === "worker")).toBe(true);
+		}));
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { formatLineRanges } from "../../src/formatter/coverage.ts";
+import { computeLineCoverage, summarizeFileCoverage } from "../../src/profiling/coverage.ts";
+
+const SOURCE = [
+	"function check(x) {", // 0
+	"  // only positive", // 1
+	"  if (x > 0) {", // 2
+	"    return 1;", // 3
+	"  }", // 4
+	"", // 5
+	"  return 0;", // 6
+	"}", // 7
+	"check(1);", // 8
+].join("\n");
+
+const offsetOf = (text: string) => SOURCE.indexOf(text);
+
+describe("computeLineCoverage", () => {
+	// The function ran 3 times; the fall-through after the if block never ran
+	const functions = [
+		{
+			functionName: "",
+			isBlockCoverage: true,
+			ranges: [{ startOffset: 0, endOffset: SOURCE.length, count: 1 }],
+		},
+		{
+			functionName: "check",
+			isBlockCoverage: true,
+			ranges: [
+				{ startOffset: 0, endOffset: offsetOf("check(1);") - 1, count: 3 },
+				{ startOffset: offsetOf("  }") + 3, endOffset: offsetOf("check(1);") - 2, count: 0 },
+			],
+		},
+	];
+	const lines = computeLineCoverage(SOURCE, functions);
+	const counts = new Map(lines.map((l) => [l.line, l.count]));
+
+	test("uses the innermost range at the first code character", () => {
+		expect(counts.get(0)).toBe(3);
+		expect(counts.get(3)).toBe(3);
+		expect(counts.get(6)).toBe(0);
+		expect(counts.get(8)).toBe(1);
+	});
+
+	test("skips blank and comment-only lines", () => {
+		expect(counts.has(1)).toBe(false);
+		expect(counts.has(5)).toBe(false);
+	});
+
+	test("records the first code column for source mapping", () => {
+		expect(lines.find((l) => l.line === 3)?.column).toBe(4);
+	});
+});
+
+describe("summarizeFileCoverage", () => {
+	test("counts covered lines and lists uncovered ones in order", () => {
+		const counts = new Map([
+			[9, 0],
+			[1, 2],
+			[3, 0],
+			[4, 1],
+		]);
+		expect(summarizeFileCoverage("app.js", counts)).toEqual({
+			url: "app.js",
+			lines: 4,
+			covered: 2,
+			uncovered: [3, 9],
+		});
+	});
+});
+
+describe("formatLineRanges", () => {
+	test("collapses consecutive lines", () => {
+		expect(formatLineRanges([3, 4, 5, 9, 11, 12])).toBe("3-5, 9, 11-12");
+	});
+
+	test("handles single and empty lists", () => {
+		expect(formatLineRanges([7])).toBe("7");
+		expect(formatLineRanges([])).toBe("");
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import type Protocol from "devtools-protocol/types/protocol.js";
+import { summarizeCpuProfile } from "../../src/profiling/cpu-profile.ts";
+
+function node(
+	id: number,
+	functionName: string,
+	lineNumber: number,
+	children: number[] = [],
+): Protocol.Profiler.ProfileNode {
+	// Pseudo-frames such as (root) have no script
+	const script =
+		lineNumber < 0 ? { scriptId: "0", url: "" } : { scriptId: "1", url: "file:///app.js" };
+	return { id, callFrame: { functionName, ...script, lineNumber, columnNumber: 0 }, children };
+}
+
+// (root) ─┬─> main -> fib -> fib (recursive)
+//         └─> (idle)
+const PROFILE: Protocol.Profiler.Profile = {
+	nodes: [
+		node(1, "(root)", -1, [2, 5]),
+		node(2, "main", 9, [3]),
+		node(3, "fib", 0, [4]),
+		node(4, "fib", 0),
+		node(5, "(idle)", -1),
+	],
+	startTime: 0,
+	endTime: 10_000,
+	// Each sample lasts 1ms except the last, which runs until endTime
+	samples: [2, 3, 4, 4, 4, 3, 5],
+	timeDeltas: [0, 1000, 1000, 1000, 1000, 1000, 1000],
+};
+
+describe("summarizeCpuProfile", () => {
+	const summary = summarizeCpuProfile(PROFILE);
+	const byName = new Map(summary.functions.map((f) => [f.name, f]));
+
+	test("reports duration and sample count", () => {
+		expect(summary.duration).toBe(10);
+		expect(summary.sampleCount).toBe(7);
+	});
+
+	test("attributes self time and orders by it", () => {
+		expect(summary.functions.map((f) => f.name)).toEqual(["fib", "main"]);
+		expect(byName.get("fib")?.selfTime).toBe(5);
+		expect(byName.get("main")?.selfTime).toBe(1);
+	});
+
+	test("counts recursive calls once towards total time", () => {
+		expect(byName.get("fib")?.totalTime).toBe(5);
+		expect(byName.get("main")?.totalTime).toBe(6);
+		expect(byName.get("main")?.totalPercent).toBe(60);
+	});
+
+	test("excludes (root) and (idle) and uses 1-based lines", () => {
+		expect(byName.has("(root)")).toBe(false);
+		expect(byName.has("(idle)")).toBe(false);
+		expect(byName.get("main")?.line).toBe(10);
+	});
+
+	test("maps locations through the resolver", () => {
+		const mapped = summarizeCpuProfile(PROFILE, (_scriptId, line) => ({
+			url: "src/app.ts",
+			line: line * 2,
+		}));
+		const fib = mapped.functions.find((f) => f.name === "fib");
+		expect(fib?.url).toBe("src/app.ts");
+		expect(fib?.line).toBe(2);
+	});
+});
@@ -204,6 +204,88 @@ describe("idle timeout", () => {
 	});
 });
 
+describe("subscriptions", () => {
+	test("streams events until the client aborts", async () => {
+		const session = testSession("sub");
+		const server = new DaemonServer(session, { idleTimeout: 60 });
+		let emit: ((event: unknown) => void) | null = null;
+		let unsubscribed = false;
+
+		server.onRequest(async () => ({ ok: true }));
+		server.onSubscribe((req, send) => {
+			expect(req.args.events).toEqual(["pause"]);
+			emit = send;
+			return () => {
+				unsubscribed = true;
+			};
+		});
+		await server.start();
+
+		try {
+			const controller = new AbortController();
+			const received: Record<string, unknown>[] = [];
+			const done = new DaemonClient(session).subscribe(
+				{ events: ["pause"] },
+				(event) => {
+					received.push(event);
+					if (received.length === 2) controller.abort();
+				},
+				{ signal: controller.signal },
+			);
+
+			while (!emit) await Bun.sleep(5);
+			emit({ type: "pause", line: 1 });
+			emit({ type: "pause", line: 2 });
+
+			expect(await done).toEqual({ ok: true });
+			expect(received).toEqual([
+				{ type: "pause", line: 1 },
+				{ type: "pause", line: 2 },
+			]);
+			await Bun.sleep(20);
+			expect(unsubscribed).toBe(true);
+		} finally {
+			await server.stop();
+		}
+	});
+
+	test("returns the handler's refusal", async () => {
+		const session = testSession("subr");
+		const server = new DaemonServer(session, { idleTimeout: 60 });
+		server.onRequest(async () => ({ ok: true }));
+		server.onSubscribe(() => ({ ok: false, error: "No active debug session" }));
+		await server.start();
+
+		try {
+			const response = await new DaemonClient(session).subscribe({}, () => {});
+			expect(response).toEqual({ ok: false, error: "No active debug session" });
+		} finally {
+			await server.stop();
+		}
+	});
+
+	test("keeps the daemon alive while subscribed", async () => {
+		const session = testSession("subi");
+		const server = new DaemonServer(session, { idleTimeout: 0.05 });
+		server.onRequest(async () => ({ ok: true }));
+		server.onSubscribe(() => () => {});
+		await server.start();
+
+		const controller = new AbortController();
+		try {
+			const done = new DaemonClient(session).subscribe({}, () => {}, {
+				signal: controller.signal,
+			});
+			await Bun.sleep(100);
+			expect(existsSync(getSocketPath(session))).toBe(true);
+			controller.abort();
+			await done;
+		} finally {
+			await server.stop();
+		}
+	});
+});
+
 describe("lock file", () => {
 	test("prevents duplicate daemons", async () => {
 		const session = testSession("lock");
@@ -0,0 +1,12 @@
+import { expect, test } from "bun:test";
+import { DapSession } from "../../src/dap/session.ts";
+
+test("Go attach rejects a non-numeric target before starting Delve", async () => {
+	const session = new DapSession("test-dap-attach-go", "go");
+	try {
+		await expect(session.attach("myapp")).rejects.toThrow("Delve attaches by process id");
+		expect(session.getStatus().pid).toBeUndefined();
+	} finally {
+		await session.stop();
+	}
+});
@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DapClient } from "../../src/dap/client.ts";
+
+/** A fake TCP adapter that records its pid, then reports a port nobody listens on. */
+const UNREACHABLE_ADAPTER = `
+const pidFile = process.argv.at(-1);
+await Bun.write(pidFile, String(process.pid));
+const listener = Bun.listen({ hostname: "127.0.0.1", port: 0, socket: { data() {} } });
+const port = listener.port;
+listener.stop(true);
+console.log("DAP server listening at: 127.0.0.1:" + port);
+setInterval(() => {}, 1000);
+`;
+
+function isAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+describe("DapClient.spawnTcp", () => {
+	test("kills the adapter when the connection fails", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "dbg-dap-client-"));
+		const pidFile = join(dir, "pid");
+		try {
+			await expect(
+				DapClient.spawnTcp([process.execPath, "-e", UNREACHABLE_ADAPTER, pidFile]),
+			).rejects.toThrow(/Could not connect to debug adapter .* at 127\.0\.0\.1:\d+/);
+
+			const pid = Number(readFileSync(pidFile, "utf8"));
+			for (let i = 0; i < 50 && isAlive(pid); i++) await Bun.sleep(20);
+			expect(isAlive(pid)).toBe(false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { type DapVariable, dumpVariables, parseDapValue } from "../../src/dap/dump.ts";
+
+describe("parseDapValue", () => {
+	test("parses scalars and keeps other values verbatim", () => {
+		expect(parseDapValue("42")).toBe(42);
+		expect(parseDapValue("-1.5")).toBe(-1.5);
+		expect(parseDapValue("18446744073709551615")).toBe("18446744073709551615");
+		expect(parseDapValue("True")).toBe(true);
+		expect(parseDapValue("false")).toBe(false);
+		expect(parseDapValue("None")).toBeNull();
+		expect(parseDapValue('"a\\"b"')).toBe('a"b');
+		expect(parseDapValue("'hi'")).toBe("hi");
+		expect(parseDapValue("0x00007ff7bfeff6d8")).toBe("0x00007ff7bfeff6d8");
+	});
+});
+
+describe("dumpVariables", () => {
+	const tree: Record<number, DapVariable[]> = {
+		1: [
+			{ name: "id", value: "7", variablesReference: 0 },
+			{ name: "tags", value: "std::vector of length 2", variablesReference: 2 },
+			{ name: "owner", value: "0x0000600000c04000", variablesReference: 3 },
+			{ name: "special variables", value: "", variablesReference: 9 },
+		],
+		2: [
+			{ name: "[0]", value: '"a"', variablesReference: 0 },
+			{ name: "[1]", value: '"b"', variablesReference: 0 },
+		],
+		3: [{ name: "name", value: '"ada"', variablesReference: 0 }],
+	};
+	const fetchVariables = async (ref: number) => tree[ref] ?? [];
+
+	test("builds objects and arrays from the variable tree", async () => {
+		expect(await dumpVariables(fetchVariables, 1)).toEqual({
+			value: { id: 7, tags: ["a", "b"], owner: { name: "ada" } },
+			truncated: false,
+		});
+	});
+
+	test("truncates containers beyond the depth limit", async () => {
+		const dump = await dumpVariables(fetchVariables, 1, { depth: 1 });
+		expect(dump.truncated).toBe(true);
+		expect(dump.value).toEqual({
+			id: 7,
+			tags: { $type: "Truncated", summary: "std::vector of length 2" },
+			owner: { $type: "Truncated", summary: "0x0000600000c04000" },
+		});
+	});
+
+	test("stops each container at the size limit with one marker", async () => {
+		const large: Record<number, DapVariable[]> = {
+			1: [
+				{ name: "items", value: "std::vector of length 10000", variablesReference: 2 },
+				{ name: "count", value: "10000", variablesReference: 0 },
+			],
+			2: Array.from({ length: 10_000 }, (_, i) => ({
+				name: `[${i}]`,
+				value: String(i),
+				variablesReference: 0,
+			})),
+		};
+		const dump = await dumpVariables(async (ref) => large[ref] ?? [], 1, { maxBytes: 100 });
+		expect(dump.truncated).toBe(true);
+		expect(JSON.stringify(dump.value).length).toBeLessThan(300);
+		const value = dump.value as { items: unknown[]; $truncated: unknown };
+		expect(value.items.at(-1)).toEqual({
+			$type: "Truncated",
+			remaining: 10_000 - (value.items.length - 1),
+		});
+		expect(value.$truncated).toEqual({ $type: "Truncated", remaining: 1 });
+	});
+});
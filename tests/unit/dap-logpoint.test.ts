@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { resolve } from "node:path";
+import { DapSession, toDapLogMessage } from "../../src/dap/session.ts";
+
+/** Answers every request and advertises no logpoint support. */
+const FAKE_ADAPTER = resolve("tests/fixtures/dap/fake-adapter.js");
+
+describe("toDapLogMessage", () => {
+	test("translates placeholders", () => {
+		expect(toDapLogMessage(`x=\${x} y=\${x + 1}`)).toBe("x={x} y={x + 1}");
+		expect(toDapLogMessage("no placeholders")).toBe("no placeholders");
+		expect(toDapLogMessage("cost: $5")).toBe("cost: $5");
+	});
+
+	test("rejects literal braces", () => {
+		expect(() => toDapLogMessage(`{"id": \${id}}`)).toThrow('cannot contain a literal "{"');
+		expect(() => toDapLogMessage("done }")).toThrow('cannot contain a literal "}"');
+	});
+
+	test("rejects expressions containing braces instead of splitting them", () => {
+		expect(() => toDapLogMessage(`a=\${ {a: 1}.a }`)).toThrow(
+			"Logpoint expressions cannot contain braces",
+		);
+		expect(() => toDapLogMessage(`x=\${x`)).toThrow("Unterminated");
+	});
+});
+
+test("setLogpoint is rejected by adapters without logpoint support", async () => {
+	const session = new DapSession("test-dap-logpoint-unsupported", FAKE_ADAPTER);
+	try {
+		await session.launch(["./app"], { brk: false });
+		await expect(session.setLogpoint("app.c", 3, `x=\${x}`)).rejects.toThrow(
+			"does not support logpoints",
+		);
+		expect(session.listBreakpoints()).toEqual([]);
+	} finally {
+		await session.stop();
+	}
+});
@@ -0,0 +1,37 @@
+import { expect, test } from "bun:test";
+import { resolve } from "node:path";
+import { DapSession } from "../../src/dap/session.ts";
+
+/** Echoes each request it receives as a "request <json>" console message. */
+const FAKE_ADAPTER = resolve("tests/fixtures/dap/fake-adapter.js");
+
+function requests(
+	session: DapSession,
+	command: string,
+): Array<{ arguments?: Record<string, unknown> }> {
+	return session
+		.getConsoleMessages()
+		.filter((m) => m.text.startsWith("request "))
+		.map((m) => JSON.parse(m.text.slice("request ".length)))
+		.filter((request) => request.command === command);
+}
+
+test("the restart request carries remaps and symbol paths added after launch", async () => {
+	const session = new DapSession("test-dap-restart", FAKE_ADAPTER);
+	try {
+		await session.launch(["./app"], { brk: false });
+		expect(requests(session, "launch")[0]?.arguments?.sourceMap).toBeUndefined();
+
+		await session.addRemap("/build/src", "/home/me/src");
+		await session.addSymbols("/tmp/app.dSYM");
+		await session.restart();
+
+		expect(requests(session, "restart")[0]?.arguments?.arguments).toMatchObject({
+			program: "./app",
+			sourceMap: [["/build/src", "/home/me/src"]],
+			preRunCommands: ["add-dsym /tmp/app.dSYM"],
+		});
+	} finally {
+		await session.stop();
+	}
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { createAdapter, DenoAdapter } from "../../src/cdp/adapters/index.ts";
+
+describe("createAdapter", () => {
+	test("detects Deno from the launch command", () => {
+		expect(createAdapter(["deno", "run", "main.ts"]).name).toBe("deno");
+		expect(createAdapter(["/usr/local/bin/deno", "main.ts"]).name).toBe("deno");
+		expect(createAdapter(["node", "app.js"]).name).toBe("node");
+	});
+});
+
+describe("DenoAdapter.buildSpawnArgs", () => {
+	const adapter = new DenoAdapter();
+
+	test("puts the inspector flag after the subcommand", () => {
+		expect(
+			adapter.buildSpawnArgs(["deno", "run", "-A", "main.ts"], { brk: true, port: 9230 }),
+		).toEqual(["deno", "run", "--inspect-brk=127.0.0.1:9230", "-A", "main.ts"]);
+		expect(
+			adapter.buildSpawnArgs(["deno", "test", "app_test.ts"], { brk: false, port: 9230 }),
+		).toEqual(["deno", "test", "--inspect=127.0.0.1:9230", "app_test.ts"]);
+	});
+
+	test("puts the inspector flag after the binary for the run shorthand", () => {
+		expect(adapter.buildSpawnArgs(["deno", "main.ts"], { brk: true, port: 9230 })).toEqual([
+			"deno",
+			"--inspect-brk=127.0.0.1:9230",
+			"main.ts",
+		]);
+	});
+
+	test("picks a concrete port instead of 0", () => {
+		const args = adapter.buildSpawnArgs(["deno", "run", "main.ts"], { brk: true, port: 0 });
+		const port = Number(args[2]?.split(":").pop());
+		expect(port).toBeGreaterThan(0);
+	});
+});
@@ -1,10 +1,16 @@
 import { describe, expect, test } from "bun:test";
+import { formatDisassembly } from "../../src/formatter/disasm.ts";
 import { formatError } from "../../src/formatter/errors.ts";
+import { formatMemory } from "../../src/formatter/memory.ts";
+import { formatRegisters } from "../../src/formatter/registers.ts";
 import { formatSource, type SourceLine } from "../../src/formatter/source.ts";
 import { formatStack, type StackFrame } from "../../src/formatter/stack.ts";
+import { formatStateDiff } from "../../src/formatter/state-diff.ts";
+import { formatThreadStacks, formatThreads } from "../../src/formatter/threads.ts";
 import type { RemoteObject } from "../../src/formatter/values.ts";
 import { formatValue } from "../../src/formatter/values.ts";
 import { formatVariables, type Variable } from "../../src/formatter/variables.ts";
+import { formatWatches } from "../../src/formatter/watches.ts";
 
 // =============================================================================
 // formatValue
@@ -105,6 +111,19 @@ describe("formatValue", () => {
 			expect(formatValue(obj)).toBe('Config { host: "localhost", port: 3000, ... }');
 		});
 
+		test("accessor property in preview", () => {
+			const obj: RemoteObject = {
+				type: "object",
+				className: "Object",
+				preview: {
+					type: "object",
+					overflow: false,
+					properties: [{ name: "status", type: "accessor" }],
+				},
+			};
+			expect(formatValue(obj)).toBe("Object { status: (...) }");
+		});
+
 		test("object without preview", () => {
 			const obj: RemoteObject = {
 				type: "object",
@@ -506,6 +525,18 @@ describe("formatSource", () => {
 	test("empty lines array returns empty string", () => {
 		expect(formatSource([])).toBe("");
 	});
+
+	test("shows a hit count column when coverage is present", () => {
+		const lines: SourceLine[] = [
+			{ lineNumber: 1, content: "function f() {", hitCount: 12 },
+			{ lineNumber: 2, content: "  // comment" },
+			{ lineNumber: 3, content: "  return 1;", hitCount: 0 },
+		];
+		const resultLines = formatSource(lines).split("\n");
+		expect(resultLines[0]).toContain("1 12x\u2502function f() {");
+		expect(resultLines[1]).toContain("2    \u2502  // comment");
+		expect(resultLines[2]).toContain("3  0x\u2502  return 1;");
+	});
 });
 
 // =============================================================================
@@ -718,3 +749,168 @@ describe("formatVariables", () => {
 		expect(lines[1]).toMatch(/^@v10\s+b\s+2$/);
 	});
 });
+
+describe("formatWatches", () => {
+	test("aligns values and shows errors", () => {
+		const result = formatWatches([
+			{ id: "W#1", expression: "user.name", ref: "@v4", value: '"ada"' },
+			{ id: "W#2", expression: "missing", error: "ReferenceError: missing is not defined" },
+		]);
+		expect(result.split("\n")).toEqual([
+			'  W#1  @v4  user.name  "ada"',
+			"  W#2       missing    ! ReferenceError: missing is not defined",
+		]);
+	});
+
+	test("omits the ref column when nothing was evaluated", () => {
+		expect(formatWatches([{ id: "W#1", expression: "total" }])).toBe("  W#1  total");
+	});
+});
+
+describe("formatStateDiff", () => {
+	test("marks changed, added and removed values", () => {
+		const result = formatStateDiff([
+			{ kind: "changed", name: "count", value: "4", previous: "3" },
+			{ kind: "added", name: "item", value: '"b"' },
+			{ kind: "removed", name: "tmp", previous: "null" },
+			{ kind: "changed", name: "count * 2", watch: "W#1", value: "8", previous: "6" },
+		]);
+		expect(result.split("\n")).toEqual([
+			"  ~ count: 3 → 4",
+			'  + item: "b"',
+			"  - tmp: null",
+			"  ~ W#1 count * 2: 6 → 8",
+		]);
+	});
+});
+
+describe("formatThreads", () => {
+	test("marks the current thread and shows top frames of paused ones", () => {
+		const result = formatThreads([
+			{
+				id: 1,
+				name: "MainThread",
+				state: "paused",
+				current: true,
+				frame: { ref: "@f0", functionName: "main", file: "/abs/app.py", line: 17 },
+			},
+			{ id: 12, name: "worker-1", state: "running", current: false },
+		]);
+		expect(result.split("\n")).toEqual([
+			"* 1   MainThread  paused   main  /abs/app.py:17",
+			"  12  worker-1    running",
+		]);
+	});
+
+	test("stacks get a header per thread", () => {
+		const result = formatThreadStacks([
+			{
+				id: 1,
+				name: "main",
+				current: true,
+				frames: [{ ref: "@f0", functionName: "run", file: "/abs/a.c", line: 3 }],
+			},
+			{ id: 2, name: "worker", current: false, frames: [] },
+		]);
+		expect(result.split("\n")).toEqual([
+			"Thread 1 main (current)",
+			"@f0  run  /abs/a.c:3",
+			"",
+			"Thread 2 worker",
+			"No stack frames",
+		]);
+	});
+});
+
+describe("formatDisassembly", () => {
+	test("marks the current instruction and groups by source line", () => {
+		const result = formatDisassembly([
+			{
+				address: "0x1000",
+				instruction: "push rbp",
+				symbol: "main",
+				file: "/abs/app.c",
+				line: 3,
+				current: false,
+			},
+			{
+				address: "0x1001",
+				instruction: "mov rbp, rsp",
+				symbol: "main+1",
+				file: "/abs/app.c",
+				line: 3,
+				current: false,
+			},
+			{
+				address: "0x1004",
+				instruction: "mov dword ptr [rbp - 0x4], 0x2a",
+				symbol: "main+4",
+				file: "/abs/app.c",
+				line: 4,
+				current: true,
+			},
+		]);
+		expect(result.split("\n")).toEqual([
+			"/abs/app.c:3",
+			"   0x1000  <main>    push rbp",
+			"   0x1001  <main+1>  mov rbp, rsp",
+			"/abs/app.c:4",
+			" → 0x1004  <main+4>  mov dword ptr [rbp - 0x4], 0x2a",
+		]);
+	});
+
+	test("omits the symbol column when no instruction has one", () => {
+		const result = formatDisassembly([
+			{ address: "0x10", instruction: "nop", current: false },
+			{ address: "0x11", instruction: "ret", current: true },
+		]);
+		expect(result.split("\n")).toEqual(["   0x10  nop", " → 0x11  ret"]);
+	});
+});
+
+describe("formatMemory", () => {
+	const bytes = new Uint8Array([
+		0x48, 0x65, 0x6c, 0x6c, 0x6f, 0x00, 0x2a, 0x00, 0x00, 0x00, 0xff, 0x01, 0x02, 0x03, 0x04, 0x05,
+		0x41, 0x42,
+	]);
+
+	test("hex rows of 16 bytes with an ASCII column", () => {
+		expect(formatMemory("0x00001000", bytes, "hex").split("\n")).toEqual([
+			"0x00001000  48 65 6c 6c 6f 00 2a 00 00 00 ff 01 02 03 04 05  |Hello.*.........|",
+			"0x00001010  41 42                                            |AB|",
+		]);
+	});
+
+	test("ascii rows replace non-printable bytes", () => {
+		expect(formatMemory("0x1000", bytes, "ascii")).toBe("0x1000  Hello.*.........AB");
+	});
+
+	test("u32 words are little-endian, with trailing bytes kept", () => {
+		expect(formatMemory("0x1000", bytes, "u32").split("\n")).toEqual([
+			"0x1000  0x6c6c6548 0x002a006f 0x01ff0000 0x05040302",
+			"0x1010  41 42",
+		]);
+	});
+});
+
+describe("formatRegisters", () => {
+	test("aligns name/value pairs in columns under a group header", () => {
+		const result = formatRegisters([
+			{
+				name: "General Purpose Registers",
+				registers: [
+					{ name: "rax", value: "0x0000000000000001" },
+					{ name: "rbx", value: "0x0000000000000000" },
+					{ name: "rip", value: "0x0000000100003f74" },
+					{ name: "rsp", value: "0x00007ff7bfeff4f0" },
+					{ name: "cs", value: "0x002b" },
+				],
+			},
+		]);
+		expect(result.split("\n")).toEqual([
+			"General Purpose Registers",
+			"  rax 0x0000000000000001  rbx 0x0000000000000000  rip 0x0000000100003f74  rsp 0x00007ff7bfeff4f0",
+			"   cs 0x002b",
+		]);
+	});
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { formatGoValue } from "../../src/dap/go-values.ts";
+
+describe("formatGoValue", () => {
+	test("slices show their length instead of len/cap", () => {
+		expect(formatGoValue("[]int len: 3, cap: 10, [1,2,3]", "[]int").value).toBe("[]int(3) [1,2,3]");
+		expect(formatGoValue("[]string len: 0, cap: 0, nil").value).toBe("[]string(0) nil");
+	});
+
+	test("maps drop Delve's trailing separator", () => {
+		expect(formatGoValue('map[string]int ["a": 1, "b": 2, ]').value).toBe(
+			'map[string]int {"a": 1, "b": 2}',
+		);
+		expect(formatGoValue("map[string]int []").value).toBe("map[string]int {}");
+	});
+
+	test("interfaces unwrap to their dynamic value and type", () => {
+		expect(formatGoValue('interface {}(string) "hi"', "interface {}")).toEqual({
+			value: '"hi"',
+			type: "string",
+		});
+		expect(formatGoValue('error(*errors.errorString) *{s: "boom"}', "error")).toEqual({
+			value: '*errors.errorString {s: "boom"}',
+			type: "*errors.errorString",
+		});
+		expect(formatGoValue("interface {}([]int) []int len: 2, cap: 2, [4,5]").value).toBe(
+			"[]int(2) [4,5]",
+		);
+	});
+
+	test("nil pointers and other values", () => {
+		expect(formatGoValue("*main.User nil").value).toBe("nil");
+		expect(formatGoValue('main.User {Name: "Alice", Age: 30}').value).toBe(
+			'main.User {Name: "Alice", Age: 30}',
+		);
+		expect(formatGoValue("42", "int")).toEqual({ value: "42", type: "int" });
+	});
+});
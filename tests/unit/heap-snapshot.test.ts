@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import type { HeapSnapshotJson } from "../../src/profiling/heap-snapshot.ts";
+import { analyzeHeapSnapshot, diffHeapAnalyses } from "../../src/profiling/heap-snapshot.ts";
+
+interface TestNode {
+	id: number;
+	type: "synthetic" | "object" | "string";
+	name: string;
+	size: number;
+	edges: Array<{ to: number; weak?: boolean }>;
+}
+
+const NODE_FIELDS = ["type", "name", "id", "self_size", "edge_count"];
+const NODE_TYPES = ["hidden", "object", "string", "synthetic"];
+const EDGE_FIELDS = ["type", "name_or_index", "to_node"];
+const EDGE_TYPES = ["property", "weak"];
+
+/** Build a snapshot in V8's flat format; edge targets are node indices. */
+function buildSnapshot(testNodes: TestNode[]): HeapSnapshotJson {
+	const strings: string[] = [];
+	const str = (s: string) => {
+		const index = strings.indexOf(s);
+		if (index !== -1) return index;
+		strings.push(s);
+		return strings.length - 1;
+	};
+	const nodes: number[] = [];
+	const edges: number[] = [];
+	for (const node of testNodes) {
+		nodes.push(
+			NODE_TYPES.indexOf(node.type),
+			str(node.name),
+			node.id,
+			node.size,
+			node.edges.length,
+		);
+		for (const edge of node.edges) {
+			edges.push(edge.weak ? 1 : 0, str("ref"), edge.to * NODE_FIELDS.length);
+		}
+	}
+	return {
+		snapshot: {
+			meta: {
+				node_fields: NODE_FIELDS,
+				node_types: [NODE_TYPES],
+				edge_fields: EDGE_FIELDS,
+				edge_types: [EDGE_TYPES],
+			},
+		},
+		nodes,
+		edges,
+		strings,
+	};
+}
+
+// root ─┬─> Leaky(1) ─┬─> Leaky(2)
+//       │             └─> "shared" <─┐
+//       ├─> Other ────────────────────┘
+//       └╌> Unreachable (weak edge only)
+const BASE_NODES: TestNode[] = [
+	{
+		id: 1,
+		type: "synthetic",
+		name: "(GC roots)",
+		size: 0,
+		edges: [{ to: 1 }, { to: 4 }, { to: 5, weak: true }],
+	},
+	{ id: 3, type: "object", name: "Leaky", size: 100, edges: [{ to: 2 }, { to: 3 }] },
+	{ id: 5, type: "object", name: "Leaky", size: 50, edges: [] },
+	{ id: 7, type: "string", name: "shared", size: 10, edges: [] },
+	{ id: 9, type: "object", name: "Other", size: 20, edges: [{ to: 3 }] },
+	{ id: 11, type: "object", name: "Unreachable", size: 30, edges: [] },
+];
+
+describe("analyzeHeapSnapshot", () => {
+	const analysis = analyzeHeapSnapshot(buildSnapshot(BASE_NODES));
+	const byName = new Map(analysis.classes.map((c) => [c.name, c]));
+
+	test("counts nodes and total self size", () => {
+		expect(analysis.nodeCount).toBe(6);
+		expect(analysis.totalSize).toBe(210);
+	});
+
+	test("groups by constructor and sorts by retained size", () => {
+		expect(analysis.classes.map((c) => c.name)).toEqual([
+			"Leaky",
+			"Other",
+			"(string)",
+			"Unreachable",
+		]);
+		expect(byName.get("Leaky")).toEqual({
+			name: "Leaky",
+			count: 2,
+			selfSize: 150,
+			retainedSize: 150,
+		});
+	});
+
+	test("objects shared by several owners are retained by their dominator", () => {
+		expect(byName.get("Other")?.retainedSize).toBe(20);
+		expect(byName.get("(string)")?.retainedSize).toBe(10);
+	});
+
+	test("weak edges do not retain", () => {
+		expect(byName.get("Unreachable")?.retainedSize).toBe(0);
+	});
+});
+
+describe("diffHeapAnalyses", () => {
+	test("reports classes that grew, matching objects by id", () => {
+		const base = analyzeHeapSnapshot(buildSnapshot(BASE_NODES));
+		const grown = BASE_NODES.map((n) => ({ ...n, edges: [...n.edges] }));
+		// Leaky(1) now also holds two newly allocated Leaky objects
+		grown[1] = { ...BASE_NODES[1], edges: [{ to: 6 }, { to: 7 }, { to: 3 }] } as TestNode;
+		grown.push(
+			{ id: 13, type: "object", name: "Leaky", size: 60, edges: [] },
+			{ id: 15, type: "object", name: "Leaky", size: 60, edges: [] },
+		);
+		const compare = analyzeHeapSnapshot(buildSnapshot(grown));
+
+		const diff = diffHeapAnalyses(base, compare);
+		expect(diff).toEqual([{ name: "Leaky", countDelta: 2, sizeDelta: 120, added: 2, removed: 0 }]);
+	});
+
+	test("ignores classes that only shrank", () => {
+		const base = analyzeHeapSnapshot(buildSnapshot(BASE_NODES));
+		const shrunk = BASE_NODES.slice(0, 5);
+		shrunk[0] = { ...BASE_NODES[0], edges: [{ to: 1 }, { to: 4 }] } as TestNode;
+		const compare = analyzeHeapSnapshot(buildSnapshot(shrunk));
+		expect(diffHeapAnalyses(base, compare)).toEqual([]);
+	});
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, rmSync } from "node:fs";
+import { ensureSocketDir } from "../../src/daemon/paths.ts";
+import { DaemonServer } from "../../src/daemon/server.ts";
+import { McpServer } from "../../src/mcp/server.ts";
+import { requestSchemas } from "../../src/mcp/tools.ts";
+
+// Use a short test directory to stay within macOS 104-char Unix socket path limit
+const TEST_SOCKET_DIR = `/tmp/debug-that-m${process.pid}`;
+
+let originalEnv: string | undefined;
+
+beforeEach(() => {
+	originalEnv = process.env.XDG_RUNTIME_DIR;
+	process.env.XDG_RUNTIME_DIR = TEST_SOCKET_DIR;
+	ensureSocketDir();
+});
+
+afterEach(() => {
+	if (originalEnv !== undefined) {
+		process.env.XDG_RUNTIME_DIR = originalEnv;
+	} else {
+		delete process.env.XDG_RUNTIME_DIR;
+	}
+	if (existsSync(TEST_SOCKET_DIR)) {
+		rmSync(TEST_SOCKET_DIR, { recursive: true, force: true });
+	}
+});
+
+function createServer(session = "mcp-test"): McpServer {
+	return new McpServer({ session, version: "0.0.0-test" });
+}
+
+async function callTool(server: McpServer, name: string, args: Record<string, unknown> = {}) {
+	const response = await server.handle({
+		jsonrpc: "2.0",
+		id: 1,
+		method: "tools/call",
+		params: { name, arguments: args },
+	});
+	return response?.result as {
+		content: Array<{ type: string; text: string }>;
+		structuredContent?: Record<string, unknown>;
+		isError?: boolean;
+	};
+}
+
+describe("McpServer protocol", () => {
+	test("initialize advertises tools and echoes older protocol versions", async () => {
+		const response = await createServer().handle({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "initialize",
+			params: { protocolVersion: "2024-11-05", capabilities: {} },
+		});
+		expect(response?.result).toEqual({
+			protocolVersion: "2024-11-05",
+			capabilities: { tools: {} },
+			serverInfo: { name: "debug-that", version: "0.0.0-test" },
+		});
+	});
+
+	test("notifications get no response", async () => {
+		const response = await createServer().handle({
+			jsonrpc: "2.0",
+			method: "notifications/initialized",
+		});
+		expect(response).toBeNull();
+	});
+
+	test("unknown methods and tools are JSON-RPC errors", async () => {
+		const server = createServer();
+		const unknownMethod = await server.handle({ jsonrpc: "2.0", id: 2, method: "resources/list" });
+		expect(unknownMethod?.error?.code).toBe(-32601);
+		const unknownTool = await server.handle({
+			jsonrpc: "2.0",
+			id: 3,
+			method: "tools/call",
+			params: { name: "nope" },
+		});
+		expect(unknownTool?.error?.code).toBe(-32602);
+	});
+});
+
+describe("McpServer tools", () => {
+	test("exposes every daemon command except ping and the subscribe stream", async () => {
+		const response = await createServer().handle({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+		const tools = (response?.result as { tools: Array<{ name: string; description: string }> })
+			.tools;
+		const expected = [...requestSchemas().keys()].filter(
+			(cmd) => cmd !== "ping" && cmd !== "subscribe",
+		);
+		expect(tools.map((t) => t.name).sort()).toEqual(expected.sort());
+		for (const tool of tools) {
+			expect(tool.description.length).toBeGreaterThan(0);
+		}
+	});
+
+	test("input schemas come from the request schemas, plus a session parameter", async () => {
+		const response = await createServer().handle({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+		const tools = (
+			response?.result as {
+				tools: Array<{ name: string; inputSchema: Record<string, unknown> }>;
+			}
+		).tools;
+		const launch = tools.find((t) => t.name === "launch")?.inputSchema;
+		expect(launch?.type).toBe("object");
+		expect(launch?.required).toEqual(["command"]);
+		expect(launch?.properties).toMatchObject({
+			command: { type: "array", items: { type: "string" } },
+			brk: { type: "boolean" },
+			session: { type: "string" },
+		});
+		const status = tools.find((t) => t.name === "status")?.inputSchema;
+		expect(Object.keys(status?.properties as object)).toEqual(["session"]);
+	});
+
+	test("invalid arguments are reported as tool errors", async () => {
+		const result = await callTool(createServer(), "eval", { expression: 42 });
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toContain("Invalid arguments for eval");
+	});
+
+	test("calls without a session daemon are tool errors", async () => {
+		const result = await callTool(createServer("mcp-none"), "status");
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toContain('No active session "mcp-none"');
+	});
+
+	test("forwards calls to the session daemon", async () => {
+		const daemon = new DaemonServer("mcp-fwd", { idleTimeout: 60 });
+		daemon.onRequest(async (req) => {
+			if (req.cmd === "eval") {
+				return { ok: true, data: { ref: "@v1", type: "number", value: req.args.expression } };
+			}
+			return { ok: false, error: "Not paused", suggestion: "Try: pause" };
+		});
+		await daemon.start();
+		try {
+			const server = createServer("other");
+			const ok = await callTool(server, "eval", { expression: "1 + 1", session: "mcp-fwd" });
+			expect(ok.isError).toBeUndefined();
+			expect(ok.structuredContent).toEqual({ ref: "@v1", type: "number", value: "1 + 1" });
+			expect(JSON.parse(ok.content[0]?.text ?? "")).toEqual(ok.structuredContent ?? {});
+
+			const failed = await callTool(server, "vars", { session: "mcp-fwd" });
+			expect(failed.isError).toBe(true);
+			expect(failed.content[0]?.text).toBe("Not paused\n  Try: pause");
+		} finally {
+			await daemon.stop();
+		}
+	});
+});
@@ -255,6 +255,17 @@ describe("RefTable", () => {
 		});
 	});
 
+	describe("restore", () => {
+		test("re-inserts an entry under its original ref without advancing the counter", () => {
+			const table = new RefTable();
+			table.addBreakpoint("bp-1");
+			table.remove("BP#1");
+			table.restore({ ref: "BP#1", type: "BP", remoteId: "bp-1b" });
+			expect(table.resolveId("BP#1")).toBe("bp-1b");
+			expect(table.addBreakpoint("bp-2")).toBe("BP#2");
+		});
+	});
+
 	describe("name and meta are optional", () => {
 		test("entry without name or meta", () => {
 			const table = new RefTable();
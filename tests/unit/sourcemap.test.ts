@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, test } from "bun:test";
 import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import { SourceMapResolver } from "../../src/sourcemap/resolver.ts";
 
 const FIXTURE_DIR = resolve(import.meta.dir, "../fixtures/ts");
@@ -118,6 +119,19 @@ describe("SourceMapResolver", () => {
 			expect(generated?.scriptId).toBe("1");
 		});
 
+		test("resolves file:// URL sources (Deno)", async () => {
+			const map = JSON.parse(await Bun.file(APP_JS_MAP).text());
+			const appTs = resolve(FIXTURE_DIR, "src/app.ts");
+			map.sources = [pathToFileURL(appTs).href];
+			const dataUri = `data:application/json,${encodeURIComponent(JSON.stringify(map))}`;
+			await resolver.loadSourceMap("1", pathToFileURL(appTs).href, dataUri);
+
+			const generated = resolver.toGenerated(appTs, 7, 0);
+			expect(generated).not.toBeNull();
+			expect(generated?.scriptId).toBe("1");
+			expect(generated?.line).toBe(2);
+		});
+
 		test("returns null for unknown source", async () => {
 			await resolver.loadSourceMap("1", APP_JS, "app.js.map");
 			const generated = resolver.toGenerated("unknown.ts", 1, 0);